@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js runs in Node for server-side text extraction and loads its worker
+  // from its own package directory, so it must not be bundled
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
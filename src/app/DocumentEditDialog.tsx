@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { Document } from '@/lib/types';
+import { cloudDocs } from '@/lib/cloudDocuments';
+import { MAX_TAGS } from '@/lib/api/schemas';
+
+interface DocumentEditDialogProps {
+    document: Document;
+    onClose: () => void;
+    onSaved?: () => void;
+}
+
+// "a, b,  a" -> ['a', 'b']
+function splitList(value: string): string[] {
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    return Array.from(new Set(items));
+}
+
+export default function DocumentEditDialog({ document, onClose, onSaved }: DocumentEditDialogProps) {
+    const [title, setTitle] = useState(document.title);
+    const [authors, setAuthors] = useState(document.authors?.join(', ') || '');
+    const [publishedDate, setPublishedDate] = useState(document.publishedDate || '');
+    const [tags, setTags] = useState(document.tags?.join(', ') || '');
+    const [description, setDescription] = useState(document.description || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = useCallback(async () => {
+        const tagList = splitList(tags);
+        if (!title.trim()) {
+            setError('Title is required');
+            return;
+        }
+        if (tagList.length > MAX_TAGS) {
+            setError(`At most ${MAX_TAGS} tags`);
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            await cloudDocs.update(document.id, {
+                title: title.trim(),
+                authors: splitList(authors),
+                publishedDate: publishedDate || null,
+                tags: tagList,
+                description: description.trim() || null,
+            });
+
+            onSaved?.();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save changes');
+        } finally {
+            setIsSaving(false);
+        }
+    }, [document.id, title, authors, publishedDate, tags, description, onClose, onSaved]);
+
+    // Close on Escape
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="edit-backdrop" onClick={onClose}>
+            <div
+                className="edit-dialog"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="edit-dialog-title"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="edit-header">
+                    <h2 id="edit-dialog-title" className="edit-title">Edit details</h2>
+                    <button className="edit-close" onClick={onClose} aria-label="Close">
+                        ×
+                    </button>
+                </div>
+
+                <label className="edit-field">
+                    <span>Title</span>
+                    <input value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+                </label>
+
+                <label className="edit-field">
+                    <span>Authors</span>
+                    <input
+                        value={authors}
+                        onChange={(e) => setAuthors(e.target.value)}
+                        placeholder="Separate names with commas"
+                    />
+                </label>
+
+                <label className="edit-field">
+                    <span>Published</span>
+                    <input
+                        type="date"
+                        value={publishedDate}
+                        onChange={(e) => setPublishedDate(e.target.value)}
+                    />
+                </label>
+
+                <label className="edit-field">
+                    <span>Tags</span>
+                    <input
+                        value={tags}
+                        onChange={(e) => setTags(e.target.value)}
+                        placeholder="e.g. philosophy, to reread"
+                    />
+                </label>
+
+                <label className="edit-field">
+                    <span>Description</span>
+                    <textarea
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="What is this about, and why did you save it?"
+                        rows={3}
+                    />
+                </label>
+
+                {error && <p className="edit-error">{error}</p>}
+
+                <div className="edit-actions">
+                    <button className="edit-cancel" onClick={onClose} disabled={isSaving}>
+                        Cancel
+                    </button>
+                    <button className="edit-save" onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+
+            <style jsx>{`
+                .edit-backdrop {
+                    position: fixed;
+                    inset: 0;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    padding: var(--spacing-lg);
+                    background: rgba(0, 0, 0, 0.3);
+                    z-index: var(--z-toolbar);
+                }
+
+                .edit-dialog {
+                    width: 420px;
+                    max-width: 100%;
+                    max-height: 100%;
+                    overflow-y: auto;
+                    padding: var(--spacing-lg);
+                    background: var(--bg-panel);
+                    border: 1px solid var(--border-color);
+                    border-radius: 8px;
+                    box-shadow: var(--shadow-lg);
+                    font-family: var(--font-reader);
+                }
+
+                .edit-header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: flex-start;
+                    margin-bottom: var(--spacing-md);
+                }
+
+                .edit-title {
+                    font-size: 18px;
+                    font-weight: 600;
+                    color: var(--text-primary);
+                    margin: 0;
+                }
+
+                .edit-close {
+                    width: 24px;
+                    height: 24px;
+                    padding: 0;
+                    font-size: 18px;
+                    line-height: 1;
+                    color: var(--text-muted);
+                    background: transparent;
+                    border: none;
+                    cursor: pointer;
+                }
+
+                .edit-close:hover {
+                    color: var(--text-primary);
+                }
+
+                .edit-field {
+                    display: block;
+                    margin-bottom: var(--spacing-md);
+                }
+
+                .edit-field span {
+                    display: block;
+                    font-size: 11px;
+                    font-weight: 500;
+                    text-transform: uppercase;
+                    letter-spacing: 0.05em;
+                    color: var(--text-muted);
+                    margin-bottom: var(--spacing-xs);
+                }
+
+                .edit-field input,
+                .edit-field textarea {
+                    width: 100%;
+                    padding: var(--spacing-sm);
+                    font-family: var(--font-reader);
+                    font-size: 14px;
+                    color: var(--text-primary);
+                    background: var(--bg-primary);
+                    border: 1px solid var(--border-color);
+                    border-radius: 4px;
+                    outline: none;
+                }
+
+                .edit-field textarea {
+                    resize: vertical;
+                }
+
+                .edit-field input:focus,
+                .edit-field textarea:focus {
+                    border-color: var(--hl-definition-solid);
+                }
+
+                .edit-error {
+                    margin: 0 0 var(--spacing-md);
+                    font-size: 13px;
+                    color: var(--hl-question-solid);
+                }
+
+                .edit-actions {
+                    display: flex;
+                    gap: var(--spacing-sm);
+                    justify-content: flex-end;
+                }
+
+                .edit-cancel,
+                .edit-save {
+                    padding: var(--spacing-sm) var(--spacing-md);
+                    font-family: var(--font-reader);
+                    font-size: 13px;
+                    border: none;
+                    border-radius: 4px;
+                    cursor: pointer;
+                    transition: all var(--transition-fast);
+                }
+
+                .edit-cancel {
+                    color: var(--text-muted);
+                    background: transparent;
+                }
+
+                .edit-cancel:hover:not(:disabled) {
+                    color: var(--text-primary);
+                }
+
+                .edit-save {
+                    color: white;
+                    background: var(--hl-definition-solid);
+                }
+
+                .edit-save:hover:not(:disabled) {
+                    opacity: 0.9;
+                }
+
+                .edit-save:disabled {
+                    opacity: 0.5;
+                    cursor: not-allowed;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { startSyncLoop } from '@/lib/sync';
+
+/**
+ * Keeps local stores and the server in sync while the app is open, and
+ * points to the storage page when the server refused some changes
+ */
+export default function SyncManager() {
+  const [rejected, setRejected] = useState(0);
+
+  useEffect(() => startSyncLoop(summary => setRejected(summary.rejected)), []);
+
+  if (rejected === 0) return null;
+
+  return (
+    <Link href="/storage" className="sync-rejected">
+      {rejected === 1 ? '1 change' : `${rejected} changes`} could not be synced. Review
+      <style jsx>{`
+        :global(.sync-rejected) {
+          position: fixed;
+          bottom: var(--spacing-lg);
+          right: var(--spacing-lg);
+          z-index: 1000;
+          padding: var(--spacing-sm) var(--spacing-md);
+          font-size: 13px;
+          color: var(--text-primary);
+          background: var(--bg-secondary);
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+        }
+      `}</style>
+    </Link>
+  );
+}
@@ -0,0 +1,34 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyPassword } from '@/lib/auth/password';
+import { createSession } from '@/lib/auth/session';
+import { parseBody } from '@/lib/api/validate';
+import { signInBody } from '@/lib/api/schemas';
+
+// POST sign in with email and password
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseBody(request, signInBody);
+        if (!parsed.success) return parsed.response;
+        const { email: normalizedEmail, password } = parsed.data;
+
+        const result = await sql`
+            SELECT id, email, password_hash FROM users WHERE email = ${normalizedEmail}
+        `;
+        const user = result.rows[0];
+
+        if (!user || !(await verifyPassword(password, user.password_hash))) {
+            return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 });
+        }
+
+        const response = NextResponse.json({ id: user.id, email: user.email });
+        await createSession(user.id, response);
+        return response;
+    } catch (error) {
+        console.error('Sign in error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to sign in' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { destroySession } from '@/lib/auth/session';
+
+// POST sign out of this browser
+export async function POST(request: NextRequest) {
+    try {
+        const response = NextResponse.json({ success: true });
+        await destroySession(request, response);
+        return response;
+    } catch (error) {
+        console.error('Sign out error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to sign out' },
+            { status: 500 }
+        );
+    }
+}
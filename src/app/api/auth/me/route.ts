@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+
+// GET the signed-in user
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        return NextResponse.json(user);
+    } catch (error) {
+        console.error('Get session error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get session' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,66 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { hashPassword } from '@/lib/auth/password';
+import { createSession } from '@/lib/auth/session';
+import { parseBody } from '@/lib/api/validate';
+import { signUpBody } from '@/lib/api/schemas';
+
+// POST create an account and sign in
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseBody(request, signUpBody);
+        if (!parsed.success) return parsed.response;
+        const { email: normalizedEmail, password } = parsed.data;
+
+        const existing = await sql`SELECT id FROM users WHERE email = ${normalizedEmail}`;
+        if (existing.rows.length > 0) {
+            return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+        }
+
+        const id = uuidv4();
+        const passwordHash = await hashPassword(password);
+
+        await sql`
+            INSERT INTO users (id, email, password_hash)
+            VALUES (${id}, ${normalizedEmail}, ${passwordHash})
+        `;
+
+        // The first account adopts data created before accounts existed
+        await adoptLegacyRows(id);
+
+        const response = NextResponse.json({ id, email: normalizedEmail }, { status: 201 });
+        await createSession(id, response);
+        return response;
+    } catch (error) {
+        console.error('Sign up error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create account' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Give rows with no owner to `userId` if it is the oldest account. "Oldest"
+ * is read from the users table in each UPDATE, after this account was
+ * inserted, rather than from a count taken before it: two sign-ups racing
+ * on an empty table agree on one owner and cannot split the rows.
+ */
+async function adoptLegacyRows(userId: string): Promise<void> {
+    await sql`
+        UPDATE documents SET user_id = ${userId}
+        WHERE user_id IS NULL
+          AND ${userId} = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+    `;
+    await sql`
+        UPDATE highlights SET user_id = ${userId}
+        WHERE user_id IS NULL
+          AND ${userId} = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+    `;
+    await sql`
+        UPDATE vocabulary SET user_id = ${userId}
+        WHERE user_id IS NULL
+          AND ${userId} = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+    `;
+}
@@ -0,0 +1,55 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { getFileStorage, parseRange } from '@/lib/fileStorage';
+
+// GET stream a document's PDF to its owner, honouring Range requests
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const { id } = await params;
+        const result = await sql`
+            SELECT file_key FROM documents
+            WHERE id = ${id} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+
+        const key = result.rows[0]?.file_key;
+        const storage = getFileStorage();
+        const size = key ? await storage.size(key) : null;
+        if (size === null) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+
+        const range = parseRange(request.headers.get('range'), size);
+        if (range === 'unsatisfiable') {
+            return new NextResponse(null, {
+                status: 416,
+                headers: { 'Content-Range': `bytes */${size}` },
+            });
+        }
+
+        const headers = new Headers({
+            'Content-Type': 'application/pdf',
+            'Accept-Ranges': 'bytes',
+            'Cache-Control': 'private, max-age=0, must-revalidate',
+            'Content-Length': String(range ? range.end - range.start + 1 : size),
+        });
+        if (range) {
+            headers.set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+        }
+
+        const body = await storage.read(key, range || undefined);
+        return new NextResponse(body, { status: range ? 206 : 200, headers });
+    } catch (error) {
+        console.error('Get document file error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get file' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { markDocumentOpened } from '@/lib/db/documents';
+
+// POST record that the document was just opened (drives the "last opened" sort)
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const { id } = await params;
+        if (!(await markDocumentOpened(user.id, id))) {
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Mark document opened error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update document' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,40 +1,61 @@
-import { sql } from '@vercel/postgres';
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-
-// GET all documents or single document by ID
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { parseBody, parseQuery, invalidRequest } from '@/lib/api/validate';
+import { createDocumentBody, documentsQuery, idQuery, updateDocumentBody } from '@/lib/api/schemas';
+import {
+    listDocumentPage,
+    decodeCursor,
+    getDocument,
+    findDocumentByHash,
+    createDocument,
+    updateDocument,
+    deleteDocument,
+} from '@/lib/db/documents';
+
+// GET a page of documents or single document by ID
+//   ?sort=created|title|opened  &sourceType=pdf|url  &q=title text  &limit=N  &cursor=nextCursor
+//   ?contentHash=<sha256>  the document imported from that file, as a page of at most one
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const id = searchParams.get('id');
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, documentsQuery);
+        if (!parsed.success) return parsed.response;
+        const { id, sort, sourceType, q, contentHash, cursor: cursorParam, limit } = parsed.data;
 
         if (id) {
             // Get single document
-            const result = await sql`
-                SELECT id, title, source_type, source_path, created_at
-                FROM documents 
-                WHERE id = ${id}
-            `;
+            const document = await getDocument(user.id, id);
 
-            if (result.rows.length === 0) {
+            if (!document) {
                 return NextResponse.json({ error: 'Document not found' }, { status: 404 });
             }
 
-            return NextResponse.json(result.rows[0]);
+            return NextResponse.json(document);
+        } else if (contentHash) {
+            const document = await findDocumentByHash(user.id, contentHash);
+            return NextResponse.json({ documents: document ? [document] : [], nextCursor: null });
         } else {
-            // Get all documents
-            const result = await sql`
-                SELECT id, title, source_type, source_path, created_at
-                FROM documents 
-                ORDER BY created_at DESC
-            `;
-
-            return NextResponse.json(result.rows);
+            // Get a page of documents
+            const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;
+            if (cursor === null) {
+                return invalidRequest([{ path: 'cursor', message: 'Invalid cursor' }]);
+            }
+
+            return NextResponse.json(await listDocumentPage(user.id, {
+                sort,
+                sourceType,
+                query: q || undefined,
+                cursor,
+                limit,
+            }));
         }
-    } catch (error: any) {
+    } catch (error) {
         console.error('Get documents error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to get documents' },
+            { error: error instanceof Error ? error.message : 'Failed to get documents' },
             { status: 500 }
         );
     }
@@ -43,94 +64,74 @@ export async function GET(request: NextRequest) {
 // POST create new document
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { title, sourceType, sourcePath } = body;
-
-        if (!title || !sourceType || !sourcePath) {
-            return NextResponse.json(
-                { error: 'Missing required fields: title, sourceType, sourcePath' },
-                { status: 400 }
-            );
-        }
-
-        const id = uuidv4();
-
-        await sql`
-            INSERT INTO documents (id, title, source_type, source_path)
-            VALUES (${id}, ${title}, ${sourceType}, ${sourcePath})
-        `;
-
-        const result = await sql`
-            SELECT id, title, source_type, source_path, created_at
-            FROM documents 
-            WHERE id = ${id}
-        `;
-
-        return NextResponse.json(result.rows[0], { status: 201 });
-    } catch (error: any) {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, createDocumentBody);
+        if (!parsed.success) return parsed.response;
+        const { title, sourceType, sourcePath, contentHash } = parsed.data;
+
+        const document = await createDocument(user.id, {
+            id: uuidv4(),
+            title,
+            sourceType,
+            sourcePath,
+            contentHash,
+        });
+
+        return NextResponse.json(document, { status: 201 });
+    } catch (error) {
         console.error('Create document error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to create document' },
+            { error: error instanceof Error ? error.message : 'Failed to create document' },
             { status: 500 }
         );
     }
 }
 
-// PUT update document
+// PUT update document title, source path and details (authors, tags, description...)
 export async function PUT(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { id, title, sourcePath } = body;
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
 
-        if (!id) {
-            return NextResponse.json({ error: 'Missing document ID' }, { status: 400 });
-        }
+        const parsed = await parseBody(request, updateDocumentBody);
+        if (!parsed.success) return parsed.response;
+        const { id, ...updates } = parsed.data;
 
-        if (title) {
-            await sql`UPDATE documents SET title = ${title} WHERE id = ${id}`;
-        }
+        const document = await updateDocument(user.id, id, updates);
 
-        if (sourcePath) {
-            await sql`UPDATE documents SET source_path = ${sourcePath} WHERE id = ${id}`;
-        }
-
-        const result = await sql`
-            SELECT id, title, source_type, source_path, created_at
-            FROM documents 
-            WHERE id = ${id}
-        `;
-
-        if (result.rows.length === 0) {
+        if (!document) {
             return NextResponse.json({ error: 'Document not found' }, { status: 404 });
         }
 
-        return NextResponse.json(result.rows[0]);
-    } catch (error: any) {
+        return NextResponse.json(document);
+    } catch (error) {
         console.error('Update document error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to update document' },
+            { error: error instanceof Error ? error.message : 'Failed to update document' },
             { status: 500 }
         );
     }
 }
 
-// DELETE document
+// DELETE document (and its highlights and vocabulary)
 export async function DELETE(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const id = searchParams.get('id');
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
 
-        if (!id) {
-            return NextResponse.json({ error: 'Missing document ID' }, { status: 400 });
-        }
+        const parsed = parseQuery(request, idQuery);
+        if (!parsed.success) return parsed.response;
+        const { id } = parsed.data;
 
-        await sql`DELETE FROM documents WHERE id = ${id}`;
+        await deleteDocument(user.id, id);
 
         return NextResponse.json({ success: true });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Delete document error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to delete document' },
+            { error: error instanceof Error ? error.message : 'Failed to delete document' },
             { status: 500 }
         );
     }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { parseQuery } from '@/lib/api/validate';
+import { articleImageQuery } from '@/lib/api/schemas';
+import { FetchPageError, fetchImage } from '@/lib/extraction/fetchPage';
+
+// GET download an article image on the reader's behalf so it can be saved
+// for offline reading (most sites do not allow cross-origin reads)
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, articleImageQuery);
+        if (!parsed.success) return parsed.response;
+
+        const { contentType, body } = await fetchImage(parsed.data.url);
+
+        return new NextResponse(new Uint8Array(body), {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Length': String(body.length),
+                'Cache-Control': 'private, max-age=86400',
+                // Served from our origin, so never let it be read as anything but an image
+                'Content-Security-Policy': "default-src 'none'",
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch (error) {
+        if (error instanceof FetchPageError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+        }
+        console.error('Article image fetch error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to fetch image' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,165 @@
+import { parseJsonColumn, sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { createHighlightBody, highlightsQuery, idQuery, updateHighlightBody } from '@/lib/api/schemas';
+
+// GET highlights for a document or single highlight by ID
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, highlightsQuery);
+        if (!parsed.success) return parsed.response;
+        const { id, documentId } = parsed.data;
+
+        if (id) {
+            const result = await sql`
+                SELECT id, document_id, type, text, anchor, note, created_at, updated_at, note_updated_at
+                FROM highlights
+                WHERE id = ${id} AND user_id = ${user.id} AND deleted_at IS NULL
+            `;
+
+            if (result.rows.length === 0) {
+                return NextResponse.json({ error: 'Highlight not found' }, { status: 404 });
+            }
+
+            return NextResponse.json(toHighlightRow(result.rows[0]));
+        }
+
+        const result = await sql`
+            SELECT id, document_id, type, text, anchor, note, created_at, updated_at, note_updated_at
+            FROM highlights
+            WHERE document_id = ${documentId} AND user_id = ${user.id} AND deleted_at IS NULL
+            ORDER BY created_at ASC
+        `;
+
+        return NextResponse.json(result.rows.map(toHighlightRow));
+    } catch (error) {
+        console.error('Get highlights error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get highlights' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST create new highlight
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, createHighlightBody);
+        if (!parsed.success) return parsed.response;
+        const { documentId, type, text, anchor, note } = parsed.data;
+
+        const owned = await sql`
+            SELECT id FROM documents
+            WHERE id = ${documentId} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+        if (owned.rows.length === 0) {
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+
+        const id = uuidv4();
+
+        await sql`
+            INSERT INTO highlights (id, user_id, document_id, type, text, anchor, note, note_updated_at)
+            VALUES (${id}, ${user.id}, ${documentId}, ${type}, ${text}, ${JSON.stringify(anchor)}, ${note || null}, NOW())
+        `;
+
+        const result = await sql`
+            SELECT id, document_id, type, text, anchor, note, created_at, updated_at, note_updated_at
+            FROM highlights
+            WHERE id = ${id}
+        `;
+
+        return NextResponse.json(toHighlightRow(result.rows[0]), { status: 201 });
+    } catch (error) {
+        console.error('Create highlight error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create highlight' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT update highlight type and/or note
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, updateHighlightBody);
+        if (!parsed.success) return parsed.response;
+        const { id, type, note } = parsed.data;
+
+        if (type) {
+            await sql`
+                UPDATE highlights SET type = ${type}, updated_at = NOW(), changed_at = NOW()
+                WHERE id = ${id} AND user_id = ${user.id}
+            `;
+        }
+
+        // An empty or null note clears it
+        if (note !== undefined) {
+            await sql`
+                UPDATE highlights SET note = ${note || null}, note_updated_at = NOW(), changed_at = NOW()
+                WHERE id = ${id} AND user_id = ${user.id}
+            `;
+        }
+
+        const result = await sql`
+            SELECT id, document_id, type, text, anchor, note, created_at, updated_at, note_updated_at
+            FROM highlights
+            WHERE id = ${id} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+
+        if (result.rows.length === 0) {
+            return NextResponse.json({ error: 'Highlight not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(toHighlightRow(result.rows[0]));
+    } catch (error) {
+        console.error('Update highlight error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update highlight' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE highlight (its note lives on the same row)
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, idQuery);
+        if (!parsed.success) return parsed.response;
+        const { id } = parsed.data;
+
+        // Soft delete so the tombstone reaches other devices on their next sync
+        await sql`
+            UPDATE highlights
+            SET deleted_at = NOW(), updated_at = NOW(), changed_at = NOW()
+            WHERE id = ${id} AND user_id = ${user.id}
+        `;
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete highlight error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to delete highlight' },
+            { status: 500 }
+        );
+    }
+}
+
+// anchor is JSONB in Postgres but text in SQLite
+function toHighlightRow(row: Record<string, unknown>): Record<string, unknown> {
+    return { ...row, anchor: parseJsonColumn(row.anchor) };
+}
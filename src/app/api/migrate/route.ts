@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runMigrations } from '@/lib/db/migrate';
+import { hasMigrationAccess, forbidden } from '@/lib/auth/admin';
+
+// POST apply all pending migrations (idempotent)
+export async function POST(request: NextRequest) {
+    if (!hasMigrationAccess(request)) return forbidden();
+
+    try {
+        const { ran, status } = await runMigrations();
+
+        return NextResponse.json({
+            success: true,
+            ran,
+            applied: status.applied,
+            pending: status.pending,
+        });
+    } catch (error) {
+        console.error('Migration error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to run migrations' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMigrationStatus } from '@/lib/db/migrate';
+import { hasMigrationAccess, forbidden } from '@/lib/auth/admin';
+
+// GET applied and pending migrations
+export async function GET(request: NextRequest) {
+    if (!hasMigrationAccess(request)) return forbidden();
+
+    try {
+        const status = await getMigrationStatus();
+        return NextResponse.json(status);
+    } catch (error) {
+        console.error('Migration status error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get migration status' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { searchPages } from '@/lib/db/pages';
+import { parseQuery } from '@/lib/api/validate';
+import { searchQuery } from '@/lib/api/schemas';
+
+interface DocumentResult {
+    documentId: string;
+    title: string;
+    pages: { pageNumber: number; snippet: string }[];
+}
+
+// GET search the text of the user's PDFs, grouped by document (best match first)
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, searchQuery);
+        if (!parsed.success) return parsed.response;
+        const query = parsed.data.q;
+
+        const hits = await searchPages(user.id, query);
+        const results = new Map<string, DocumentResult>();
+
+        for (const hit of hits) {
+            let result = results.get(hit.document_id);
+            if (!result) {
+                result = { documentId: hit.document_id, title: hit.title, pages: [] };
+                results.set(hit.document_id, result);
+            }
+            result.pages.push({ pageNumber: Number(hit.page_number), snippet: hit.snippet });
+        }
+
+        return NextResponse.json({ query, results: [...results.values()] });
+    } catch (error) {
+        console.error('Search error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to search' },
+            { status: 500 }
+        );
+    }
+}
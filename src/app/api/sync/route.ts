@@ -0,0 +1,375 @@
+import { parseJsonColumn, sql } from '@/lib/db/client';
+import { detachDocumentFile } from '@/lib/db/documentFiles';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { SyncFields, SyncMutationInput, syncFields, syncPullQuery, syncPushBody } from '@/lib/api/schemas';
+
+type MutationStatus = 'applied' | 'stale' | 'rejected' | 'error';
+
+interface MutationResult {
+    id: string;
+    status: MutationStatus;
+    error?: string;
+}
+
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+/**
+ * A mutation the server refuses on its merits, with the reason shown to the user
+ */
+class RejectedMutation extends Error {}
+
+// GET every row changed since the cursor, tombstones included
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, syncPullQuery);
+        if (!parsed.success) return parsed.response;
+        const since = parsed.data.since || EPOCH;
+
+        // Read the clock first so writes landing mid-pull are picked up next time
+        const clock = await sql`SELECT NOW() AS now`;
+        const serverTime = new Date(clock.rows[0].now).toISOString();
+
+        const documents = await sql`
+            SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+                   tags, description, created_at, updated_at, last_opened_at, deleted_at
+            FROM documents
+            WHERE user_id = ${user.id} AND changed_at > ${since}
+        `;
+
+        const highlights = await sql`
+            SELECT id, document_id, type, text, anchor, note, created_at, updated_at, note_updated_at, deleted_at
+            FROM highlights
+            WHERE user_id = ${user.id} AND changed_at > ${since}
+        `;
+
+        const vocabulary = await sql`
+            SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at, deleted_at
+            FROM vocabulary
+            WHERE user_id = ${user.id} AND changed_at > ${since}
+        `;
+
+        return NextResponse.json({
+            serverTime,
+            // JSON columns come back as text from SQLite
+            documents: documents.rows.map(row => ({
+                ...row,
+                authors: parseJsonColumn(row.authors),
+                tags: parseJsonColumn(row.tags),
+            })),
+            highlights: highlights.rows.map(row => ({ ...row, anchor: parseJsonColumn(row.anchor) })),
+            vocabulary: vocabulary.rows,
+        });
+    } catch (error) {
+        console.error('Sync pull error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to pull changes' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST replay queued client mutations in order
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, syncPushBody);
+        if (!parsed.success) return parsed.response;
+
+        // Client clocks can run ahead; a write stamped in the future would win
+        // every later conflict, so no timestamp may be later than now
+        const clock = await sql`SELECT NOW() AS now`;
+        const serverTime = new Date(clock.rows[0].now);
+
+        const results: MutationResult[] = [];
+
+        for (const mutation of parsed.data.mutations) {
+            // A change with bad fields is rejected alone; the rest still apply
+            const fields = syncFields[mutation.collection].safeParse(mutation.fields);
+            if (!fields.success) {
+                const issue = fields.error.issues[0];
+                results.push({ id: mutation.id, status: 'rejected', error: `${issue.path.join('.')}: ${issue.message}` });
+                continue;
+            }
+
+            try {
+                const timestamp = clampToServerTime(mutation.timestamp, serverTime);
+                const status = await applyMutation(user.id, { ...mutation, timestamp }, fields.data);
+                results.push({ id: mutation.id, status });
+            } catch (error) {
+                if (error instanceof RejectedMutation) {
+                    results.push({ id: mutation.id, status: 'rejected', error: error.message });
+                    continue;
+                }
+                // Stop at the first failure so later mutations are not applied out of order
+                results.push({
+                    id: mutation.id,
+                    status: 'error',
+                    error: error instanceof Error ? error.message : 'Failed to apply mutation',
+                });
+                break;
+            }
+        }
+
+        return NextResponse.json({ results });
+    } catch (error) {
+        console.error('Sync push error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to push changes' },
+            { status: 500 }
+        );
+    }
+}
+
+// `fields` has been checked against syncFields for the mutation's collection
+async function applyMutation(userId: string, mutation: SyncMutationInput, fields: object): Promise<MutationStatus> {
+    switch (mutation.collection) {
+        case 'documents':
+            return applyDocumentMutation(userId, mutation, fields as SyncFields<'documents'>);
+        case 'highlights':
+            return applyHighlightMutation(userId, mutation, fields as SyncFields<'highlights'>);
+        case 'notes':
+            return applyNoteMutation(userId, mutation, fields as SyncFields<'notes'>);
+        case 'vocabulary':
+            return applyVocabularyMutation(userId, mutation, fields as SyncFields<'vocabulary'>);
+        default:
+            return 'rejected';
+    }
+}
+
+function clampToServerTime(timestamp: string, serverTime: Date): string {
+    return new Date(timestamp).getTime() > serverTime.getTime() ? serverTime.toISOString() : timestamp;
+}
+
+/**
+ * A write only lands if it is at least as new as the row's last write
+ */
+function isStale(rowUpdatedAt: string | null, timestamp: string): boolean {
+    return !!rowUpdatedAt && new Date(rowUpdatedAt).getTime() > new Date(timestamp).getTime();
+}
+
+async function ownsDocument(userId: string, documentId: string): Promise<boolean> {
+    const result = await sql`SELECT id FROM documents WHERE id = ${documentId} AND user_id = ${userId}`;
+    return result.rows.length > 0;
+}
+
+async function applyDocumentMutation(
+    userId: string,
+    { recordId: id, op, timestamp }: SyncMutationInput,
+    fields: SyncFields<'documents'>
+): Promise<MutationStatus> {
+    const existing = await sql`
+        SELECT user_id, updated_at, deleted_at, source_type, source_path FROM documents WHERE id = ${id}
+    `;
+    const row = existing.rows[0];
+
+    // IDs are global, so a row owned by another account must never be touched
+    if (row && row.user_id !== userId) return 'rejected';
+    if (row && isStale(row.updated_at, timestamp)) return 'stale';
+
+    if (op === 'delete') {
+        if (!row) return 'applied';
+        await sql`
+            UPDATE documents
+            SET deleted_at = ${timestamp}, updated_at = ${timestamp}, changed_at = NOW()
+            WHERE id = ${id}
+        `;
+        await sql`
+            UPDATE highlights
+            SET deleted_at = ${timestamp}, updated_at = ${timestamp}, changed_at = NOW()
+            WHERE document_id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+        `;
+        await sql`
+            UPDATE vocabulary
+            SET deleted_at = ${timestamp}, updated_at = ${timestamp}, changed_at = NOW()
+            WHERE document_id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+        `;
+        await detachDocumentFile(userId, id);
+        return 'applied';
+    }
+
+    const { title, sourceType, sourcePath, contentHash, createdAt } = fields;
+
+    // Deleting a PDF released its stored file, so bringing the document back
+    // needs a new file: the upsert must point it somewhere else
+    if (row?.deleted_at && (sourceType ?? row.source_type) === 'pdf' && hadStoredFile(sourcePath ?? row.source_path)) {
+        throw new RejectedMutation('This PDF was deleted along with its file; upload it again to restore it');
+    }
+
+    if (!row) {
+        // A PDF kept only on the sending device has no path to share yet
+        if (!title || !sourceType || (sourcePath === undefined && sourceType !== 'pdf')) return 'rejected';
+        await sql`
+            INSERT INTO documents (
+                id, user_id, title, source_type, source_path, content_hash, created_at, updated_at, changed_at
+            )
+            VALUES (
+                ${id}, ${userId}, ${title}, ${sourceType}, ${sourcePath ?? ''}, ${contentHash || null},
+                ${createdAt || timestamp}, ${timestamp}, NOW()
+            )
+        `;
+        await applyDocumentMetadata(id, fields);
+        return 'applied';
+    }
+
+    if (title !== undefined) await sql`UPDATE documents SET title = ${title} WHERE id = ${id}`;
+    if (sourceType !== undefined) await sql`UPDATE documents SET source_type = ${sourceType} WHERE id = ${id}`;
+    if (sourcePath !== undefined) await sql`UPDATE documents SET source_path = ${sourcePath} WHERE id = ${id}`;
+    if (contentHash !== undefined) await sql`UPDATE documents SET content_hash = ${contentHash || null} WHERE id = ${id}`;
+    await applyDocumentMetadata(id, fields);
+    await sql`
+        UPDATE documents
+        SET updated_at = ${timestamp}, deleted_at = NULL, changed_at = NOW()
+        WHERE id = ${id}
+    `;
+    return 'applied';
+}
+
+/**
+ * Whether a PDF's source path points at the file proxy rather than a copy
+ * kept on the device (or nowhere yet)
+ */
+function hadStoredFile(sourcePath: string | null): boolean {
+    return !!sourcePath && !sourcePath.startsWith('local:');
+}
+
+/**
+ * Copy the metadata fields a mutation carries onto the document row
+ */
+async function applyDocumentMetadata(id: string, fields: SyncFields<'documents'>): Promise<void> {
+    const { authors, publishedDate, pageCount, wordCount, tags, description } = fields;
+
+    if (authors !== undefined) await sql`UPDATE documents SET authors = ${JSON.stringify(authors)} WHERE id = ${id}`;
+    if (publishedDate !== undefined) await sql`UPDATE documents SET published_date = ${publishedDate} WHERE id = ${id}`;
+    if (pageCount !== undefined) await sql`UPDATE documents SET page_count = ${pageCount} WHERE id = ${id}`;
+    if (wordCount !== undefined) await sql`UPDATE documents SET word_count = ${wordCount} WHERE id = ${id}`;
+    if (tags !== undefined) await sql`UPDATE documents SET tags = ${JSON.stringify(tags)} WHERE id = ${id}`;
+    if (description !== undefined) await sql`UPDATE documents SET description = ${description || null} WHERE id = ${id}`;
+}
+
+async function applyHighlightMutation(
+    userId: string,
+    { recordId: id, op, timestamp }: SyncMutationInput,
+    fields: SyncFields<'highlights'>
+): Promise<MutationStatus> {
+    const existing = await sql`SELECT user_id, updated_at FROM highlights WHERE id = ${id}`;
+    const row = existing.rows[0];
+
+    // IDs are global, so a row owned by another account must never be touched
+    if (row && row.user_id !== userId) return 'rejected';
+    if (row && isStale(row.updated_at, timestamp)) return 'stale';
+
+    if (op === 'delete') {
+        if (!row) return 'applied';
+        await sql`
+            UPDATE highlights
+            SET deleted_at = ${timestamp}, updated_at = ${timestamp}, changed_at = NOW()
+            WHERE id = ${id}
+        `;
+        return 'applied';
+    }
+
+    const { documentId, type, text, anchor, createdAt } = fields;
+
+    if (!row) {
+        if (!documentId || !type || !text || !anchor) return 'rejected';
+        if (!(await ownsDocument(userId, documentId))) return 'rejected';
+        await sql`
+            INSERT INTO highlights (id, user_id, document_id, type, text, anchor, created_at, updated_at, changed_at)
+            VALUES (
+                ${id}, ${userId}, ${documentId}, ${type}, ${text}, ${JSON.stringify(anchor)},
+                ${createdAt || timestamp}, ${timestamp}, NOW()
+            )
+        `;
+        return 'applied';
+    }
+
+    if (type !== undefined) await sql`UPDATE highlights SET type = ${type} WHERE id = ${id}`;
+    if (text !== undefined) await sql`UPDATE highlights SET text = ${text} WHERE id = ${id}`;
+    if (anchor !== undefined) await sql`UPDATE highlights SET anchor = ${JSON.stringify(anchor)} WHERE id = ${id}`;
+    await sql`
+        UPDATE highlights
+        SET updated_at = ${timestamp}, deleted_at = NULL, changed_at = NOW()
+        WHERE id = ${id}
+    `;
+    return 'applied';
+}
+
+// Notes live in highlights.note and are keyed by highlight ID
+async function applyNoteMutation(
+    userId: string,
+    { recordId: highlightId, op, timestamp }: SyncMutationInput,
+    fields: SyncFields<'notes'>
+): Promise<MutationStatus> {
+    const existing = await sql`SELECT user_id, note_updated_at FROM highlights WHERE id = ${highlightId}`;
+    const row = existing.rows[0];
+
+    if (!row || row.user_id !== userId) return 'rejected';
+    if (isStale(row.note_updated_at, timestamp)) return 'stale';
+
+    const content = op === 'delete' ? null : fields.content || null;
+    await sql`
+        UPDATE highlights
+        SET note = ${content}, note_updated_at = ${timestamp}, changed_at = NOW()
+        WHERE id = ${highlightId}
+    `;
+    return 'applied';
+}
+
+async function applyVocabularyMutation(
+    userId: string,
+    { recordId: id, op, timestamp }: SyncMutationInput,
+    fields: SyncFields<'vocabulary'>
+): Promise<MutationStatus> {
+    const existing = await sql`SELECT user_id, updated_at FROM vocabulary WHERE id = ${id}`;
+    const row = existing.rows[0];
+
+    // IDs are global, so a row owned by another account must never be touched
+    if (row && row.user_id !== userId) return 'rejected';
+    if (row && isStale(row.updated_at, timestamp)) return 'stale';
+
+    if (op === 'delete') {
+        if (!row) return 'applied';
+        await sql`
+            UPDATE vocabulary
+            SET deleted_at = ${timestamp}, updated_at = ${timestamp}, changed_at = NOW()
+            WHERE id = ${id}
+        `;
+        return 'applied';
+    }
+
+    const { word, contextSentence, documentId, userNote, definition, createdAt } = fields;
+
+    if (!row) {
+        if (!word) return 'rejected';
+        if (documentId && !(await ownsDocument(userId, documentId))) return 'rejected';
+        await sql`
+            INSERT INTO vocabulary (
+                id, user_id, word, definition, context_sentence, document_id, user_note,
+                created_at, updated_at, changed_at
+            )
+            VALUES (
+                ${id}, ${userId}, ${word}, ${definition || null}, ${contextSentence || null}, ${documentId || null},
+                ${userNote || null}, ${createdAt || timestamp}, ${timestamp}, NOW()
+            )
+        `;
+        return 'applied';
+    }
+
+    if (word !== undefined) await sql`UPDATE vocabulary SET word = ${word} WHERE id = ${id}`;
+    if (contextSentence !== undefined) await sql`UPDATE vocabulary SET context_sentence = ${contextSentence || null} WHERE id = ${id}`;
+    if (definition !== undefined) await sql`UPDATE vocabulary SET definition = ${definition || null} WHERE id = ${id}`;
+    if (userNote !== undefined) await sql`UPDATE vocabulary SET user_note = ${userNote || null} WHERE id = ${id}`;
+    await sql`
+        UPDATE vocabulary
+        SET updated_at = ${timestamp}, deleted_at = NULL, changed_at = NOW()
+        WHERE id = ${id}
+    `;
+    return 'applied';
+}
@@ -1,58 +1,68 @@
-import { put, del } from '@vercel/blob';
-import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { getFileStorage, hasPdfSignature } from '@/lib/fileStorage';
+import { attachDocumentFile, indexDocumentFile, releaseFile } from '@/lib/db/documentFiles';
+import { parseForm, parseQuery } from '@/lib/api/validate';
+import { deletePdfQuery, uploadPdfForm } from '@/lib/api/schemas';
+
+// Vercel functions refuse request bodies over 4.5MB
+const MAX_SINGLE_UPLOAD = 4 * 1024 * 1024;
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
     try {
-        const formData = await request.formData();
-        const file = formData.get('file') as File;
-        const documentId = formData.get('documentId') as string;
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
 
-        if (!file) {
-            return NextResponse.json(
-                { error: 'No file provided' },
-                { status: 400 }
-            );
-        }
+        const parsed = await parseForm(request, uploadPdfForm);
+        if (!parsed.success) return parsed.response;
+        const { file, documentId } = parsed.data;
 
-        if (!documentId) {
+        const owned = await sql`
+            SELECT id, file_key FROM documents
+            WHERE id = ${documentId} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+        if (owned.rows.length === 0) {
             return NextResponse.json(
-                { error: 'No document ID provided' },
-                { status: 400 }
+                { error: 'Document not found' },
+                { status: 404 }
             );
         }
 
-        // Validate file type
-        if (!file.type.includes('pdf')) {
+        // The declared type is up to the client, so check the bytes too
+        const head = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+        if (!file.type.includes('pdf') || !hasPdfSignature(head)) {
             return NextResponse.json(
                 { error: 'Only PDF files are allowed' },
                 { status: 400 }
             );
         }
 
-        // Check file size (10MB limit for Vercel Blob free tier)
-        const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-        if (file.size > MAX_SIZE) {
+        // The whole form is read into memory, so larger files go through /api/uploads in parts
+        const storage = getFileStorage();
+        if (file.size > MAX_SINGLE_UPLOAD) {
             return NextResponse.json(
-                { error: `File too large. Maximum size is 10MB.` },
-                { status: 400 }
+                { error: `File too large for a single upload. Use /api/uploads for files over ${MAX_SINGLE_UPLOAD / (1024 * 1024)}MB.` },
+                { status: 413 }
             );
         }
 
-        // Upload to Vercel Blob
-        const blob = await put(`pdfs/${documentId}.pdf`, file, {
-            access: 'public',
-            addRandomSuffix: false,
-        });
+        const key = await storage.put(file, `${user.id}/${documentId}.pdf`);
+
+        await attachDocumentFile(documentId, key, owned.rows[0].file_key);
+
+        // Index the text once the response has been sent
+        after(() => indexDocumentFile(documentId, key));
 
         return NextResponse.json({
             success: true,
-            url: blob.url,
+            url: `/api/documents/${documentId}/file`,
             documentId,
         });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Upload error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to upload file' },
+            { error: error instanceof Error ? error.message : 'Failed to upload file' },
             { status: 500 }
         );
     }
@@ -60,23 +70,34 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
 export async function DELETE(request: NextRequest): Promise<NextResponse> {
     try {
-        const { searchParams } = new URL(request.url);
-        const url = searchParams.get('url');
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, deletePdfQuery);
+        if (!parsed.success) return parsed.response;
+        const { url } = parsed.data;
 
-        if (!url) {
+        // Only files attached to one of the user's documents can be deleted
+        const owned = await sql`
+            SELECT id, file_key FROM documents
+            WHERE source_path = ${url} AND user_id = ${user.id}
+        `;
+        const document = owned.rows[0];
+        if (!document?.file_key) {
             return NextResponse.json(
-                { error: 'No URL provided' },
-                { status: 400 }
+                { error: 'File not found' },
+                { status: 404 }
             );
         }
 
-        await del(url);
+        await sql`UPDATE documents SET file_key = NULL WHERE id = ${document.id}`;
+        await releaseFile(document.file_key);
 
         return NextResponse.json({ success: true });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Delete error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to delete file' },
+            { error: error instanceof Error ? error.message : 'Failed to delete file' },
             { status: 500 }
         );
     }
@@ -0,0 +1,78 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { FileStorageDriver, getFileStorage, hasPdfSignature } from '@/lib/fileStorage';
+import { deleteUpload, getPartCount, getUpload, getUploadParts } from '@/lib/db/uploads';
+import { attachDocumentFile, indexDocumentFile } from '@/lib/db/documentFiles';
+
+// POST assemble the uploaded parts and attach the file to its document
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const { id } = await params;
+        const upload = await getUpload(user.id, id);
+        if (!upload) {
+            return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+        }
+
+        const parts = await getUploadParts(upload.id);
+        const partCount = getPartCount(upload);
+        if (parts.length !== partCount) {
+            return NextResponse.json(
+                { error: `Upload is missing ${partCount - parts.length} of ${partCount} parts` },
+                { status: 409 }
+            );
+        }
+
+        const storage = getFileStorage();
+        const owned = await sql`
+            SELECT id, file_key FROM documents
+            WHERE id = ${upload.document_id} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+        if (owned.rows.length === 0) {
+            // The document was deleted mid-upload, so the parts have nowhere to go
+            await storage.abortUpload(upload.handle);
+            await deleteUpload(upload.id);
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+
+        const key = await storage.completeUpload(
+            upload.handle,
+            parts.map(part => ({ partNumber: Number(part.part_number), etag: part.etag }))
+        );
+        await deleteUpload(upload.id);
+
+        // Parts stored by the browser never passed the check on part 1
+        if (storage.directUpload && !(await isPdf(storage, key))) {
+            await storage.delete(key);
+            return NextResponse.json({ error: 'Only PDF files are allowed' }, { status: 400 });
+        }
+
+        await attachDocumentFile(upload.document_id, key, owned.rows[0].file_key);
+
+        // Index the text once the response has been sent
+        after(() => indexDocumentFile(upload.document_id, key));
+
+        return NextResponse.json({
+            success: true,
+            url: `/api/documents/${upload.document_id}/file`,
+            documentId: upload.document_id,
+        });
+    } catch (error) {
+        console.error('Complete upload error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to complete upload' },
+            { status: 500 }
+        );
+    }
+}
+
+async function isPdf(storage: FileStorageDriver, key: string): Promise<boolean> {
+    const head = await new Response(await storage.read(key, { start: 0, end: 7 })).arrayBuffer();
+    return hasPdfSignature(new Uint8Array(head));
+}
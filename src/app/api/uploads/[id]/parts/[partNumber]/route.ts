@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { getFileStorage, hasPdfSignature } from '@/lib/fileStorage';
+import { getPartCount, getPartLength, getUpload, saveUploadPart } from '@/lib/db/uploads';
+import { invalidRequest, parseBody, parseParams } from '@/lib/api/validate';
+import { uploadPartEtagBody, uploadPartParams } from '@/lib/api/schemas';
+
+// PUT one part of an upload as the raw request body, or for direct uploads the
+// etag of the part the browser stored itself. Resending a part replaces it.
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; partNumber: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseParams(params, uploadPartParams);
+        if (!parsed.success) return parsed.response;
+        const { id, partNumber } = parsed.data;
+
+        const upload = await getUpload(user.id, id);
+        if (!upload) {
+            return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+        }
+
+        const partCount = getPartCount(upload);
+        if (partNumber > partCount) {
+            return invalidRequest([{ path: 'partNumber', message: `This upload has ${partCount} parts` }]);
+        }
+
+        const storage = getFileStorage();
+        const length = getPartLength(upload, partNumber);
+
+        if (storage.directUpload) {
+            const body = await parseBody(request, uploadPartEtagBody);
+            if (!body.success) return body.response;
+
+            await saveUploadPart(upload.id, { part_number: partNumber, size: length, etag: body.data.etag });
+            return NextResponse.json({ partNumber, size: length });
+        }
+
+        // Check the declared length before buffering the body
+        if (Number(request.headers.get('content-length')) !== length) {
+            return invalidRequest([{ path: 'body', message: `Part ${partNumber} must be exactly ${length} bytes` }]);
+        }
+
+        const data = new Uint8Array(await request.arrayBuffer());
+        if (data.length !== length) {
+            return invalidRequest([{ path: 'body', message: `Part ${partNumber} must be exactly ${length} bytes` }]);
+        }
+
+        if (partNumber === 1 && !hasPdfSignature(data)) {
+            return NextResponse.json({ error: 'Only PDF files are allowed' }, { status: 400 });
+        }
+
+        const etag = await storage.putPart(upload.handle, partNumber, data);
+        await saveUploadPart(upload.id, { part_number: partNumber, size: data.length, etag });
+
+        return NextResponse.json({ partNumber, size: data.length });
+    } catch (error) {
+        console.error('Upload part error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to upload part' },
+            { status: 500 }
+        );
+    }
+}
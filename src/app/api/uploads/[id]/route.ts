@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { getFileStorage } from '@/lib/fileStorage';
+import { deleteUpload, getUpload, getUploadParts, toUploadResponse } from '@/lib/db/uploads';
+
+// GET an upload's progress, so an interrupted client knows which parts to resend
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const { id } = await params;
+        const upload = await getUpload(user.id, id);
+        if (!upload) {
+            return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+        }
+
+        // A fresh token, since the one handed out at the start may have expired
+        const direct = await getFileStorage().directUpload?.(upload.handle);
+        return NextResponse.json(toUploadResponse(upload, await getUploadParts(upload.id), direct));
+    } catch (error) {
+        console.error('Get upload error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get upload' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE abort an upload and discard its parts
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const { id } = await params;
+        const upload = await getUpload(user.id, id);
+        if (upload) {
+            await getFileStorage().abortUpload(upload.handle);
+            await deleteUpload(upload.id);
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Abort upload error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to abort upload' },
+            { status: 500 }
+        );
+    }
+}
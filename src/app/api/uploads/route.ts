@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { getFileStorage } from '@/lib/fileStorage';
+import { getDocument } from '@/lib/db/documents';
+import { createUpload, deleteUpload, getExpiredUploads, getUpload, toUploadResponse } from '@/lib/db/uploads';
+import { parseBody } from '@/lib/api/validate';
+import { createUploadBody } from '@/lib/api/schemas';
+
+/**
+ * Drop a user's abandoned uploads and their staged parts
+ */
+async function abortExpiredUploads(userId: string): Promise<void> {
+    const storage = getFileStorage();
+    for (const upload of await getExpiredUploads(userId)) {
+        try {
+            await storage.abortUpload(upload.handle);
+        } catch (error) {
+            console.error('Abort expired upload error:', error);
+        }
+        await deleteUpload(upload.id);
+    }
+}
+
+// POST start a multipart upload of a document's PDF
+//   then PUT /api/uploads/<id>/parts/<n> for each part and POST /api/uploads/<id>/complete
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, createUploadBody);
+        if (!parsed.success) return parsed.response;
+        const { documentId, size } = parsed.data;
+
+        if (!(await getDocument(user.id, documentId))) {
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+
+        // Check file size against the storage driver's limit
+        const storage = getFileStorage();
+        if (size > storage.maxSize) {
+            return NextResponse.json(
+                { error: `File too large. Maximum size is ${Math.round(storage.maxSize / (1024 * 1024))}MB.` },
+                { status: 413 }
+            );
+        }
+
+        await abortExpiredUploads(user.id);
+
+        const id = uuidv4();
+        const handle = await storage.createUpload(`${user.id}/${documentId}.pdf`);
+        await createUpload({
+            id,
+            user_id: user.id,
+            document_id: documentId,
+            size,
+            part_size: storage.partSize,
+            handle,
+        });
+
+        const upload = await getUpload(user.id, id);
+        if (!upload) throw new Error('Failed to start upload');
+
+        const direct = await storage.directUpload?.(upload.handle);
+        return NextResponse.json(toUploadResponse(upload, [], direct), { status: 201 });
+    } catch (error) {
+        console.error('Start upload error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to start upload' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,44 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatVocabularyCsv } from '@/lib/vocabulary';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+
+// GET vocabulary as a CSV download
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const result = await sql`
+            SELECT id, word, definition, context_sentence, document_id, user_note, created_at
+            FROM vocabulary
+            WHERE user_id = ${user.id} AND deleted_at IS NULL
+            ORDER BY created_at DESC
+        `;
+
+        const csv = formatVocabularyCsv(result.rows.map(row => ({
+            id: row.id,
+            word: row.word,
+            definition: row.definition || undefined,
+            contextSentence: row.context_sentence || '',
+            documentId: row.document_id || '',
+            userNote: row.user_note || undefined,
+            createdAt: new Date(row.created_at),
+        })));
+
+        const date = new Date().toISOString().split('T')[0];
+
+        return new NextResponse(csv, {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="vocabulary-${date}.csv"`,
+            },
+        });
+    } catch (error) {
+        console.error('Export vocabulary error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to export vocabulary' },
+            { status: 500 }
+        );
+    }
+}
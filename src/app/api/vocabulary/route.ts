@@ -0,0 +1,193 @@
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSessionUser, unauthorized } from '@/lib/auth/session';
+import { parseBody, parseQuery } from '@/lib/api/validate';
+import { createVocabularyBody, idQuery, updateVocabularyBody, vocabularyQuery } from '@/lib/api/schemas';
+
+// GET all vocabulary, a single entry, entries for a document, or search results
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, vocabularyQuery);
+        if (!parsed.success) return parsed.response;
+        const { id, documentId, q: query } = parsed.data;
+
+        if (id) {
+            const result = await sql`
+                SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+                FROM vocabulary
+                WHERE id = ${id} AND user_id = ${user.id} AND deleted_at IS NULL
+            `;
+
+            if (result.rows.length === 0) {
+                return NextResponse.json({ error: 'Vocabulary entry not found' }, { status: 404 });
+            }
+
+            return NextResponse.json(result.rows[0]);
+        }
+
+        if (query) {
+            const pattern = `%${query}%`;
+            const result = await sql`
+                SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+                FROM vocabulary
+                WHERE user_id = ${user.id} AND deleted_at IS NULL
+                  AND (LOWER(word) LIKE LOWER(${pattern})
+                   OR LOWER(context_sentence) LIKE LOWER(${pattern})
+                   OR LOWER(definition) LIKE LOWER(${pattern})
+                   OR LOWER(user_note) LIKE LOWER(${pattern}))
+                ORDER BY created_at DESC
+            `;
+
+            return NextResponse.json(result.rows);
+        }
+
+        if (documentId) {
+            const result = await sql`
+                SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+                FROM vocabulary
+                WHERE document_id = ${documentId} AND user_id = ${user.id} AND deleted_at IS NULL
+                ORDER BY created_at DESC
+            `;
+
+            return NextResponse.json(result.rows);
+        }
+
+        const result = await sql`
+            SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+            FROM vocabulary
+            WHERE user_id = ${user.id} AND deleted_at IS NULL
+            ORDER BY created_at DESC
+        `;
+
+        return NextResponse.json(result.rows);
+    } catch (error) {
+        console.error('Get vocabulary error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to get vocabulary' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST create new vocabulary entry
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, createVocabularyBody);
+        if (!parsed.success) return parsed.response;
+        const { word, contextSentence, documentId, userNote, definition } = parsed.data;
+
+        if (documentId) {
+            const owned = await sql`
+                SELECT id FROM documents
+                WHERE id = ${documentId} AND user_id = ${user.id} AND deleted_at IS NULL
+            `;
+            if (owned.rows.length === 0) {
+                return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+            }
+        }
+
+        const id = uuidv4();
+
+        await sql`
+            INSERT INTO vocabulary (id, user_id, word, definition, context_sentence, document_id, user_note)
+            VALUES (
+                ${id},
+                ${user.id},
+                ${word},
+                ${definition || null},
+                ${contextSentence || null},
+                ${documentId || null},
+                ${userNote || null}
+            )
+        `;
+
+        const result = await sql`
+            SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+            FROM vocabulary
+            WHERE id = ${id}
+        `;
+
+        return NextResponse.json(result.rows[0], { status: 201 });
+    } catch (error) {
+        console.error('Create vocabulary error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create vocabulary entry' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT update definition and/or note
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = await parseBody(request, updateVocabularyBody);
+        if (!parsed.success) return parsed.response;
+        const { id, definition, userNote } = parsed.data;
+
+        // Empty or null values clear the field
+        if (definition !== undefined) {
+            await sql`UPDATE vocabulary SET definition = ${definition || null} WHERE id = ${id} AND user_id = ${user.id}`;
+        }
+
+        if (userNote !== undefined) {
+            await sql`UPDATE vocabulary SET user_note = ${userNote || null} WHERE id = ${id} AND user_id = ${user.id}`;
+        }
+
+        await sql`UPDATE vocabulary SET updated_at = NOW(), changed_at = NOW() WHERE id = ${id} AND user_id = ${user.id}`;
+
+        const result = await sql`
+            SELECT id, word, definition, context_sentence, document_id, user_note, created_at, updated_at
+            FROM vocabulary
+            WHERE id = ${id} AND user_id = ${user.id} AND deleted_at IS NULL
+        `;
+
+        if (result.rows.length === 0) {
+            return NextResponse.json({ error: 'Vocabulary entry not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(result.rows[0]);
+    } catch (error) {
+        console.error('Update vocabulary error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update vocabulary entry' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE vocabulary entry
+export async function DELETE(request: NextRequest) {
+    try {
+        const user = await getSessionUser(request);
+        if (!user) return unauthorized();
+
+        const parsed = parseQuery(request, idQuery);
+        if (!parsed.success) return parsed.response;
+        const { id } = parsed.data;
+
+        // Soft delete so the tombstone reaches other devices on their next sync
+        await sql`
+            UPDATE vocabulary
+            SET deleted_at = NOW(), updated_at = NOW(), changed_at = NOW()
+            WHERE id = ${id} AND user_id = ${user.id}
+        `;
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete vocabulary error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to delete vocabulary entry' },
+            { status: 500 }
+        );
+    }
+}
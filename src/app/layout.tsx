@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import './globals.css';
+import SyncManager from './SyncManager';
 
 export const metadata: Metadata = {
   title: 'Co-Reader',
@@ -13,7 +14,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" data-theme="light">
-      <body>{children}</body>
+      <body>
+        <SyncManager />
+        {children}
+      </body>
     </html>
   );
 }
@@ -2,24 +2,52 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Highlight, HighlightType, Document } from '@/lib/types';
-import { getAllHighlights, deleteHighlight, getNoteByHighlight } from '@/lib/highlights';
-import { getAllDocuments, getDocumentById } from '@/lib/documents';
+import { Highlight, HighlightType, Document, Note } from '@/lib/types';
+import { getAllHighlights, getAllNotes } from '@/lib/highlights';
+import { cloudHighlights } from '@/lib/cloudHighlights';
+import { getAllDocuments } from '@/lib/documents';
+import { useStoreChanges } from '@/lib/useStoreChanges';
 
 type FilterType = 'all' | HighlightType;
 
+interface LibraryData {
+    highlights: Highlight[];
+    documents: Document[];
+    notes: Note[];
+}
+
+async function loadLibraryData(): Promise<LibraryData> {
+    const [highlights, documents, notes] = await Promise.all([
+        getAllHighlights(),
+        getAllDocuments(),
+        getAllNotes(),
+    ]);
+    return { highlights, documents, notes };
+}
+
 export default function LibraryPage() {
     const router = useRouter();
     const [highlights, setHighlights] = useState<Highlight[]>([]);
     const [documents, setDocuments] = useState<Document[]>([]);
+    const [notes, setNotes] = useState<Map<string, Note>>(new Map());
     const [filterType, setFilterType] = useState<FilterType>('all');
     const [filterDocument, setFilterDocument] = useState<string>('all');
 
-    useEffect(() => {
-        setHighlights(getAllHighlights());
-        setDocuments(getAllDocuments());
+    const applyData = useCallback(({ highlights, documents, notes }: LibraryData) => {
+        setHighlights(highlights);
+        setDocuments(documents);
+        setNotes(new Map(notes.map(n => [n.highlightId, n])));
     }, []);
 
+    useEffect(() => {
+        loadLibraryData().then(applyData);
+    }, [applyData]);
+
+    // Stay current with edits made in the reader or other tabs
+    useStoreChanges(['highlights', 'notes', 'documents'], () => {
+        loadLibraryData().then(applyData);
+    });
+
     const filteredHighlights = highlights.filter(h => {
         if (filterType !== 'all' && h.type !== filterType) return false;
         if (filterDocument !== 'all' && h.documentId !== filterDocument) return false;
@@ -30,16 +58,15 @@ export default function LibraryPage() {
         router.push(`/reader/${highlight.documentId}`);
     }, [router]);
 
-    const handleDeleteHighlight = useCallback((id: string, e: React.MouseEvent) => {
+    const handleDeleteHighlight = useCallback(async (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
         if (confirm('Delete this highlight?')) {
-            deleteHighlight(id);
-            setHighlights(getAllHighlights());
+            await cloudHighlights.delete(id);
         }
     }, []);
 
     const getDocumentTitle = (documentId: string) => {
-        const doc = getDocumentById(documentId);
+        const doc = documents.find(d => d.id === documentId);
         return doc?.title || 'Unknown Document';
     };
 
@@ -128,7 +155,7 @@ export default function LibraryPage() {
             ) : (
                 <div className="highlights-list">
                     {filteredHighlights.map((highlight) => {
-                        const note = getNoteByHighlight(highlight.id);
+                        const note = notes.get(highlight.id);
                         return (
                             <article
                                 key={highlight.id}
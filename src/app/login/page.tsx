@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { signIn, signUp } from '@/lib/account';
+
+type Mode = 'signin' | 'signup';
+
+export default function LoginPage() {
+    const router = useRouter();
+    const [mode, setMode] = useState<Mode>('signin');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSubmitting(true);
+        try {
+            if (mode === 'signup') {
+                await signUp(email, password);
+            } else {
+                await signIn(email, password);
+            }
+            router.push('/');
+        } catch (error) {
+            setError(error instanceof Error ? error.message : 'Something went wrong.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [mode, email, password, router]);
+
+    return (
+        <div className="login-container">
+            <button className="back-btn" onClick={() => router.push('/')}>
+                ← Back
+            </button>
+
+            <h1 className="login-title">{mode === 'signin' ? 'Sign in' : 'Create account'}</h1>
+
+            <form className="login-form" onSubmit={handleSubmit}>
+                <label>
+                    Email
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        autoComplete="email"
+                        required
+                    />
+                </label>
+                <label>
+                    Password
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                        required
+                    />
+                </label>
+
+                {error && <p className="login-error">{error}</p>}
+
+                <button type="submit" className="submit-btn" disabled={isSubmitting}>
+                    {isSubmitting ? 'Please wait...' : mode === 'signin' ? 'Sign in' : 'Create account'}
+                </button>
+            </form>
+
+            <button
+                className="mode-toggle"
+                onClick={() => {
+                    setMode(mode === 'signin' ? 'signup' : 'signin');
+                    setError('');
+                }}
+            >
+                {mode === 'signin' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+            </button>
+
+            <style jsx>{`
+                .login-container {
+                    max-width: 360px;
+                    margin: 0 auto;
+                    padding: var(--spacing-2xl) var(--spacing-lg);
+                    min-height: 100vh;
+                }
+
+                .back-btn {
+                    padding: var(--spacing-xs) var(--spacing-sm);
+                    font-family: var(--font-reader);
+                    font-size: 14px;
+                    color: var(--text-secondary);
+                    background: transparent;
+                    border: none;
+                    cursor: pointer;
+                }
+
+                .back-btn:hover {
+                    color: var(--text-primary);
+                }
+
+                .login-title {
+                    font-family: var(--font-reader);
+                    font-size: 28px;
+                    font-weight: 600;
+                    color: var(--text-primary);
+                    margin: var(--spacing-md) 0 var(--spacing-lg) 0;
+                }
+
+                .login-form {
+                    display: flex;
+                    flex-direction: column;
+                    gap: var(--spacing-md);
+                }
+
+                .login-form label {
+                    display: flex;
+                    flex-direction: column;
+                    gap: var(--spacing-xs);
+                    font-size: 13px;
+                    color: var(--text-secondary);
+                }
+
+                .login-form input {
+                    padding: var(--spacing-sm) var(--spacing-md);
+                    font-size: 14px;
+                    color: var(--text-primary);
+                    background: var(--bg-primary);
+                    border: 1px solid var(--border-color);
+                    border-radius: 6px;
+                }
+
+                .login-error {
+                    margin: 0;
+                    font-size: 13px;
+                    color: var(--hl-question-solid);
+                }
+
+                .submit-btn {
+                    padding: var(--spacing-sm) var(--spacing-lg);
+                    font-family: var(--font-reader);
+                    font-size: 14px;
+                    color: var(--text-primary);
+                    background: var(--bg-secondary);
+                    border: 1px solid var(--border-color);
+                    border-radius: 6px;
+                    cursor: pointer;
+                    transition: all var(--transition-fast);
+                }
+
+                .submit-btn:hover:not(:disabled) {
+                    background: var(--bg-panel);
+                }
+
+                .submit-btn:disabled {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+
+                .mode-toggle {
+                    margin-top: var(--spacing-lg);
+                    padding: 0;
+                    font-size: 13px;
+                    color: var(--text-muted);
+                    background: transparent;
+                    border: none;
+                    cursor: pointer;
+                }
+
+                .mode-toggle:hover {
+                    color: var(--text-primary);
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -1,18 +1,24 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { Document } from '@/lib/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Document, SourceType } from '@/lib/types';
 import {
-  getAllDocuments,
   getStorageUsageString,
   clearAllData,
 } from '@/lib/documents';
-import { cloudDocs } from '@/lib/cloudDocuments';
-import { storePdf, deletePdf } from '@/lib/cloudStorage';
-import { fetchAndStoreArticle, deleteArticle } from '@/lib/articles';
-import { deleteHighlightsByDocument } from '@/lib/highlights';
-import { deleteVocabularyByDocument } from '@/lib/vocabulary';
+import { cloudDocs, DocumentPage, DocumentSort } from '@/lib/cloudDocuments';
+import { isCloudUrl, storePdf } from '@/lib/cloudStorage';
+import { fetchAndStoreArticle, getArticleMetadata } from '@/lib/articles';
+import { saveArticleImages } from '@/lib/articleImages';
+import { exportWorkspace, importWorkspace, getBackupFileName } from '@/lib/backup';
+import { getQuotaStatus } from '@/lib/storageManager';
+import { formatBytes, hashPdf } from '@/lib/pdfStore';
+import { SearchResult, searchLibrary } from '@/lib/search';
+import { Account, getCurrentUser, signOut } from '@/lib/account';
 import { useRouter } from 'next/navigation';
+import DocumentEditDialog from './DocumentEditDialog';
+
+const PAGE_SIZE = 24;
 
 export default function HomePage() {
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -20,30 +26,108 @@ export default function HomePage() {
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingDocs, setIsLoadingDocs] = useState(true);
   const [urlInput, setUrlInput] = useState('');
+  const [saveImages, setSaveImages] = useState(true);
   const [showUrlInput, setShowUrlInput] = useState(false);
   const [storageUsage, setStorageUsage] = useState('');
   const [showStorageWarning, setShowStorageWarning] = useState(false);
   const [uploadProgress, setUploadProgress] = useState('');
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [sort, setSort] = useState<DocumentSort>('created');
+  const [typeFilter, setTypeFilter] = useState<SourceType | ''>('');
+  const [titleFilter, setTitleFilter] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [editingDocument, setEditingDocument] = useState<Document | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
-  // Load documents from cloud (with localStorage fallback)
   useEffect(() => {
-    async function loadDocuments() {
-      setIsLoadingDocs(true);
-      try {
-        const docs = await cloudDocs.getAll();
-        setDocuments(docs);
-      } catch (error) {
-        console.warn('Failed to load from cloud, using localStorage');
-        setDocuments(getAllDocuments());
-      } finally {
-        setIsLoadingDocs(false);
-        setStorageUsage(getStorageUsageString());
-      }
-    }
-    loadDocuments();
+    getCurrentUser().then(setAccount);
+  }, []);
+
+  const handleSignOut = useCallback(async () => {
+    await signOut();
+    setAccount(null);
+  }, []);
+
+  const refreshStorageInfo = useCallback(() => {
+    getStorageUsageString().then(setStorageUsage);
+    getQuotaStatus().then(status => setShowStorageWarning(status.level !== 'ok'));
   }, []);
 
+  const documentQuery = useMemo(() => ({
+    sort,
+    sourceType: typeFilter || undefined,
+    q: titleFilter.trim() || undefined,
+    limit: PAGE_SIZE,
+  }), [sort, typeFilter, titleFilter]);
+
+  const applyPage = useCallback((page: DocumentPage) => {
+    setDocuments(page.documents);
+    setNextCursor(page.nextCursor);
+    setIsLoadingDocs(false);
+  }, []);
+
+  // Reload the first page, e.g. after adding or removing documents
+  const reloadDocuments = useCallback(async () => {
+    applyPage(await cloudDocs.getPage(documentQuery));
+    refreshStorageInfo();
+  }, [documentQuery, applyPage, refreshStorageInfo]);
+
+  useEffect(() => {
+    refreshStorageInfo();
+  }, [refreshStorageInfo]);
+
+  // Load the first page from cloud (with local store fallback) whenever the
+  // sort or filters change; typing in the title filter is debounced
+  useEffect(() => {
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      cloudDocs.getPage(documentQuery).then(page => {
+        if (!cancelled) applyPage(page);
+      });
+    }, documentQuery.q ? 250 : 0);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [documentQuery, applyPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await cloudDocs.getPage({ ...documentQuery, cursor: nextCursor });
+      setDocuments(prev => [...prev, ...page.documents]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more documents:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [documentQuery, nextCursor, isLoadingMore]);
+
+  // Infinite scroll: fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
   const handleFileUpload = useCallback(async (file: File) => {
     if (!file.type.includes('pdf')) {
       alert('Please upload a PDF file');
@@ -51,36 +135,78 @@ export default function HomePage() {
     }
 
     setIsLoading(true);
-    setUploadProgress('Creating document...');
+    setUploadProgress('Checking for duplicates...');
+    let documentId: string | null = null;
 
     try {
+      // Offer the existing copy (with its highlights) if this exact file was imported before
+      const contentHash = await hashPdf(file);
+      const existing = await cloudDocs.findByContentHash(contentHash);
+      if (existing && confirm(`"${existing.title}" is already in your library. Open it instead of importing a second copy?`)) {
+        router.push(`/reader/${existing.id}`);
+        return;
+      }
+
       // Create document in cloud database
+      setUploadProgress('Creating document...');
       const title = file.name.replace('.pdf', '');
-      const doc = await cloudDocs.create(title, 'pdf', ''); // Create with empty path first
+      const doc = await cloudDocs.create(title, 'pdf', '', contentHash); // No path until the file is stored
+      documentId = doc.id;
 
       // Upload PDF to cloud storage
       setUploadProgress('Uploading PDF...');
-      const pdfUrl = await storePdf(file, doc.id);
+      const pdfUrl = await storePdf(file, doc.id, (uploaded, total) => {
+        setUploadPercent(Math.round((uploaded / total) * 100));
+        setUploadProgress(`Uploading PDF... ${formatBytes(uploaded)} of ${formatBytes(total)}`);
+      });
+      setUploadPercent(null);
 
       // Update document with the storage URL
       setUploadProgress('Saving...');
       await cloudDocs.update(doc.id, { sourcePath: pdfUrl });
+      documentId = null;
+
+      if (!isCloudUrl(pdfUrl)) {
+        alert('The PDF is saved on this device only, since your changes have not reached the server yet. Offload it to the cloud from the Storage page once they have.');
+      }
 
       // Refresh documents list
-      const docs = await cloudDocs.getAll();
-      setDocuments(docs);
-      setStorageUsage(getStorageUsageString());
+      await reloadDocuments();
 
       // Navigate to reader
       router.push(`/reader/${doc.id}`);
     } catch (error: any) {
       console.error('Failed to upload PDF:', error);
       alert(error.message || 'Failed to upload PDF. Please try again.');
+
+      // Clean up the document left without its file
+      if (documentId) {
+        await cloudDocs.delete(documentId);
+      }
     } finally {
       setIsLoading(false);
       setUploadProgress('');
+      setUploadPercent(null);
     }
-  }, [router]);
+  }, [router, reloadDocuments]);
+
+  const handleSearch = useCallback(async () => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      setSearchResults(await searchLibrary(query));
+    } catch (error) {
+      console.error('Search failed:', error);
+      alert(error instanceof Error ? error.message : 'Search failed. Are you signed in?');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [searchQuery]);
 
   const handleUrlSubmit = useCallback(async () => {
     if (!urlInput.trim()) return;
@@ -94,11 +220,18 @@ export default function HomePage() {
       docId = doc.id;
 
       // Fetch and store article content (stored locally for now)
-      await fetchAndStoreArticle(doc.id, urlInput);
+      const article = await fetchAndStoreArticle(doc.id, urlInput);
+      await cloudDocs.update(doc.id, getArticleMetadata(article));
+
+      // Best effort: images that cannot be saved still load from the site
+      if (saveImages) {
+        setUploadProgress('Saving images for offline reading...');
+        await saveArticleImages(article).catch(error => console.warn('Failed to save article images:', error));
+        setUploadProgress('');
+      }
 
       // Refresh documents
-      const docs = await cloudDocs.getAll();
-      setDocuments(docs);
+      await reloadDocuments();
 
       setUrlInput('');
       setShowUrlInput(false);
@@ -115,7 +248,7 @@ export default function HomePage() {
     } finally {
       setIsLoading(false);
     }
-  }, [urlInput, router]);
+  }, [urlInput, saveImages, router, reloadDocuments]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -146,43 +279,78 @@ export default function HomePage() {
     }
   }, [handleFileUpload]);
 
-  const handleDeleteDocument = useCallback(async (id: string, sourceType: string, sourcePath: string, e: React.MouseEvent) => {
+  const handleDeleteDocument = useCallback(async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (confirm('Delete this document and all its data?')) {
-      // Delete the document record from cloud
+      // Removes the PDF or article, highlights, notes, AI outputs and vocabulary
       await cloudDocs.delete(id);
 
-      // Clean up associated data
-      if (sourceType === 'pdf' && sourcePath) {
-        try {
-          await deletePdf(sourcePath);
-        } catch (err) {
-          console.warn('Failed to delete PDF from storage:', err);
-        }
-      } else if (sourceType === 'url') {
-        deleteArticle(id);
-      }
-
-      // Delete highlights and vocabulary for this document
-      deleteHighlightsByDocument(id);
-      deleteVocabularyByDocument(id);
-
       // Refresh state
-      const docs = await cloudDocs.getAll();
-      setDocuments(docs);
-      setStorageUsage(getStorageUsageString());
+      await reloadDocuments();
     }
+  }, [reloadDocuments]);
+
+  const handleEditDocument = useCallback((doc: Document, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingDocument(doc);
   }, []);
 
-  const handleClearAllData = useCallback(() => {
+  const closeEditDialog = useCallback(() => setEditingDocument(null), []);
+
+  const handleClearAllData = useCallback(async () => {
     if (confirm('⚠️ This will delete ALL documents, highlights, notes, and vocabulary. This cannot be undone. Continue?')) {
-      clearAllData();
+      await clearAllData();
       setDocuments([]);
-      setStorageUsage(getStorageUsageString());
-      setShowStorageWarning(false);
+      refreshStorageInfo();
+    }
+  }, [refreshStorageInfo]);
+
+  const handleExportBackup = useCallback(async () => {
+    setIsLoading(true);
+    setUploadProgress('Preparing backup...');
+    try {
+      const archive = await exportWorkspace();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export backup.');
+    } finally {
+      setIsLoading(false);
+      setUploadProgress('');
     }
   }, []);
 
+  const handleImportBackup = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setUploadProgress('Restoring backup...');
+    try {
+      // Records that already exist are kept and the imported copy gets a new ID
+      const summary = await importWorkspace(file, 'keepBoth');
+      await reloadDocuments();
+
+      const details = [
+        summary.renamed ? `${summary.renamed} imported as copies` : '',
+        summary.missingFiles ? `${summary.missingFiles} PDFs missing from the archive` : '',
+      ].filter(Boolean).join(', ');
+      alert(`Restored ${summary.imported} items${details ? ` (${details})` : ''}.`);
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import backup.');
+    } finally {
+      setIsLoading(false);
+      setUploadProgress('');
+    }
+  }, [reloadDocuments]);
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -191,6 +359,19 @@ export default function HomePage() {
     }).format(date);
   };
 
+  // e.g. "Jane Doe, John Roe · 2019 · 312 pages"
+  const describeDocument = (doc: Document) => {
+    const length = doc.pageCount
+      ? `${doc.pageCount} ${doc.pageCount === 1 ? 'page' : 'pages'}`
+      : doc.wordCount ? `${doc.wordCount.toLocaleString('en-US')} words` : '';
+
+    return [
+      doc.authors?.join(', '),
+      doc.publishedDate?.slice(0, 4),
+      length,
+    ].filter(Boolean).join(' · ');
+  };
+
   return (
     <div className="home-container">
       {/* Header */}
@@ -211,11 +392,55 @@ export default function HomePage() {
             Vocabulary
           </button>
         </div>
+        <div className="account-bar">
+          {account ? (
+            <>
+              <span className="account-email">{account.email}</span>
+              <button className="account-action" onClick={handleSignOut}>
+                Sign out
+              </button>
+            </>
+          ) : (
+            <button className="account-action" onClick={() => router.push('/login')}>
+              Sign in to sync across devices
+            </button>
+          )}
+        </div>
       </header>
 
       {/* Storage Management */}
       <div className="storage-info">
         <span className="storage-usage">Storage: {storageUsage}</span>
+        <button
+          className="storage-action"
+          onClick={() => router.push('/storage')}
+          title="See which documents use the most space"
+        >
+          Manage
+        </button>
+        <button
+          className="storage-action"
+          onClick={handleExportBackup}
+          disabled={isLoading}
+          title="Download a backup of all documents, highlights, notes and vocabulary"
+        >
+          Export Backup
+        </button>
+        <button
+          className="storage-action"
+          onClick={() => document.getElementById('backup-input')?.click()}
+          disabled={isLoading}
+          title="Restore a backup archive into this workspace"
+        >
+          Import Backup
+        </button>
+        <input
+          id="backup-input"
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleImportBackup}
+          style={{ display: 'none' }}
+        />
         <button
           className="storage-clear"
           onClick={handleClearAllData}
@@ -225,6 +450,12 @@ export default function HomePage() {
         </button>
       </div>
 
+      {showStorageWarning && (
+        <div className="storage-warning" onClick={() => router.push('/storage')}>
+          Storage is almost full. Open the storage manager to free up space.
+        </div>
+      )}
+
       {/* Upload Zone */}
       <div
         className={`upload-zone ${isDragging ? 'dragover' : ''}`}
@@ -245,6 +476,11 @@ export default function HomePage() {
           <>
             <div className="upload-zone-icon">⏳</div>
             <div className="upload-zone-text">{uploadProgress || 'Processing...'}</div>
+            {uploadPercent !== null && (
+              <div className="upload-progress">
+                <div className="upload-progress-fill" style={{ width: `${uploadPercent}%` }} />
+              </div>
+            )}
           </>
         ) : (
           <>
@@ -290,6 +526,15 @@ export default function HomePage() {
             >
               Cancel
             </button>
+            <label className="url-option">
+              <input
+                type="checkbox"
+                checked={saveImages}
+                onChange={(e) => setSaveImages(e.target.checked)}
+                disabled={isLoading}
+              />
+              Save images for offline reading
+            </label>
           </div>
         ) : (
           <button
@@ -302,9 +547,85 @@ export default function HomePage() {
       </div>
 
       {/* Document Library */}
-      {documents.length > 0 && (
+      {(documents.length > 0 || typeFilter || titleFilter) && (
         <section className="library-section">
+          <div className="search-bar">
+            <input
+              type="search"
+              className="url-input"
+              placeholder="Search inside your PDFs"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value) setSearchResults(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            />
+            <button
+              className="url-submit-btn"
+              onClick={handleSearch}
+              disabled={isSearching || !searchQuery.trim()}
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </button>
+          </div>
+
+          {searchResults && (
+            <div className="search-results">
+              {searchResults.length === 0 ? (
+                <p className="search-empty">No pages match “{searchQuery.trim()}”.</p>
+              ) : (
+                searchResults.map((result) => (
+                  <article
+                    key={result.documentId}
+                    className="search-result"
+                    onClick={() => router.push(`/reader/${result.documentId}`)}
+                  >
+                    <h3 className="library-card-title">{result.title}</h3>
+                    {result.pages.slice(0, 3).map((page) => (
+                      <p key={page.pageNumber} className="search-snippet">
+                        <span className="search-page">p. {page.pageNumber}</span> {page.snippet}
+                      </p>
+                    ))}
+                  </article>
+                ))
+              )}
+            </div>
+          )}
+
           <h2 className="library-title">Your Documents</h2>
+          <div className="library-toolbar">
+            <input
+              type="text"
+              className="library-filter"
+              placeholder="Filter by title"
+              value={titleFilter}
+              onChange={(e) => setTitleFilter(e.target.value)}
+            />
+            <select
+              className="library-select"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as SourceType | '')}
+              aria-label="Document type"
+            >
+              <option value="">All types</option>
+              <option value="pdf">PDFs</option>
+              <option value="url">Articles</option>
+            </select>
+            <select
+              className="library-select"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as DocumentSort)}
+              aria-label="Sort documents"
+            >
+              <option value="created">Recently added</option>
+              <option value="opened">Recently opened</option>
+              <option value="title">Title</option>
+            </select>
+          </div>
+          {documents.length === 0 && (
+            <p className="search-empty">No documents match these filters.</p>
+          )}
           <div className="library-grid">
             {documents.map((doc) => (
               <article
@@ -313,22 +634,59 @@ export default function HomePage() {
                 onClick={() => router.push(`/reader/${doc.id}`)}
               >
                 <h3 className="library-card-title">{doc.title}</h3>
+                {describeDocument(doc) && (
+                  <div className="library-card-byline">{describeDocument(doc)}</div>
+                )}
+                {doc.description && (
+                  <p className="library-card-description">{doc.description}</p>
+                )}
+                {doc.tags && doc.tags.length > 0 && (
+                  <div className="library-card-tags">
+                    {doc.tags.map(tag => (
+                      <span key={tag} className="library-card-tag">{tag}</span>
+                    ))}
+                  </div>
+                )}
                 <div className="library-card-meta">
-                  {doc.sourceType.toUpperCase()} · {formatDate(doc.createdAt)}
+                  {doc.sourceType.toUpperCase()} · Added {formatDate(doc.createdAt)}
+                  {doc.lastOpenedAt && ` · Opened ${formatDate(doc.lastOpenedAt)}`}
+                </div>
+                <div className="library-card-actions">
+                  <button
+                    className="library-card-action"
+                    onClick={(e) => handleEditDocument(doc, e)}
+                    aria-label="Edit details"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    className="library-card-action library-card-delete"
+                    onClick={(e) => handleDeleteDocument(doc.id, e)}
+                    aria-label="Delete document"
+                  >
+                    ×
+                  </button>
                 </div>
-                <button
-                  className="library-card-delete"
-                  onClick={(e) => handleDeleteDocument(doc.id, doc.sourceType, doc.sourcePath, e)}
-                  aria-label="Delete document"
-                >
-                  ×
-                </button>
               </article>
             ))}
           </div>
+          {nextCursor && (
+            <div ref={loadMoreRef} className="library-more">
+              {isLoadingMore ? 'Loading...' : ''}
+            </div>
+          )}
         </section>
       )}
 
+      {editingDocument && (
+        <DocumentEditDialog
+          key={editingDocument.id}
+          document={editingDocument}
+          onClose={closeEditDialog}
+          onSaved={reloadDocuments}
+        />
+      )}
+
       <style jsx>{`
         .home-container {
           max-width: 800px;
@@ -337,6 +695,21 @@ export default function HomePage() {
           min-height: 100vh;
         }
 
+        .upload-progress {
+          max-width: 320px;
+          height: 6px;
+          margin: var(--spacing-md) auto 0;
+          background: var(--bg-secondary);
+          border-radius: 3px;
+          overflow: hidden;
+        }
+
+        .upload-progress-fill {
+          height: 100%;
+          background: var(--hl-definition-solid);
+          transition: width var(--transition-fast);
+        }
+
         .home-header {
           text-align: center;
           margin-bottom: var(--spacing-2xl);
@@ -381,6 +754,33 @@ export default function HomePage() {
           border-color: var(--text-muted);
         }
 
+        .account-bar {
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          gap: var(--spacing-sm);
+          margin-top: var(--spacing-sm);
+          font-size: 13px;
+        }
+
+        .account-email {
+          color: var(--text-muted);
+        }
+
+        .account-action {
+          padding: 0;
+          font-size: 13px;
+          color: var(--text-secondary);
+          background: transparent;
+          border: none;
+          text-decoration: underline;
+          cursor: pointer;
+        }
+
+        .account-action:hover {
+          color: var(--text-primary);
+        }
+
         .storage-info {
           display: flex;
           justify-content: center;
@@ -397,6 +797,26 @@ export default function HomePage() {
           color: var(--text-muted);
         }
 
+        .storage-action {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          font-size: 12px;
+          color: var(--text-secondary);
+          background: transparent;
+          border: 1px solid var(--border-color);
+          border-radius: 4px;
+          cursor: pointer;
+          transition: all var(--transition-fast);
+        }
+
+        .storage-action:hover:not(:disabled) {
+          background: var(--bg-panel);
+        }
+
+        .storage-action:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
         .storage-clear {
           padding: var(--spacing-xs) var(--spacing-sm);
           font-size: 12px;
@@ -412,10 +832,87 @@ export default function HomePage() {
           background: var(--hl-question);
         }
 
+        .storage-warning {
+          margin-bottom: var(--spacing-lg);
+          padding: var(--spacing-sm) var(--spacing-lg);
+          font-size: 13px;
+          text-align: center;
+          color: var(--text-primary);
+          background: var(--hl-question);
+          border-radius: 6px;
+          cursor: pointer;
+        }
+
         .library-section {
           margin-top: var(--spacing-2xl);
         }
 
+        .search-bar {
+          display: flex;
+          gap: var(--spacing-sm);
+          margin-bottom: var(--spacing-lg);
+        }
+
+        .search-results {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-sm);
+          margin-bottom: var(--spacing-xl);
+        }
+
+        .search-result {
+          padding: var(--spacing-md);
+          background: var(--bg-secondary);
+          border-radius: 8px;
+          cursor: pointer;
+        }
+
+        .search-result:hover {
+          background: var(--bg-panel);
+        }
+
+        .search-snippet {
+          margin: var(--spacing-xs) 0 0 0;
+          font-size: 13px;
+          color: var(--text-secondary);
+        }
+
+        .search-page {
+          color: var(--text-muted);
+        }
+
+        .search-empty {
+          font-size: 13px;
+          color: var(--text-muted);
+        }
+
+        .library-toolbar {
+          display: flex;
+          gap: var(--spacing-sm);
+          margin-bottom: var(--spacing-lg);
+        }
+
+        .library-filter,
+        .library-select {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          font-size: 13px;
+          color: var(--text-primary);
+          background: var(--bg-primary);
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+        }
+
+        .library-filter {
+          flex: 1;
+        }
+
+        .library-more {
+          padding: var(--spacing-lg);
+          text-align: center;
+          font-size: 13px;
+          color: var(--text-muted);
+        }
+
         .library-title {
           font-family: var(--font-reader);
           font-size: 14px;
@@ -430,24 +927,72 @@ export default function HomePage() {
           position: relative;
         }
 
-        .library-card-delete {
+        .library-card-byline {
+          font-size: 13px;
+          color: var(--text-secondary);
+          margin-bottom: var(--spacing-xs);
+        }
+
+        .library-card-description {
+          font-size: 13px;
+          line-height: 1.5;
+          color: var(--text-secondary);
+          margin: 0 0 var(--spacing-sm);
+          display: -webkit-box;
+          -webkit-line-clamp: 3;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+
+        .library-card-tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: var(--spacing-xs);
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .library-card-tag {
+          padding: 2px var(--spacing-sm);
+          font-size: 11px;
+          color: var(--hl-definition-solid);
+          background: var(--hl-definition);
+          border-radius: 10px;
+        }
+
+        .library-card-actions {
           position: absolute;
           top: var(--spacing-sm);
           right: var(--spacing-sm);
+          display: flex;
+          gap: 2px;
+          opacity: 0;
+          transition: opacity var(--transition-fast);
+        }
+
+        .library-card:hover .library-card-actions,
+        .library-card-actions:focus-within {
+          opacity: 1;
+        }
+
+        .library-card-action {
           width: 24px;
           height: 24px;
           border: none;
           background: transparent;
           color: var(--text-muted);
-          font-size: 18px;
+          font-size: 16px;
           cursor: pointer;
           border-radius: 4px;
-          opacity: 0;
-          transition: opacity var(--transition-fast), background var(--transition-fast);
+          transition: background var(--transition-fast);
         }
 
-        .library-card:hover .library-card-delete {
-          opacity: 1;
+        .library-card-action:hover {
+          background: var(--bg-secondary);
+          color: var(--text-primary);
+        }
+
+        .library-card-delete {
+          font-size: 18px;
         }
 
         .library-card-delete:hover {
@@ -480,11 +1025,23 @@ export default function HomePage() {
 
         .url-input-container {
           display: flex;
+          flex-wrap: wrap;
           gap: var(--spacing-sm);
           justify-content: center;
           align-items: center;
         }
 
+        .url-option {
+          flex-basis: 100%;
+          display: flex;
+          gap: var(--spacing-xs);
+          justify-content: center;
+          align-items: center;
+          font-size: 13px;
+          color: var(--text-muted);
+          cursor: pointer;
+        }
+
         .url-input {
           flex: 1;
           max-width: 400px;
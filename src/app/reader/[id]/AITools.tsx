@@ -44,10 +44,10 @@ export default function AITools({ highlight, onOutputGenerated }: AIToolsProps)
         }
     }, [highlight.text]);
 
-    const handleSaveAsNote = useCallback(() => {
+    const handleSaveAsNote = useCallback(async () => {
         if (!result) return;
 
-        saveAIOutput(highlight.id, result.type, result.content);
+        await saveAIOutput(highlight.id, result.type, result.content);
         onOutputGenerated?.();
 
         // Keep the result visible but show confirmation
@@ -1,20 +1,53 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { Highlight, HtmlAnchor, BoundingRect } from '@/lib/types';
+import { sanitizeHtml } from '@/lib/extraction/sanitize';
+import { openArticleImages, withLocalImages } from '@/lib/articleImages';
 
 interface HtmlRendererProps {
+    documentId: string;
     htmlContent: string;
     highlights: Highlight[];
     onHighlightClick: (highlight: Highlight) => void;
 }
 
 export default function HtmlRenderer({
+    documentId,
     htmlContent,
     highlights,
     onHighlightClick,
 }: HtmlRendererProps) {
     const contentRef = useRef<HTMLDivElement>(null);
+    const [localImages, setLocalImages] = useState<Map<string, string>>(new Map());
+
+    // Images saved for offline reading, as object URLs
+    useEffect(() => {
+        let cancelled = false;
+        let opened = new Map<string, string>();
+
+        openArticleImages(documentId)
+            .then(images => {
+                opened = images;
+                if (!cancelled) setLocalImages(images);
+                else images.forEach(url => URL.revokeObjectURL(url));
+            })
+            .catch(error => console.warn('Failed to load saved images:', error));
+
+        return () => {
+            cancelled = true;
+            opened.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [documentId]);
+
+    // Stored articles were sanitized when fetched; check again in case the
+    // store was written some other way (older versions, a restored backup)
+    const safeHtml = useMemo(() => {
+        if (!htmlContent) return '';
+        const inert = document.implementation.createHTMLDocument('');
+        const html = sanitizeHtml(htmlContent, inert);
+        return localImages.size > 0 ? withLocalImages(html, localImages, inert) : html;
+    }, [htmlContent, localImages]);
     const [highlightRects, setHighlightRects] = useState<Map<string, BoundingRect[]>>(new Map());
 
     // Calculate highlight positions after content renders
@@ -38,7 +71,7 @@ export default function HtmlRenderer({
         });
 
         setHighlightRects(newRects);
-    }, [highlights, htmlContent]);
+    }, [highlights, safeHtml]);
 
     // Re-calculate on resize
     useEffect(() => {
@@ -66,7 +99,7 @@ export default function HtmlRenderer({
 
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
-    }, [highlights, htmlContent]);
+    }, [highlights, safeHtml]);
 
     return (
         <div className="html-renderer">
@@ -97,7 +130,7 @@ export default function HtmlRenderer({
             <article
                 ref={contentRef}
                 className="html-content"
-                dangerouslySetInnerHTML={{ __html: htmlContent }}
+                dangerouslySetInnerHTML={{ __html: safeHtml }}
             />
 
             <style jsx>{`
@@ -244,6 +277,22 @@ export default function HtmlRenderer({
           margin: 2em 0;
         }
 
+        /* Where a multi-page article continued on its next page */
+        .html-content :global(hr[data-page]) {
+          overflow: visible;
+          text-align: center;
+        }
+
+        .html-content :global(hr[data-page])::after {
+          content: 'Page ' attr(data-page);
+          position: relative;
+          top: -0.75em;
+          padding: 0 var(--spacing-sm);
+          font-size: 12px;
+          color: var(--text-muted);
+          background: var(--bg-primary);
+        }
+
         .html-content :global(table) {
           width: 100%;
           border-collapse: collapse;
@@ -1,10 +1,14 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { Highlight, Note } from '@/lib/types';
-import { getNoteByHighlight, saveNote, deleteHighlight } from '@/lib/highlights';
+import { Highlight, HighlightType, Note } from '@/lib/types';
+import { cloudHighlights } from '@/lib/cloudHighlights';
+import { getNoteByHighlight } from '@/lib/highlights';
+import { useStoreChanges } from '@/lib/useStoreChanges';
 import AITools from './AITools';
 
+const HIGHLIGHT_TYPES: HighlightType[] = ['insight', 'definition', 'question'];
+
 interface MarginNotesPanelProps {
     isOpen: boolean;
     highlight: Highlight | null;
@@ -20,35 +24,60 @@ export default function MarginNotesPanel({
     const [existingNote, setExistingNote] = useState<Note | null>(null);
     const [isSaving, setIsSaving] = useState(false);
 
-    // Load existing note when highlight changes
+    const highlightId = highlight?.id;
+
+    // Load existing note when the selected highlight changes
     useEffect(() => {
-        if (highlight) {
-            const note = getNoteByHighlight(highlight.id);
-            setExistingNote(note);
-            setNoteContent(note?.content || '');
+        let cancelled = false;
+
+        if (highlightId) {
+            cloudHighlights.getNote(highlightId).then(note => {
+                if (cancelled) return;
+                setExistingNote(note);
+                setNoteContent(note?.content || '');
+            });
         } else {
             setExistingNote(null);
             setNoteContent('');
         }
-    }, [highlight]);
 
-    const handleSave = useCallback(() => {
+        return () => {
+            cancelled = true;
+        };
+    }, [highlightId]);
+
+    // Pick up notes saved in other tabs, without clobbering unsaved typing
+    useStoreChanges(['notes'], () => {
+        if (!highlightId) return;
+        getNoteByHighlight(highlightId).then(note => {
+            if (noteContent === (existingNote?.content || '')) {
+                setNoteContent(note?.content || '');
+            }
+            setExistingNote(note);
+        });
+    });
+
+    const handleSave = useCallback(async () => {
         if (!highlight || !noteContent.trim()) return;
 
         setIsSaving(true);
-        const note = saveNote(highlight.id, noteContent.trim());
+        const note = await cloudHighlights.saveNote(highlight.id, noteContent.trim());
         setExistingNote(note);
         setIsSaving(false);
     }, [highlight, noteContent]);
 
-    const handleDelete = useCallback(() => {
+    const handleRetype = useCallback(async (type: HighlightType) => {
+        if (!highlight || highlight.type === type) return;
+        await cloudHighlights.updateType(highlight.id, type);
+    }, [highlight]);
+
+    const handleDelete = useCallback(async () => {
         if (!highlight) return;
 
         if (confirm('Delete this highlight and its note?')) {
-            deleteHighlight(highlight.id);
+            // The reader refreshes itself from the change notification
+            await cloudHighlights.delete(highlight.id);
             onClose();
-            // Trigger a refresh - in production, use context or state management
-            window.location.reload();
         }
     }, [highlight, onClose]);
 
@@ -75,12 +104,19 @@ export default function MarginNotesPanel({
             {highlight ? (
                 <>
                     <div className="margin-panel-header">
-                        <span
-                            className="margin-panel-type"
-                            style={{ color: getHighlightTypeColor(highlight.type) }}
-                        >
-                            {getHighlightTypeLabel(highlight.type)}
-                        </span>
+                        <div className="margin-type-picker">
+                            {HIGHLIGHT_TYPES.map(type => (
+                                <button
+                                    key={type}
+                                    className={`margin-panel-type ${highlight.type === type ? 'active' : ''}`}
+                                    style={{ color: getHighlightTypeColor(type) }}
+                                    onClick={() => handleRetype(type)}
+                                    title={`Mark as ${getHighlightTypeLabel(type)}`}
+                                >
+                                    {getHighlightTypeLabel(type)}
+                                </button>
+                            ))}
+                        </div>
                         <button className="margin-close-btn" onClick={onClose} aria-label="Close panel">
                             ×
                         </button>
@@ -134,11 +170,32 @@ export default function MarginNotesPanel({
           background: var(--bg-secondary);
         }
 
+        .margin-type-picker {
+          display: flex;
+          gap: var(--spacing-xs);
+        }
+
         .margin-panel-type {
+          padding: 2px 6px;
           font-size: 12px;
           font-weight: 500;
           text-transform: uppercase;
           letter-spacing: 0.05em;
+          background: transparent;
+          border: 1px solid transparent;
+          border-radius: 4px;
+          cursor: pointer;
+          opacity: 0.45;
+          transition: opacity var(--transition-fast);
+        }
+
+        .margin-panel-type:hover,
+        .margin-panel-type.active {
+          opacity: 1;
+        }
+
+        .margin-panel-type.active {
+          border-color: currentColor;
         }
 
         .margin-actions {
@@ -8,7 +8,7 @@ type PDFDocumentProxy = any;
 type PDFPageProxy = any;
 
 interface PdfRendererProps {
-    pdfData: string | Uint8Array;
+    pdfData: Uint8Array;
     highlights: Highlight[];
     onHighlightClick: (highlight: Highlight) => void;
     onTextSelect?: (text: string, pageNumber: number, rects: BoundingRect[]) => void;
@@ -65,19 +65,8 @@ export default function PdfRenderer({
                 setLoading(true);
                 setError(null);
 
-                let loadingTask;
-
-                if (typeof pdfData === 'string') {
-                    // Legacy base64 support (for local storage)
-                    const base64Data = pdfData.includes(',') ? pdfData.split(',')[1] : pdfData;
-                    // Binary string method is deprecated but we keep it for now for string inputs
-                    const binaryData = atob(base64Data);
-                    loadingTask = pdfLib.getDocument({ data: binaryData });
-                } else {
-                    // Modern Uint8Array support (for cloud storage)
-                    // We need to clone it because pdfjs might detach the buffer
-                    loadingTask = pdfLib.getDocument({ data: new Uint8Array(pdfData) });
-                }
+                // Clone the bytes because pdfjs may detach the underlying buffer
+                const loadingTask = pdfLib.getDocument({ data: new Uint8Array(pdfData) });
 
                 const doc = await loadingTask.promise;
 
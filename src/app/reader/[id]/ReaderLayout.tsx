@@ -2,13 +2,15 @@
 
 import { useState, useCallback } from 'react';
 import { Document as DocType, Highlight, ReaderSettings } from '@/lib/types';
+import { getHighlightById } from '@/lib/highlights';
+import { useStoreChanges } from '@/lib/useStoreChanges';
 import TopBar from './TopBar';
 import ReaderPane from './ReaderPane';
 import MarginNotesPanel from './MarginNotesPanel';
 
 interface ReaderLayoutProps {
     document: DocType;
-    pdfData: string | Uint8Array | null;
+    pdfData: Uint8Array | null;
     htmlContent: string | null;
 }
 
@@ -50,6 +52,15 @@ export default function ReaderLayout({ document, pdfData, htmlContent }: ReaderL
         setSelectedHighlight(null);
     }, []);
 
+    // Keep the open highlight current when it is retyped or deleted elsewhere
+    useStoreChanges(['highlights'], () => {
+        if (!selectedHighlight) return;
+        getHighlightById(selectedHighlight.id).then(highlight => {
+            if (highlight) setSelectedHighlight(highlight);
+            else handleCloseMargin();
+        });
+    });
+
     const handleSettingsChange = useCallback((newSettings: Partial<ReaderSettings>) => {
         setSettings(prev => ({ ...prev, ...newSettings }));
     }, []);
@@ -21,7 +21,9 @@ import {
     clearSelection,
     extractContext
 } from '@/lib/selection';
-import { getHighlightsByDocument, createHighlight } from '@/lib/highlights';
+import { cloudHighlights } from '@/lib/cloudHighlights';
+import { getHighlightsByDocument } from '@/lib/highlights';
+import { useStoreChanges } from '@/lib/useStoreChanges';
 import { createHtmlAnchor, createPdfAnchor } from '@/lib/anchoring';
 import SelectionToolbar from './SelectionToolbar';
 import HtmlRenderer from './HtmlRenderer';
@@ -46,7 +48,7 @@ const PdfRenderer = dynamic(() => import('./PdfRenderer'), {
 
 interface ReaderPaneProps {
     docData: DocType;
-    pdfData: string | Uint8Array | null;
+    pdfData: Uint8Array | null;
     htmlContent: string | null;
     settings: ReaderSettings;
     onHighlightClick: (highlight: Highlight) => void;
@@ -76,25 +78,16 @@ export default function ReaderPane({
         position: { top: number; left: number };
     } | null>(null);
 
-    // Load highlights on mount and listen for changes
+    // Load highlights on mount
     useEffect(() => {
-        const loadHighlights = () => {
-            setHighlights(getHighlightsByDocument(docData.id));
-        };
-
-        loadHighlights();
-
-        // Listen for storage changes (for multi-tab support)
-        const handleStorageChange = (e: StorageEvent) => {
-            if (e.key === 'coreader_highlights') {
-                loadHighlights();
-            }
-        };
-
-        window.addEventListener('storage', handleStorageChange);
-        return () => window.removeEventListener('storage', handleStorageChange);
+        cloudHighlights.getByDocument(docData.id).then(setHighlights);
     }, [docData.id]);
 
+    // Pick up highlight changes from other components and tabs
+    useStoreChanges(['highlights'], () => {
+        getHighlightsByDocument(docData.id).then(setHighlights);
+    });
+
     // Handle text selection in PDF or HTML content
     useEffect(() => {
         const handleSelectionChange = () => {
@@ -174,7 +167,7 @@ export default function ReaderPane({
         };
     }, []);
 
-    const handleHighlight = useCallback((type: HighlightType) => {
+    const handleHighlight = useCallback(async (type: HighlightType) => {
         if (!selection || !selection.range) return;
 
         const selectedText = selection.text;
@@ -206,7 +199,7 @@ export default function ReaderPane({
         }
 
         // Save highlight
-        const highlight = createHighlight(
+        const highlight = await cloudHighlights.create(
             docData.id,
             type,
             selectedText,
@@ -214,7 +207,7 @@ export default function ReaderPane({
         );
 
         // Update local state
-        setHighlights(prev => [...prev, highlight]);
+        setHighlights(prev => prev.some(h => h.id === highlight.id) ? prev : [...prev, highlight]);
 
         // Clear selection
         clearSelection();
@@ -286,6 +279,7 @@ export default function ReaderPane({
                 />
             ) : docData.sourceType === 'url' && htmlContent ? (
                 <HtmlRenderer
+                    documentId={docData.id}
                     htmlContent={htmlContent}
                     highlights={highlights}
                     onHighlightClick={onHighlightClick}
@@ -2,11 +2,8 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { VocabularyEntry } from '@/lib/types';
-import {
-    createVocabularyEntry,
-    updateVocabularyEntry,
-    wordExists,
-} from '@/lib/vocabulary';
+import { wordExists } from '@/lib/vocabulary';
+import { cloudVocabulary } from '@/lib/cloudVocabulary';
 
 interface VocabularyCardProps {
     word: string;
@@ -34,7 +31,7 @@ export default function VocabularyCard({
 
     // Check if word already exists
     useEffect(() => {
-        setAlreadyExists(wordExists(word));
+        wordExists(word).then(setAlreadyExists);
     }, [word]);
 
     // Fetch definition from free dictionary API
@@ -82,18 +79,14 @@ export default function VocabularyCard({
         setIsSaving(true);
 
         try {
-            const entry = createVocabularyEntry(
+            const entry = await cloudVocabulary.create(
                 word,
                 contextSentence,
                 documentId,
-                userNote || undefined
+                userNote || undefined,
+                definition || undefined
             );
 
-            // Update with definition if available
-            if (definition) {
-                updateVocabularyEntry(entry.id, { definition });
-            }
-
             onSaved?.(entry);
             onClose();
         } catch (err) {
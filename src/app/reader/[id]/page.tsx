@@ -5,15 +5,15 @@ import { useState, useEffect } from 'react';
 import { Document } from '@/lib/types';
 import { getDocumentById } from '@/lib/documents';
 import { cloudDocs } from '@/lib/cloudDocuments';
-import { getArticleById } from '@/lib/articles';
-import { getPdfUrl, isCloudUrl } from '@/lib/cloudStorage';
+import { getArticleById, fetchAndStoreArticle } from '@/lib/articles';
+import { loadPdfBytes } from '@/lib/cloudStorage';
 import ReaderLayout from './ReaderLayout';
 
 export default function ReaderPage() {
     const params = useParams();
     const router = useRouter();
     const [document, setDocument] = useState<Document | null>(null);
-    const [pdfData, setPdfData] = useState<string | Uint8Array | null>(null);
+    const [pdfData, setPdfData] = useState<Uint8Array | null>(null);
     const [htmlContent, setHtmlContent] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -38,49 +38,30 @@ export default function ReaderPage() {
             }
 
             setDocument(doc);
+            cloudDocs.markOpened(doc.id);
 
             // Load content based on document type
             if (doc.sourceType === 'pdf') {
                 try {
-                    // Get PDF URL (handles both cloud and local storage)
-                    const pdfUrl = await getPdfUrl(doc.sourcePath);
-
-                    // If it's a cloud URL, fetch the PDF and convert to ArrayBuffer
-                    if (isCloudUrl(doc.sourcePath)) {
-                        try {
-                            const response = await fetch(pdfUrl, {
-                                mode: 'cors',
-                                credentials: 'omit',
-                            });
-
-                            if (!response.ok) {
-                                throw new Error(`HTTP ${response.status}: Failed to fetch PDF`);
-                            }
-
-                            const arrayBuffer = await response.arrayBuffer();
-                            setPdfData(new Uint8Array(arrayBuffer));
-                            setLoading(false);
-                        } catch (fetchErr: any) {
-                            console.error('Cloud PDF fetch error:', fetchErr);
-                            setError(`Failed to load PDF from cloud: ${fetchErr.message}`);
-                            setLoading(false);
-                        }
-                    } else {
-                        // Local storage - pdfUrl is base64 string
-                        setPdfData(pdfUrl);
-                        setLoading(false);
-                    }
+                    // Handles both cloud URLs and the local IndexedDB store
+                    setPdfData(await loadPdfBytes(doc.sourcePath));
+                    setLoading(false);
                 } catch (err: any) {
                     console.error('PDF load error:', err);
                     setError(err.message || 'PDF data not found');
                     setLoading(false);
                 }
             } else if (doc.sourceType === 'url') {
-                const article = getArticleById(doc.id);
+                let article = await getArticleById(doc.id);
                 if (!article) {
-                    setError('Article content not found');
-                    setLoading(false);
-                    return;
+                    // The cached body may have been dropped to free space
+                    try {
+                        article = await fetchAndStoreArticle(doc.id, doc.sourcePath);
+                    } catch {
+                        setError('Article content not found');
+                        setLoading(false);
+                        return;
+                    }
                 }
                 setHtmlContent(article.content);
                 // Update document title if it was the URL
@@ -0,0 +1,503 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+    DocumentStorageUsage,
+    QuotaStatus,
+    StorageBreakdown,
+    getDocumentStorageUsage,
+    getQuotaStatus,
+    offloadPdfToCloud,
+    dropCachedArticle,
+} from '@/lib/storageManager';
+import { formatBytes } from '@/lib/pdfStore';
+import { OrphanReport, findOrphans, removeOrphans, countOrphans } from '@/lib/garbageCollection';
+import { getRejectedMutations, removeMutation, retryMutation } from '@/lib/outbox';
+import { syncNow } from '@/lib/sync';
+import { SyncCollection, SyncMutation } from '@/lib/types';
+
+const BREAKDOWN_LABELS: Record<keyof StorageBreakdown, string> = {
+    file: 'PDF',
+    article: 'Article',
+    highlights: 'Highlights',
+    notes: 'Notes',
+    aiOutputs: 'AI outputs',
+    vocabulary: 'Vocabulary',
+};
+
+const COLLECTION_LABELS: Record<SyncCollection, string> = {
+    documents: 'document',
+    highlights: 'highlight',
+    notes: 'note',
+    vocabulary: 'vocabulary word',
+};
+
+export default function StoragePage() {
+    const router = useRouter();
+    const [usage, setUsage] = useState<DocumentStorageUsage[]>([]);
+    const [quota, setQuota] = useState<QuotaStatus | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [orphans, setOrphans] = useState<OrphanReport | null>(null);
+    const [isCleaning, setIsCleaning] = useState(false);
+    const [rejected, setRejected] = useState<SyncMutation[]>([]);
+
+    const loadData = useCallback(async () => {
+        const [documentUsage, quotaStatus, rejectedMutations] = await Promise.all([
+            getDocumentStorageUsage(),
+            getQuotaStatus(),
+            getRejectedMutations(),
+        ]);
+        setUsage(documentUsage);
+        setQuota(quotaStatus);
+        setRejected(rejectedMutations);
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const runAction = useCallback(async (documentId: string, action: () => Promise<unknown>) => {
+        setBusyId(documentId);
+        try {
+            await action();
+            await loadData();
+        } catch (error) {
+            console.error('Storage action failed:', error);
+            alert(error instanceof Error ? error.message : 'Failed to free up space.');
+        } finally {
+            setBusyId(null);
+        }
+    }, [loadData]);
+
+    const handleOffload = useCallback((documentId: string) => {
+        runAction(documentId, () => offloadPdfToCloud(documentId));
+    }, [runAction]);
+
+    const handleDropArticle = useCallback((documentId: string) => {
+        if (confirm('Drop the saved article text? Highlights and notes are kept and the article is fetched again when you open it.')) {
+            runAction(documentId, () => dropCachedArticle(documentId));
+        }
+    }, [runAction]);
+
+    const handleScanOrphans = useCallback(async () => {
+        setIsCleaning(true);
+        try {
+            setOrphans(await findOrphans());
+        } catch (error) {
+            console.error('Orphan scan failed:', error);
+            alert(error instanceof Error ? error.message : 'Failed to scan for orphaned data.');
+        } finally {
+            setIsCleaning(false);
+        }
+    }, []);
+
+    const handleRemoveOrphans = useCallback(async () => {
+        if (!orphans) return;
+        setIsCleaning(true);
+        try {
+            await removeOrphans(orphans);
+            setOrphans(null);
+            await loadData();
+        } catch (error) {
+            console.error('Orphan cleanup failed:', error);
+            alert(error instanceof Error ? error.message : 'Failed to remove orphaned data.');
+        } finally {
+            setIsCleaning(false);
+        }
+    }, [orphans, loadData]);
+
+    const handleRetryRejected = useCallback(async (id: string) => {
+        await retryMutation(id);
+        try {
+            await syncNow();
+        } catch (error) {
+            // Still queued; the sync loop sends it once the server is reachable
+            console.warn('Sync failed:', error instanceof Error ? error.message : error);
+        }
+        await loadData();
+    }, [loadData]);
+
+    const handleDiscardRejected = useCallback(async (id: string) => {
+        if (confirm('Discard this change? It stays on this device but is never sent to the server.')) {
+            await removeMutation(id);
+            await loadData();
+        }
+    }, [loadData]);
+
+    const attributed = usage.reduce((sum, item) => sum + item.total, 0);
+
+    return (
+        <div className="storage-container">
+            {/* Header */}
+            <header className="storage-header">
+                <div className="storage-nav">
+                    <button className="back-btn" onClick={() => router.push('/')}>
+                        ← Back
+                    </button>
+                </div>
+                <h1 className="storage-title">Storage</h1>
+                {quota && (
+                    <div className="storage-stats">
+                        <span>{formatBytes(quota.usage)} used</span>
+                        {quota.quota > 0 && (
+                            <>
+                                <span>•</span>
+                                <span>{formatBytes(quota.quota)} available</span>
+                                <span>•</span>
+                                <span>{Math.round(quota.ratio * 100)}%</span>
+                            </>
+                        )}
+                    </div>
+                )}
+                {quota && quota.quota > 0 && (
+                    <div className="quota-bar">
+                        <div
+                            className={`quota-fill ${quota.level}`}
+                            style={{ width: `${Math.min(quota.ratio * 100, 100)}%` }}
+                        />
+                    </div>
+                )}
+            </header>
+
+            {quota && quota.level !== 'ok' && (
+                <div className={`quota-warning ${quota.level}`}>
+                    {quota.level === 'critical'
+                        ? 'Storage is almost full. New PDFs may fail to save until you free up space.'
+                        : 'Storage is filling up. Offload large PDFs or drop saved articles below.'}
+                </div>
+            )}
+
+            {/* Per-document breakdown */}
+            {usage.length === 0 ? (
+                <div className="empty-state">
+                    <p>No documents stored yet.</p>
+                </div>
+            ) : (
+                <div className="storage-list">
+                    {usage.map(({ document, pdfLocation, hasCachedArticle, bytes, total }) => (
+                        <article key={document.id} className="storage-entry">
+                            <div className="entry-header">
+                                <h2
+                                    className="entry-title"
+                                    onClick={() => router.push(`/reader/${document.id}`)}
+                                >
+                                    {document.title}
+                                </h2>
+                                <span className="entry-total">{formatBytes(total)}</span>
+                            </div>
+
+                            <div className="entry-breakdown">
+                                {(Object.keys(BREAKDOWN_LABELS) as (keyof StorageBreakdown)[])
+                                    .filter(key => bytes[key] > 0)
+                                    .map(key => (
+                                        <span key={key} className="breakdown-item">
+                                            {BREAKDOWN_LABELS[key]}: {formatBytes(bytes[key])}
+                                        </span>
+                                    ))}
+                                {pdfLocation === 'cloud' && (
+                                    <span className="breakdown-item">PDF stored in cloud</span>
+                                )}
+                            </div>
+
+                            <div className="entry-actions">
+                                {pdfLocation === 'local' && (
+                                    <button
+                                        onClick={() => handleOffload(document.id)}
+                                        disabled={busyId !== null}
+                                    >
+                                        {busyId === document.id ? 'Uploading...' : 'Offload PDF to cloud'}
+                                    </button>
+                                )}
+                                {hasCachedArticle && (
+                                    <button
+                                        onClick={() => handleDropArticle(document.id)}
+                                        disabled={busyId !== null}
+                                    >
+                                        Drop saved article
+                                    </button>
+                                )}
+                            </div>
+                        </article>
+                    ))}
+                </div>
+            )}
+
+            {/* Changes the server refused */}
+            {rejected.length > 0 && (
+                <section className="unsynced">
+                    <h2 className="orphans-title">Changes not synced</h2>
+                    <p className="orphans-text">
+                        The server refused these changes. Retry them once the problem is fixed, or discard them.
+                    </p>
+                    {rejected.map(mutation => (
+                        <div key={mutation.id} className="unsynced-entry">
+                            <span className="orphans-text">
+                                {mutation.op === 'delete' ? 'Delete' : 'Save'} {COLLECTION_LABELS[mutation.collection]}
+                                {typeof mutation.fields.title === 'string' && ` "${mutation.fields.title}"`}: {mutation.rejected}
+                            </span>
+                            <button onClick={() => handleRetryRejected(mutation.id)}>Retry</button>
+                            <button onClick={() => handleDiscardRejected(mutation.id)}>Discard</button>
+                        </div>
+                    ))}
+                </section>
+            )}
+
+            {/* Orphaned data */}
+            <section className="orphans">
+                <h2 className="orphans-title">Orphaned data</h2>
+                {!orphans ? (
+                    <>
+                        <p className="orphans-text">
+                            Look for highlights, notes, AI outputs, vocabulary, articles, article images and PDFs left behind by deleted documents.
+                        </p>
+                        <button onClick={handleScanOrphans} disabled={isCleaning}>
+                            {isCleaning ? 'Scanning...' : 'Scan'}
+                        </button>
+                    </>
+                ) : countOrphans(orphans) === 0 ? (
+                    <p className="orphans-text">Nothing to clean up.</p>
+                ) : (
+                    <>
+                        <p className="orphans-text">
+                            {[
+                                orphans.highlights.length && `${orphans.highlights.length} highlights`,
+                                orphans.notes.length && `${orphans.notes.length} notes`,
+                                orphans.aiOutputs.length && `${orphans.aiOutputs.length} AI outputs`,
+                                orphans.vocabulary.length && `${orphans.vocabulary.length} vocabulary words`,
+                                orphans.articles.length && `${orphans.articles.length} articles`,
+                                orphans.articleImages.length &&
+                                    `images of ${orphans.articleImages.length} articles (${formatBytes(orphans.imageBytes)})`,
+                                orphans.pdfBlobs.length &&
+                                    `${orphans.pdfBlobs.length} PDFs (${formatBytes(orphans.pdfBytes)})`,
+                            ].filter(Boolean).join(', ')}
+                        </p>
+                        <button onClick={handleRemoveOrphans} disabled={isCleaning}>
+                            {isCleaning ? 'Removing...' : 'Remove'}
+                        </button>
+                    </>
+                )}
+            </section>
+
+            {quota && quota.usage > attributed && (
+                <p className="storage-other">
+                    {formatBytes(quota.usage - attributed)} used by the app itself and browser caches
+                </p>
+            )}
+
+            <style jsx>{`
+                .storage-container {
+                    max-width: 800px;
+                    margin: 0 auto;
+                    padding: var(--spacing-2xl) var(--spacing-lg);
+                    min-height: 100vh;
+                }
+
+                .storage-header {
+                    margin-bottom: var(--spacing-xl);
+                }
+
+                .storage-nav {
+                    margin-bottom: var(--spacing-md);
+                }
+
+                .back-btn {
+                    padding: var(--spacing-xs) var(--spacing-sm);
+                    font-family: var(--font-reader);
+                    font-size: 14px;
+                    color: var(--text-secondary);
+                    background: transparent;
+                    border: none;
+                    cursor: pointer;
+                }
+
+                .back-btn:hover {
+                    color: var(--text-primary);
+                }
+
+                .storage-title {
+                    font-family: var(--font-reader);
+                    font-size: 28px;
+                    font-weight: 600;
+                    color: var(--text-primary);
+                    margin: 0 0 var(--spacing-xs) 0;
+                }
+
+                .storage-stats {
+                    display: flex;
+                    gap: var(--spacing-sm);
+                    font-size: 14px;
+                    color: var(--text-muted);
+                }
+
+                .quota-bar {
+                    height: 6px;
+                    margin-top: var(--spacing-md);
+                    background: var(--bg-secondary);
+                    border-radius: 3px;
+                    overflow: hidden;
+                }
+
+                .quota-fill {
+                    height: 100%;
+                    background: var(--hl-definition-solid);
+                }
+
+                .quota-fill.warning {
+                    background: var(--hl-insight-solid);
+                }
+
+                .quota-fill.critical {
+                    background: var(--hl-question-solid);
+                }
+
+                .quota-warning {
+                    margin-bottom: var(--spacing-lg);
+                    padding: var(--spacing-sm) var(--spacing-md);
+                    font-size: 14px;
+                    color: var(--text-primary);
+                    background: var(--hl-insight);
+                    border-radius: 6px;
+                }
+
+                .quota-warning.critical {
+                    background: var(--hl-question);
+                }
+
+                .empty-state {
+                    text-align: center;
+                    padding: var(--spacing-2xl);
+                    color: var(--text-muted);
+                }
+
+                .storage-list {
+                    display: flex;
+                    flex-direction: column;
+                    gap: var(--spacing-md);
+                }
+
+                .storage-entry {
+                    padding: var(--spacing-lg);
+                    background: var(--bg-secondary);
+                    border-radius: 8px;
+                }
+
+                .entry-header {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: baseline;
+                    gap: var(--spacing-md);
+                    margin-bottom: var(--spacing-sm);
+                }
+
+                .entry-title {
+                    font-family: var(--font-reader);
+                    font-size: 16px;
+                    font-weight: 600;
+                    color: var(--text-primary);
+                    margin: 0;
+                    cursor: pointer;
+                }
+
+                .entry-title:hover {
+                    text-decoration: underline;
+                }
+
+                .entry-total {
+                    font-size: 14px;
+                    color: var(--text-secondary);
+                    white-space: nowrap;
+                }
+
+                .entry-breakdown {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: var(--spacing-sm) var(--spacing-md);
+                    font-size: 12px;
+                    color: var(--text-muted);
+                }
+
+                .entry-actions {
+                    display: flex;
+                    gap: var(--spacing-sm);
+                    margin-top: var(--spacing-sm);
+                }
+
+                .entry-actions button {
+                    padding: var(--spacing-xs) var(--spacing-sm);
+                    font-size: 12px;
+                    color: var(--text-secondary);
+                    background: transparent;
+                    border: 1px solid var(--border-color);
+                    border-radius: 4px;
+                    cursor: pointer;
+                }
+
+                .entry-actions button:hover:not(:disabled) {
+                    background: var(--bg-panel);
+                }
+
+                .entry-actions button:disabled {
+                    opacity: 0.5;
+                    cursor: not-allowed;
+                }
+
+                .orphans,
+                .unsynced {
+                    margin-top: var(--spacing-xl);
+                    padding: var(--spacing-lg);
+                    border: 1px solid var(--border-color);
+                    border-radius: 8px;
+                }
+
+                .orphans-title {
+                    font-family: var(--font-reader);
+                    font-size: 16px;
+                    font-weight: 600;
+                    color: var(--text-primary);
+                    margin: 0 0 var(--spacing-xs) 0;
+                }
+
+                .orphans-text {
+                    font-size: 13px;
+                    color: var(--text-secondary);
+                    margin: 0 0 var(--spacing-sm) 0;
+                }
+
+                .unsynced-entry {
+                    display: flex;
+                    align-items: baseline;
+                    gap: var(--spacing-sm);
+                }
+
+                .unsynced-entry .orphans-text {
+                    flex: 1;
+                }
+
+                .orphans button,
+                .unsynced button {
+                    padding: var(--spacing-xs) var(--spacing-sm);
+                    font-size: 12px;
+                    color: var(--text-secondary);
+                    background: transparent;
+                    border: 1px solid var(--border-color);
+                    border-radius: 4px;
+                    cursor: pointer;
+                }
+
+                .orphans button:disabled,
+                .unsynced button:disabled {
+                    opacity: 0.5;
+                    cursor: not-allowed;
+                }
+
+                .storage-other {
+                    margin-top: var(--spacing-lg);
+                    font-size: 12px;
+                    color: var(--text-muted);
+                    text-align: center;
+                }
+            `}</style>
+        </div>
+    );
+}
@@ -3,33 +3,40 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { VocabularyEntry, Document } from '@/lib/types';
-import {
-    getAllVocabulary,
-    deleteVocabularyEntry,
-    updateVocabularyEntry,
-    getVocabularyStats,
-    exportVocabularyAsCsv,
-} from '@/lib/vocabulary';
-import { getDocumentById } from '@/lib/documents';
+import { getAllVocabulary, getVocabularyStats } from '@/lib/vocabulary';
+import { cloudVocabulary } from '@/lib/cloudVocabulary';
+import { getAllDocuments } from '@/lib/documents';
+import { useStoreChanges } from '@/lib/useStoreChanges';
 
 export default function VocabularyPage() {
     const router = useRouter();
     const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+    const [documents, setDocuments] = useState<Document[]>([]);
     const [stats, setStats] = useState({ total: 0, withDefinitions: 0, withNotes: 0, documentsCount: 0 });
     const [searchQuery, setSearchQuery] = useState('');
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editNote, setEditNote] = useState('');
 
+    const loadData = useCallback(async (fromCloud = true) => {
+        // Cloud entries are cached locally first so the stats include them
+        const allEntries = fromCloud ? await cloudVocabulary.getAll() : await getAllVocabulary();
+        const [allStats, allDocuments] = await Promise.all([
+            getVocabularyStats(),
+            getAllDocuments(),
+        ]);
+        setEntries(allEntries.sort((a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        ));
+        setStats(allStats);
+        setDocuments(allDocuments);
+    }, []);
+
     useEffect(() => {
         loadData();
-    }, []);
+    }, [loadData]);
 
-    const loadData = () => {
-        setEntries(getAllVocabulary().sort((a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        ));
-        setStats(getVocabularyStats());
-    };
+    // Words added from the reader (in any tab) show up without a reload
+    useStoreChanges(['vocabulary', 'documents'], () => loadData(false));
 
     const filteredEntries = entries.filter(entry => {
         if (!searchQuery.trim()) return true;
@@ -42,10 +49,9 @@ export default function VocabularyPage() {
         );
     });
 
-    const handleDelete = useCallback((id: string) => {
+    const handleDelete = useCallback(async (id: string) => {
         if (confirm('Delete this word from vocabulary?')) {
-            deleteVocabularyEntry(id);
-            loadData();
+            await cloudVocabulary.delete(id);
         }
     }, []);
 
@@ -54,17 +60,16 @@ export default function VocabularyPage() {
         setEditNote(entry.userNote || '');
     }, []);
 
-    const handleSaveNote = useCallback(() => {
+    const handleSaveNote = useCallback(async () => {
         if (editingId) {
-            updateVocabularyEntry(editingId, { userNote: editNote || undefined });
+            await cloudVocabulary.update(editingId, { userNote: editNote || undefined });
             setEditingId(null);
             setEditNote('');
-            loadData();
         }
     }, [editingId, editNote]);
 
-    const handleExport = useCallback(() => {
-        const csv = exportVocabularyAsCsv();
+    const handleExport = useCallback(async () => {
+        const csv = await cloudVocabulary.exportCsv();
         const blob = new Blob([csv], { type: 'text/csv' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -75,7 +80,7 @@ export default function VocabularyPage() {
     }, []);
 
     const getDocumentTitle = (documentId: string) => {
-        const doc = getDocumentById(documentId);
+        const doc = documents.find(d => d.id === documentId);
         return doc?.title || 'Unknown Document';
     };
 
@@ -0,0 +1,67 @@
+// Accounts
+// Sign-in state lives in an httpOnly session cookie set by /api/auth. The
+// local stores hold one account's data at a time, so switching accounts on
+// a device clears them before the new account's data is pulled.
+
+import { clearAllData } from './documents';
+import { resetSyncCursor, syncNow } from './sync';
+import { api } from './api/client';
+
+const ACCOUNT_KEY = 'coreader_account';
+
+export interface Account {
+    id: string;
+    email: string;
+}
+
+/**
+ * Point the local stores at an account, clearing another account's data
+ */
+async function activateAccount(account: Account): Promise<Account> {
+    const previous = localStorage.getItem(ACCOUNT_KEY);
+
+    // Data created before the first sign-in is kept and pushed to the new account
+    if (previous && previous !== account.id) {
+        await clearAllData();
+    }
+
+    localStorage.setItem(ACCOUNT_KEY, account.id);
+    resetSyncCursor();
+    syncNow().catch(error => {
+        console.warn('Sync failed:', error instanceof Error ? error.message : error);
+    });
+    return account;
+}
+
+/**
+ * Create an account and sign in
+ */
+export async function signUp(email: string, password: string): Promise<Account> {
+    return activateAccount(await api.auth.signUp({ email, password }));
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function signIn(email: string, password: string): Promise<Account> {
+    return activateAccount(await api.auth.signIn({ email, password }));
+}
+
+/**
+ * Sign out of this browser. Local data stays until another account signs in.
+ */
+export async function signOut(): Promise<void> {
+    await api.auth.signOut();
+    resetSyncCursor();
+}
+
+/**
+ * Get the signed-in account, or null when signed out or offline
+ */
+export async function getCurrentUser(): Promise<Account | null> {
+    try {
+        return await api.auth.me();
+    } catch {
+        return null;
+    }
+}
@@ -1,10 +1,12 @@
 // AI Co-Reader Utilities
 // Controlled AI features for reading augmentation
 
-import { Highlight, AIOutput, AIOutputType } from './types';
+import { AIOutput, AIOutputType } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './storage';
+import { aiOutputsCollection } from './storage/collections';
 
-const AI_OUTPUTS_KEY = 'coreader_ai_outputs';
+const aiOutputsStore = getStore(aiOutputsCollection);
 
 // ============================================
 // AI Prompt Templates
@@ -58,38 +60,25 @@ Synthesis:`.trim(),
 /**
  * Get all AI outputs
  */
-export function getAllAIOutputs(): AIOutput[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(AI_OUTPUTS_KEY);
-    if (!stored) return [];
-
-    try {
-        const outputs = JSON.parse(stored);
-        return outputs.map((o: AIOutput) => ({
-            ...o,
-            createdAt: new Date(o.createdAt),
-        }));
-    } catch {
-        return [];
-    }
+export async function getAllAIOutputs(): Promise<AIOutput[]> {
+    return aiOutputsStore.list();
 }
 
 /**
  * Get AI outputs for a specific highlight
  */
-export function getAIOutputsByHighlight(highlightId: string): AIOutput[] {
-    return getAllAIOutputs().filter(o => o.highlightId === highlightId);
+export async function getAIOutputsByHighlight(highlightId: string): Promise<AIOutput[]> {
+    return aiOutputsStore.query('highlightId', highlightId);
 }
 
 /**
  * Save AI output
  */
-export function saveAIOutput(
+export async function saveAIOutput(
     highlightId: string,
     type: AIOutputType,
     content: string
-): AIOutput {
+): Promise<AIOutput> {
     const output: AIOutput = {
         id: uuidv4(),
         highlightId,
@@ -98,41 +87,23 @@ export function saveAIOutput(
         createdAt: new Date(),
     };
 
-    const outputs = getAllAIOutputs();
-    outputs.push(output);
-
-    if (typeof window !== 'undefined') {
-        localStorage.setItem(AI_OUTPUTS_KEY, JSON.stringify(outputs));
-    }
-
-    return output;
+    return aiOutputsStore.put(output);
 }
 
 /**
  * Delete AI output
  */
-export function deleteAIOutput(id: string): boolean {
-    const outputs = getAllAIOutputs();
-    const filtered = outputs.filter(o => o.id !== id);
-
-    if (filtered.length === outputs.length) return false;
-
-    if (typeof window !== 'undefined') {
-        localStorage.setItem(AI_OUTPUTS_KEY, JSON.stringify(filtered));
-    }
-
-    return true;
+export async function deleteAIOutput(id: string): Promise<boolean> {
+    return aiOutputsStore.delete(id);
 }
 
 /**
  * Delete all AI outputs for a highlight
  */
-export function deleteAIOutputsByHighlight(highlightId: string): void {
-    const outputs = getAllAIOutputs();
-    const filtered = outputs.filter(o => o.highlightId !== highlightId);
-
-    if (typeof window !== 'undefined') {
-        localStorage.setItem(AI_OUTPUTS_KEY, JSON.stringify(filtered));
+export async function deleteAIOutputsByHighlight(highlightId: string): Promise<void> {
+    const outputs = await aiOutputsStore.query('highlightId', highlightId);
+    for (const output of outputs) {
+        await aiOutputsStore.delete(output.id);
     }
 }
 
@@ -0,0 +1,190 @@
+// Typed API Client
+// Browser-side calls to /api with request types taken from the contract and
+// responses checked against its schemas before they reach the stores.
+
+import { z } from 'zod';
+import {
+    ApiIssue,
+    CreateDocumentBody,
+    CreateHighlightBody,
+    CreateVocabularyBody,
+    Credentials,
+    DocumentsQuery,
+    SyncPushBody,
+    UpdateDocumentBody,
+    UpdateHighlightBody,
+    UpdateVocabularyBody,
+    VocabularyQuery,
+    accountResponse,
+    documentPageResponse,
+    documentRow,
+    errorResponse,
+    fetchArticleResponse,
+    highlightRow,
+    searchResponse,
+    successResponse,
+    syncPullResponse,
+    syncPushResponse,
+    uploadPartResponse,
+    uploadPdfResponse,
+    uploadResponse,
+    vocabularyRow,
+} from './schemas';
+
+/**
+ * A non-2xx response. `issues` lists the failed checks of a 400; `code`
+ * names the reason where a route reports one.
+ */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly issues: ApiIssue[] = [],
+        readonly code?: string
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+function toApiError(status: number, body: unknown): ApiError {
+    const error = errorResponse.safeParse(body);
+    return error.success
+        ? new ApiError(error.data.error, status, error.data.issues, error.data.code)
+        : new ApiError(`HTTP ${status}`, status);
+}
+
+async function request<S extends z.ZodType>(path: string, schema: S, init?: RequestInit): Promise<z.output<S>> {
+    const response = await fetch(path, { credentials: 'same-origin', ...init });
+    const body: unknown = await response.json().catch(() => null);
+
+    if (!response.ok) throw toApiError(response.status, body);
+    return schema.parse(body);
+}
+
+// For routes that respond with a file rather than JSON
+async function requestBlob(path: string): Promise<Blob> {
+    const response = await fetch(path, { credentials: 'same-origin' });
+    if (!response.ok) throw toApiError(response.status, await response.json().catch(() => null));
+    return response.blob();
+}
+
+function json(method: string, body: unknown): RequestInit {
+    return {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    };
+}
+
+function query(params: Record<string, string | number | undefined>): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== '') search.set(key, String(value));
+    }
+    const text = search.toString();
+    return text ? `?${text}` : '';
+}
+
+// ============================================
+// Endpoints
+// ============================================
+
+export const api = {
+    auth: {
+        signUp: (body: Credentials) =>
+            request('/api/auth/signup', accountResponse, json('POST', body)),
+        signIn: (body: Credentials) =>
+            request('/api/auth/login', accountResponse, json('POST', body)),
+        signOut: () =>
+            request('/api/auth/logout', successResponse, { method: 'POST' }),
+        me: () =>
+            request('/api/auth/me', accountResponse),
+    },
+
+    documents: {
+        list: (params: Omit<DocumentsQuery, 'id'> = {}) =>
+            request(`/api/documents${query(params)}`, documentPageResponse),
+        get: (id: string) =>
+            request(`/api/documents${query({ id })}`, documentRow),
+        create: (body: CreateDocumentBody) =>
+            request('/api/documents', documentRow, json('POST', body)),
+        update: (body: UpdateDocumentBody) =>
+            request('/api/documents', documentRow, json('PUT', body)),
+        delete: (id: string) =>
+            request(`/api/documents${query({ id })}`, successResponse, { method: 'DELETE' }),
+        markOpened: (id: string) =>
+            request(`/api/documents/${encodeURIComponent(id)}/opened`, successResponse, { method: 'POST' }),
+    },
+
+    highlights: {
+        list: (documentId: string) =>
+            request(`/api/highlights${query({ documentId })}`, z.array(highlightRow)),
+        get: (id: string) =>
+            request(`/api/highlights${query({ id })}`, highlightRow),
+        create: (body: CreateHighlightBody) =>
+            request('/api/highlights', highlightRow, json('POST', body)),
+        update: (body: UpdateHighlightBody) =>
+            request('/api/highlights', highlightRow, json('PUT', body)),
+        delete: (id: string) =>
+            request(`/api/highlights${query({ id })}`, successResponse, { method: 'DELETE' }),
+    },
+
+    vocabulary: {
+        list: (params: Omit<VocabularyQuery, 'id'> = {}) =>
+            request(`/api/vocabulary${query(params)}`, z.array(vocabularyRow)),
+        create: (body: CreateVocabularyBody) =>
+            request('/api/vocabulary', vocabularyRow, json('POST', body)),
+        update: (body: UpdateVocabularyBody) =>
+            request('/api/vocabulary', vocabularyRow, json('PUT', body)),
+        delete: (id: string) =>
+            request(`/api/vocabulary${query({ id })}`, successResponse, { method: 'DELETE' }),
+        exportCsv: () =>
+            requestBlob('/api/vocabulary/export').then(blob => blob.text()),
+    },
+
+    sync: {
+        pull: (since?: string) =>
+            request(`/api/sync${query({ since })}`, syncPullResponse),
+        push: (body: SyncPushBody) =>
+            request('/api/sync', syncPushResponse, json('POST', body)),
+    },
+
+    search: (q: string) =>
+        request(`/api/search${query({ q })}`, searchResponse),
+
+    files: {
+        delete: (url: string) =>
+            request(`/api/upload-pdf${query({ url })}`, successResponse, { method: 'DELETE' }),
+    },
+
+    uploads: {
+        create: (documentId: string, size: number) =>
+            request('/api/uploads', uploadResponse, json('POST', { documentId, size })),
+        get: (uploadId: string) =>
+            request(`/api/uploads/${encodeURIComponent(uploadId)}`, uploadResponse),
+        putPart: (uploadId: string, partNumber: number, data: Blob) =>
+            request(`/api/uploads/${encodeURIComponent(uploadId)}/parts/${partNumber}`, uploadPartResponse, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/octet-stream' },
+                body: data,
+            }),
+        recordPart: (uploadId: string, partNumber: number, etag: string) =>
+            request(
+                `/api/uploads/${encodeURIComponent(uploadId)}/parts/${partNumber}`,
+                uploadPartResponse,
+                json('PUT', { etag })
+            ),
+        complete: (uploadId: string) =>
+            request(`/api/uploads/${encodeURIComponent(uploadId)}/complete`, uploadPdfResponse, { method: 'POST' }),
+        abort: (uploadId: string) =>
+            request(`/api/uploads/${encodeURIComponent(uploadId)}`, successResponse, { method: 'DELETE' }),
+    },
+
+    articles: {
+        fetch: (url: string) =>
+            request('/api/fetch-article', fetchArticleResponse, json('POST', { url })),
+        image: (url: string) =>
+            requestBlob(`/api/fetch-article/image${query({ url })}`),
+    },
+};
@@ -0,0 +1,406 @@
+// API Contract
+// Request and response schemas for every route under /api. Routes validate
+// their input against these; the typed client checks responses against them.
+// Rows keep the database's snake_case column names.
+
+import { z } from 'zod';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const id = z.string().trim().min(1, 'Required');
+const timestamp = z.string();
+const nullableText = z.string().nullable().optional(); // null or '' clears the field
+const sha256 = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a SHA-256 hex digest');
+
+// ============================================
+// Shared
+// ============================================
+
+export const sourceTypeSchema = z.enum(['pdf', 'url']);
+
+export const highlightTypeSchema = z.enum(['insight', 'definition', 'question']);
+
+export const DOCUMENT_SORTS = ['created', 'title', 'opened'] as const;
+export const documentSortSchema = z.enum(DOCUMENT_SORTS);
+export type DocumentSort = z.infer<typeof documentSortSchema>;
+
+const anchorBase = {
+    startOffset: z.number().int().min(0),
+    endOffset: z.number().int().min(0),
+    context: z.string(),
+};
+
+export const anchorSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('pdf'), pageNumber: z.number().int().min(1), ...anchorBase }),
+    z.object({ type: z.literal('html'), xpath: z.string(), ...anchorBase }),
+]);
+
+export const idQuery = z.object({ id });
+
+export const successResponse = z.object({ success: z.literal(true) });
+
+// One failed check in a 400 response, e.g. { path: 'sourceType', message: 'Invalid option' }
+export const apiIssue = z.object({ path: z.string(), message: z.string() });
+export type ApiIssue = z.infer<typeof apiIssue>;
+
+// Body of every 4xx/5xx response
+export const errorResponse = z.object({
+    error: z.string(),
+    code: z.string().optional(), // machine-readable reason, where a route has several
+    issues: z.array(apiIssue).optional(),
+});
+export type ErrorResponse = z.infer<typeof errorResponse>;
+
+// ============================================
+// Auth  (/api/auth/*)
+// ============================================
+
+export const signUpBody = z.object({
+    email: z.string().trim().toLowerCase().regex(EMAIL_PATTERN, 'Enter a valid email address'),
+    password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+export const signInBody = z.object({
+    email: z.string().trim().toLowerCase().min(1, 'Email is required'),
+    password: z.string().min(1, 'Password is required'),
+});
+export type Credentials = z.input<typeof signInBody>;
+
+export const accountResponse = z.object({ id: z.string(), email: z.string() });
+
+// ============================================
+// Documents  (/api/documents)
+// ============================================
+
+export const documentRow = z.object({
+    id: z.string(),
+    title: z.string(),
+    source_type: sourceTypeSchema,
+    source_path: z.string(),
+    content_hash: z.string().nullish(),
+    authors: z.array(z.string()).nullish(),
+    published_date: z.string().nullish(),
+    page_count: z.number().nullish(),
+    word_count: z.number().nullish(),
+    tags: z.array(z.string()).nullish(),
+    description: z.string().nullish(),
+    created_at: timestamp,
+    updated_at: timestamp.nullable(),
+    last_opened_at: timestamp.nullish(),
+});
+export type DocumentRow = z.infer<typeof documentRow>;
+
+export const MAX_TAGS = 30;
+
+// Editable details beyond the title; null clears a field
+export const documentMetadata = z.object({
+    authors: z.array(z.string().trim().min(1).max(200)).max(20),
+    publishedDate: z.iso.date('Expected a YYYY-MM-DD date').nullable(),
+    pageCount: z.number().int().min(0).nullable(),
+    wordCount: z.number().int().min(0).nullable(),
+    tags: z.array(z.string().trim().min(1).max(40)).max(MAX_TAGS),
+    description: z.string().trim().max(2000).nullable(),
+}).partial();
+export type DocumentMetadata = z.infer<typeof documentMetadata>;
+
+export const DEFAULT_DOCUMENT_PAGE_SIZE = 30;
+export const MAX_DOCUMENT_PAGE_SIZE = 100;
+
+// GET with ?id returns one document, otherwise a page
+export const documentsQuery = z.object({
+    id: id.optional(),
+    sort: documentSortSchema.default('created'),
+    sourceType: sourceTypeSchema.optional(),
+    q: z.string().trim().optional(), // title contains, case-insensitive
+    contentHash: sha256.optional(), // the document imported from this file, if any
+    cursor: z.string().optional(),
+    limit: z.coerce.number<number>().int().min(1).max(MAX_DOCUMENT_PAGE_SIZE).default(DEFAULT_DOCUMENT_PAGE_SIZE),
+});
+export type DocumentsQuery = z.input<typeof documentsQuery>;
+
+export const documentPageResponse = z.object({
+    documents: z.array(documentRow),
+    nextCursor: z.string().nullable(),
+});
+
+// A PDF has no source path until its file is uploaded, so it may be ''
+const documentFields = z.object({
+    title: z.string().trim().min(1, 'Required'),
+    sourceType: sourceTypeSchema,
+    sourcePath: z.string(),
+    contentHash: sha256.optional(),
+});
+
+export const createDocumentBody = documentFields.refine(
+    body => body.sourceType === 'pdf' || body.sourcePath.length > 0,
+    { message: 'Required', path: ['sourcePath'] }
+);
+export type CreateDocumentBody = z.input<typeof createDocumentBody>;
+
+export const updateDocumentBody = documentMetadata.extend({
+    id,
+    title: z.string().trim().min(1, 'Required').optional(),
+    sourcePath: z.string().min(1, 'Required').optional(),
+});
+export type UpdateDocumentBody = z.input<typeof updateDocumentBody>;
+
+// ============================================
+// Highlights  (/api/highlights)
+// ============================================
+
+export const highlightRow = z.object({
+    id: z.string(),
+    document_id: z.string(),
+    type: highlightTypeSchema,
+    text: z.string(),
+    anchor: anchorSchema,
+    note: z.string().nullable(),
+    created_at: timestamp,
+    updated_at: timestamp.nullable(),
+    note_updated_at: timestamp.nullable(),
+});
+export type HighlightRow = z.infer<typeof highlightRow>;
+
+export const highlightsQuery = z
+    .object({ id: id.optional(), documentId: id.optional() })
+    .refine(query => query.id || query.documentId, { message: 'Provide id or documentId' });
+
+export const createHighlightBody = z.object({
+    documentId: id,
+    type: highlightTypeSchema,
+    text: z.string().min(1, 'Required'),
+    anchor: anchorSchema,
+    note: nullableText,
+});
+export type CreateHighlightBody = z.input<typeof createHighlightBody>;
+
+export const updateHighlightBody = z.object({
+    id,
+    type: highlightTypeSchema.optional(),
+    note: nullableText,
+});
+export type UpdateHighlightBody = z.input<typeof updateHighlightBody>;
+
+// ============================================
+// Vocabulary  (/api/vocabulary)
+// ============================================
+
+export const vocabularyRow = z.object({
+    id: z.string(),
+    word: z.string(),
+    definition: z.string().nullable(),
+    context_sentence: z.string().nullable(),
+    document_id: z.string().nullable(),
+    user_note: z.string().nullable(),
+    created_at: timestamp,
+    updated_at: timestamp.nullable(),
+});
+export type VocabularyRow = z.infer<typeof vocabularyRow>;
+
+export const vocabularyQuery = z.object({
+    id: id.optional(),
+    documentId: id.optional(),
+    q: z.string().trim().optional(),
+});
+export type VocabularyQuery = z.input<typeof vocabularyQuery>;
+
+export const createVocabularyBody = z.object({
+    word: z.string().trim().min(1, 'Required'),
+    definition: nullableText,
+    contextSentence: nullableText,
+    documentId: z.string().trim().nullable().optional(), // '' when the word is not tied to a document
+    userNote: nullableText,
+});
+export type CreateVocabularyBody = z.input<typeof createVocabularyBody>;
+
+export const updateVocabularyBody = z.object({
+    id,
+    definition: nullableText,
+    userNote: nullableText,
+});
+export type UpdateVocabularyBody = z.input<typeof updateVocabularyBody>;
+
+// ============================================
+// Sync  (/api/sync)
+// ============================================
+
+export const syncPullQuery = z.object({
+    since: z.iso.datetime({ offset: true }).optional(),
+});
+
+const tombstone = { deleted_at: timestamp.nullable() };
+
+export const syncPullResponse = z.object({
+    serverTime: timestamp,
+    documents: z.array(documentRow.extend(tombstone)),
+    highlights: z.array(highlightRow.extend(tombstone)),
+    vocabulary: z.array(vocabularyRow.extend(tombstone)),
+});
+export type SyncPullResponse = z.infer<typeof syncPullResponse>;
+
+const syncTimestamp = z.iso.datetime({ offset: true });
+
+// What a mutation of each collection may carry: the fields of the matching
+// create request, all optional since edits send only what changed. Unknown
+// keys are rejected. Checked per mutation, so one bad change is rejected on
+// its own instead of failing the whole push.
+export const syncFields = {
+    documents: documentFields
+        .extend({ ...documentMetadata.shape, createdAt: syncTimestamp })
+        .partial()
+        .strict(),
+    highlights: createHighlightBody
+        .omit({ note: true })
+        .extend({ createdAt: syncTimestamp })
+        .partial()
+        .strict(),
+    notes: z.object({ content: z.string().nullable() }).partial().strict(),
+    vocabulary: createVocabularyBody
+        .extend({ createdAt: syncTimestamp })
+        .partial()
+        .strict(),
+};
+export type SyncFields<C extends keyof typeof syncFields> = z.output<(typeof syncFields)[C]>;
+
+export const syncMutation = z.object({
+    id,
+    sequence: z.number().optional(),
+    collection: z.enum(['documents', 'highlights', 'notes', 'vocabulary']),
+    recordId: id,
+    op: z.enum(['upsert', 'delete']),
+    fields: z.record(z.string(), z.unknown()), // checked against syncFields
+    base: z.record(z.string(), z.unknown()).optional(),
+    timestamp: syncTimestamp,
+});
+export type SyncMutationInput = z.infer<typeof syncMutation>;
+
+export const syncPushBody = z.object({
+    mutations: z.array(syncMutation),
+});
+export type SyncPushBody = z.input<typeof syncPushBody>;
+
+export const syncPushResponse = z.object({
+    results: z.array(z.object({
+        id: z.string(),
+        status: z.enum(['applied', 'stale', 'rejected', 'error']),
+        error: z.string().optional(),
+    })),
+});
+
+// ============================================
+// Search  (/api/search)
+// ============================================
+
+export const searchQuery = z.object({
+    q: z.string().trim().min(1, 'Missing search query'),
+});
+
+export const searchResponse = z.object({
+    query: z.string(),
+    results: z.array(z.object({
+        documentId: z.string(),
+        title: z.string(),
+        pages: z.array(z.object({ pageNumber: z.number(), snippet: z.string() })),
+    })),
+});
+export type SearchResponse = z.infer<typeof searchResponse>;
+
+// ============================================
+// Files  (/api/upload-pdf, /api/documents/[id]/file)
+// ============================================
+
+export const uploadPdfForm = z.object({
+    file: z.instanceof(File, { message: 'No file provided' }),
+    documentId: id,
+});
+
+export const uploadPdfResponse = z.object({
+    success: z.literal(true),
+    url: z.string(), // authenticated proxy URL, used as the document's sourcePath
+    documentId: z.string(),
+});
+
+export const deletePdfQuery = z.object({
+    url: z.string().min(1, 'Required'),
+});
+
+// ============================================
+// Multipart uploads  (/api/uploads)
+// ============================================
+
+export const createUploadBody = z.object({
+    documentId: id,
+    size: z.number().int().positive(), // bytes
+});
+
+export const uploadPartParams = z.object({
+    id,
+    partNumber: z.coerce.number<string>().int().min(1),
+});
+
+// Body of a part PUT when the browser stored the part itself (see `direct`)
+export const uploadPartEtagBody = z.object({
+    etag: z.string().min(1, 'Required'),
+});
+
+export const uploadResponse = z.object({
+    uploadId: z.string(),
+    documentId: z.string(),
+    size: z.number(),
+    partSize: z.number(), // every part but the last is exactly this long
+    partCount: z.number(),
+    receivedParts: z.array(z.number()), // part numbers already stored, for resuming
+    // Present when parts go straight to Vercel Blob rather than through the
+    // server; the token expires, so resuming fetches the upload again
+    direct: z.object({
+        pathname: z.string(),
+        key: z.string(),
+        uploadId: z.string(),
+        token: z.string(),
+    }).optional(),
+});
+export type UploadResponse = z.infer<typeof uploadResponse>;
+
+export const uploadPartResponse = z.object({
+    partNumber: z.number(),
+    size: z.number(),
+});
+
+// ============================================
+// Articles  (/api/fetch-article, /api/fetch-article/image)
+// ============================================
+
+export const fetchArticleBody = z.object({
+    url: z.url({ protocol: /^https?$/, message: 'Enter an http(s) URL' }),
+});
+
+// Why a page was not fetched, sent as `code` in the error response
+export const fetchArticleErrorCode = z.enum([
+    'invalid_url',
+    'blocked_address', // resolves to a loopback, private or otherwise internal address
+    'too_many_redirects',
+    'timeout',
+    'too_large',
+    'unsupported_content_type',
+    'upstream_error', // the site answered with a non-2xx status
+    'unreachable',
+]);
+export type FetchArticleErrorCode = z.infer<typeof fetchArticleErrorCode>;
+
+export const fetchArticleResponse = z.object({
+    url: z.string(),
+    title: z.string(),
+    content: z.string(),
+    author: z.string().optional(),
+    publishedDate: z.string().optional(),
+    pageCount: z.number().optional(), // pages stitched together, for multi-page articles
+    fetchedAt: timestamp,
+});
+export type FetchArticleResponse = z.infer<typeof fetchArticleResponse>;
+
+// GET /api/fetch-article/image responds with the image bytes
+export const articleImageQuery = z.object({
+    url: z.url({ protocol: /^https?$/, message: 'Enter an http(s) URL' }),
+});
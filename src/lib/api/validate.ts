@@ -0,0 +1,79 @@
+// Request Validation
+// Parses route input against the API contract. Bad input becomes a 400 whose
+// body lists each failed check, so callers can point at the offending field.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiIssue, ErrorResponse } from './schemas';
+
+export type Parsed<T> =
+    | { success: true; data: T }
+    | { success: false; response: NextResponse<ErrorResponse> };
+
+/**
+ * 400 response for input that failed validation. The first problem doubles
+ * as the headline, which is what most screens show.
+ */
+export function invalidRequest(
+    issues: ApiIssue[],
+    error = issues[0]?.message || 'Invalid request'
+): NextResponse<ErrorResponse> {
+    return NextResponse.json({ error, issues }, { status: 400 });
+}
+
+function toIssues(error: z.ZodError): ApiIssue[] {
+    return error.issues.map(issue => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message,
+    }));
+}
+
+function parse<S extends z.ZodType>(schema: S, input: unknown): Parsed<z.output<S>> {
+    const result = schema.safeParse(input);
+    if (result.success) return { success: true, data: result.data };
+
+    return { success: false, response: invalidRequest(toIssues(result.error)) };
+}
+
+/**
+ * Validate a JSON request body
+ */
+export async function parseBody<S extends z.ZodType>(request: NextRequest, schema: S): Promise<Parsed<z.output<S>>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return { success: false, response: invalidRequest([], 'Request body must be JSON') };
+    }
+    return parse(schema, body);
+}
+
+/**
+ * Validate the URL's query string. Repeated keys keep their last value.
+ */
+export function parseQuery<S extends z.ZodType>(request: NextRequest, schema: S): Parsed<z.output<S>> {
+    return parse(schema, Object.fromEntries(new URL(request.url).searchParams));
+}
+
+/**
+ * Validate dynamic route segments
+ */
+export async function parseParams<S extends z.ZodType>(
+    params: Promise<Record<string, string>>,
+    schema: S
+): Promise<Parsed<z.output<S>>> {
+    return parse(schema, await params);
+}
+
+/**
+ * Validate a multipart form body
+ */
+export async function parseForm<S extends z.ZodType>(request: NextRequest, schema: S): Promise<Parsed<z.output<S>>> {
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        return { success: false, response: invalidRequest([], 'Request body must be multipart form data') };
+    }
+    return parse(schema, Object.fromEntries(form));
+}
@@ -0,0 +1,164 @@
+// Offline Article Images
+// Copies of the images in a saved article, kept as Blobs in IndexedDB and
+// swapped in for their remote URLs when the article is rendered. The
+// article HTML itself is never rewritten, so a missing copy just falls
+// back to the original image.
+
+import { v4 as uuidv4 } from 'uuid';
+import { StoredArticle } from './types';
+import { api } from './api/client';
+import {
+    isIndexedDbAvailable,
+    openDatabase,
+    requestToPromise,
+    transactionDone,
+    ARTICLE_IMAGES_STORE,
+} from './idb';
+
+// Articles with more images than this keep the rest online only
+export const MAX_ARTICLE_IMAGES = 100;
+
+interface StoredArticleImage {
+    id: string;
+    documentId: string;
+    url: string; // the src it replaces
+    blob: Blob;
+    size: number;
+    createdAt: string;
+}
+
+function imageUrls(html: string): string[] {
+    const document = new DOMParser().parseFromString(html, 'text/html');
+    const urls = Array.from(document.querySelectorAll('img[src]'), image => image.getAttribute('src') || '')
+        .filter(src => /^https?:\/\//i.test(src));
+    return Array.from(new Set(urls)).slice(0, MAX_ARTICLE_IMAGES);
+}
+
+/**
+ * An image as kept for offline reading: the src it replaces and its bytes
+ */
+export interface ArticleImage {
+    url: string;
+    blob: Blob;
+}
+
+/**
+ * Download the images of a saved article through the server and store
+ * them locally. Images that fail are skipped. Returns how many were saved.
+ */
+export async function saveArticleImages(article: StoredArticle): Promise<number> {
+    if (!isIndexedDbAvailable()) return 0;
+
+    const images: ArticleImage[] = [];
+    for (const url of imageUrls(article.content)) {
+        try {
+            images.push({ url, blob: await api.articles.image(url) });
+        } catch (error) {
+            console.warn(`Could not save image ${url}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    await replaceArticleImages(article.id, images);
+    return images.length;
+}
+
+/**
+ * Replace the saved images of an article (used when saving and restoring)
+ */
+export async function replaceArticleImages(documentId: string, images: ArticleImage[]): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+
+    // Everything is in memory before the transaction opens, so it does not auto-commit
+    const records: StoredArticleImage[] = images.map(({ url, blob }) => ({
+        id: uuidv4(),
+        documentId,
+        url,
+        blob,
+        size: blob.size,
+        createdAt: new Date().toISOString(),
+    }));
+
+    await deleteArticleImages(documentId);
+
+    const db = await openDatabase();
+    const tx = db.transaction(ARTICLE_IMAGES_STORE, 'readwrite');
+    const store = tx.objectStore(ARTICLE_IMAGES_STORE);
+    records.forEach(record => store.put(record));
+    await transactionDone(tx);
+}
+
+/**
+ * Every saved article image, with the article it belongs to
+ */
+export async function listArticleImages(): Promise<(ArticleImage & { documentId: string })[]> {
+    if (!isIndexedDbAvailable()) return [];
+
+    const db = await openDatabase();
+    const tx = db.transaction(ARTICLE_IMAGES_STORE, 'readonly');
+    const records = await requestToPromise<StoredArticleImage[]>(tx.objectStore(ARTICLE_IMAGES_STORE).getAll());
+    return records.map(({ documentId, url, blob }) => ({ documentId, url, blob }));
+}
+
+/**
+ * Object URLs for an article's saved images, keyed by the src they
+ * replace. Revoke them with URL.revokeObjectURL when done.
+ */
+export async function openArticleImages(documentId: string): Promise<Map<string, string>> {
+    if (!isIndexedDbAvailable()) return new Map();
+
+    const db = await openDatabase();
+    const tx = db.transaction(ARTICLE_IMAGES_STORE, 'readonly');
+    const records = await requestToPromise<StoredArticleImage[]>(
+        tx.objectStore(ARTICLE_IMAGES_STORE).index('documentId').getAll(documentId)
+    );
+
+    return new Map(records.map(record => [record.url, URL.createObjectURL(record.blob)]));
+}
+
+/**
+ * Point images at their saved copies. Alternative sources are dropped for
+ * those images, since the browser would prefer them over the local copy.
+ */
+export function withLocalImages(html: string, images: Map<string, string>, document: Document): string {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+
+    for (const image of Array.from(container.querySelectorAll('img[src]'))) {
+        const local = images.get(image.getAttribute('src') || '');
+        if (!local) continue;
+
+        image.setAttribute('src', local);
+        image.removeAttribute('srcset');
+        image.removeAttribute('sizes');
+        if (image.parentElement?.localName === 'picture') {
+            image.parentElement.querySelectorAll('source').forEach(source => source.remove());
+        }
+    }
+    return container.innerHTML;
+}
+
+/**
+ * Delete the saved images of one article
+ */
+export async function deleteArticleImages(documentId: string): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+
+    const db = await openDatabase();
+    const tx = db.transaction(ARTICLE_IMAGES_STORE, 'readwrite');
+    const store = tx.objectStore(ARTICLE_IMAGES_STORE);
+    const keys = await requestToPromise(store.index('documentId').getAllKeys(documentId));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(tx);
+}
+
+/**
+ * Delete every saved article image
+ */
+export async function clearArticleImages(): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+
+    const db = await openDatabase();
+    const tx = db.transaction(ARTICLE_IMAGES_STORE, 'readwrite');
+    tx.objectStore(ARTICLE_IMAGES_STORE).clear();
+    await transactionDone(tx);
+}
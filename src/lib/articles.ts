@@ -1,94 +1,56 @@
 // Article Storage and Management
 // Stores HTML content for URL-based documents
 
-const ARTICLES_KEY = 'coreader_articles';
+import { StoredArticle } from './types';
+import type { DocumentMetadata } from './api/schemas';
+import { getStore } from './storage';
+import { articlesCollection } from './storage/collections';
+import { api } from './api/client';
+import { deleteArticleImages } from './articleImages';
 
-export interface StoredArticle {
-    id: string;
-    url: string;
-    title: string;
-    content: string;
-    author?: string;
-    publishedDate?: string;
-    fetchedAt: string;
-}
+export type { StoredArticle } from './types';
+
+const articlesStore = getStore(articlesCollection);
 
 /**
  * Get all stored articles
  */
-export function getAllArticles(): StoredArticle[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(ARTICLES_KEY);
-    if (!stored) return [];
-
-    try {
-        return JSON.parse(stored);
-    } catch {
-        return [];
-    }
+export async function getAllArticles(): Promise<StoredArticle[]> {
+    return articlesStore.list();
 }
 
 /**
  * Get article by document ID
  */
-export function getArticleById(id: string): StoredArticle | null {
-    return getAllArticles().find(a => a.id === id) || null;
+export async function getArticleById(id: string): Promise<StoredArticle | null> {
+    return articlesStore.get(id);
 }
 
 /**
  * Store article content
  */
-export function storeArticle(article: StoredArticle): void {
-    if (typeof window === 'undefined') return;
-
-    const articles = getAllArticles();
-
-    // Remove existing article with same ID
-    const filtered = articles.filter(a => a.id !== article.id);
-    filtered.push(article);
-
-    try {
-        localStorage.setItem(ARTICLES_KEY, JSON.stringify(filtered));
-    } catch (e) {
-        console.error('Failed to store article:', e);
-        throw new Error('Storage full. Please remove some documents.');
-    }
+export async function storeArticle(article: StoredArticle): Promise<void> {
+    await articlesStore.put(article);
 }
 
 /**
- * Delete stored article
+ * Delete stored article and its saved images
  */
-export function deleteArticle(id: string): void {
-    if (typeof window === 'undefined') return;
-
-    const articles = getAllArticles();
-    const filtered = articles.filter(a => a.id !== id);
-    localStorage.setItem(ARTICLES_KEY, JSON.stringify(filtered));
+export async function deleteArticle(id: string): Promise<void> {
+    await articlesStore.delete(id);
+    await deleteArticleImages(id);
 }
 
 /**
- * Fetch and store article from URL
+ * Fetch and store article from URL. A page the server refuses to fetch
+ * throws an ApiError whose `code` is a FetchArticleErrorCode.
  */
 export async function fetchAndStoreArticle(
     documentId: string,
     url: string
 ): Promise<StoredArticle> {
     // Call the API route to fetch and parse the article
-    const response = await fetch('/api/fetch-article', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ url }),
-    });
-
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to fetch article');
-    }
-
-    const data = await response.json();
+    const data = await api.articles.fetch(url);
 
     const article: StoredArticle = {
         id: documentId,
@@ -97,9 +59,31 @@ export async function fetchAndStoreArticle(
         content: data.content,
         author: data.author,
         publishedDate: data.publishedDate,
+        pageCount: data.pageCount,
         fetchedAt: data.fetchedAt,
     };
 
-    storeArticle(article);
+    await storeArticle(article);
     return article;
 }
+
+/**
+ * Document metadata found in a fetched article: its byline, publication
+ * date (as YYYY-MM-DD) and the length of its text
+ */
+export function getArticleMetadata(article: StoredArticle): DocumentMetadata {
+    const metadata: DocumentMetadata = {};
+
+    const author = article.author?.trim();
+    if (author) metadata.authors = [author];
+
+    const published = article.publishedDate ? new Date(article.publishedDate) : null;
+    if (published && !isNaN(published.getTime())) {
+        metadata.publishedDate = published.toISOString().slice(0, 10);
+    }
+
+    const text = new DOMParser().parseFromString(article.content, 'text/html').body.textContent || '';
+    metadata.wordCount = text.split(/\s+/).filter(Boolean).length;
+
+    return metadata;
+}
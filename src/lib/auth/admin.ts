@@ -0,0 +1,21 @@
+// Admin Access
+// Migrations run before any account exists, so they are guarded by a shared
+// token instead of a session. Without MIGRATION_TOKEN set they stay open.
+
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Whether a request carries the migration token (or none is configured)
+ */
+export function hasMigrationAccess(request: NextRequest): boolean {
+    const token = process.env.MIGRATION_TOKEN;
+    if (!token) return true;
+    return request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+/**
+ * Response for admin requests without the migration token
+ */
+export function forbidden(): NextResponse {
+    return NextResponse.json({ error: 'Missing or invalid migration token' }, { status: 403 });
+}
@@ -0,0 +1,78 @@
+// Server-side Sessions
+// The browser holds a random token in an httpOnly cookie; the database only
+// stores its SHA-256 hash, so a leaked sessions table cannot be replayed.
+
+import { createHash, randomBytes } from 'crypto';
+import { sql } from '@/lib/db/client';
+import { NextRequest, NextResponse } from 'next/server';
+
+export const SESSION_COOKIE = 'coreader_session';
+
+const SESSION_TTL_DAYS = 30;
+const SESSION_TTL_MS = SESSION_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+export interface SessionUser {
+    id: string;
+    email: string;
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user and set its cookie on the response
+ */
+export async function createSession(userId: string, response: NextResponse): Promise<void> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await sql`
+        INSERT INTO sessions (id, user_id, expires_at)
+        VALUES (${hashToken(token)}, ${userId}, ${expiresAt.toISOString()})
+    `;
+
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+/**
+ * End the request's session and clear its cookie on the response
+ */
+export async function destroySession(request: NextRequest, response: NextResponse): Promise<void> {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+        await sql`DELETE FROM sessions WHERE id = ${hashToken(token)}`;
+    }
+    response.cookies.delete(SESSION_COOKIE);
+}
+
+/**
+ * Get the signed-in user for a request, or null
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+
+    const result = await sql`
+        SELECT users.id, users.email
+        FROM sessions
+        JOIN users ON users.id = sessions.user_id
+        WHERE sessions.id = ${hashToken(token)} AND sessions.expires_at > NOW()
+    `;
+
+    const row = result.rows[0];
+    return row ? { id: row.id, email: row.email } : null;
+}
+
+/**
+ * Response for requests without a valid session
+ */
+export function unauthorized(): NextResponse {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+}
@@ -0,0 +1,417 @@
+// Workspace Backup and Restore
+// Packages every local store plus PDF binaries into a versioned zip archive:
+//   manifest.json        format, version, records for each collection
+//   files/<docId>.pdf    PDF bytes for each PDF document
+//   images/<n>           saved images of articles, for offline reading
+
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import {
+    Document,
+    StoredArticle,
+    Highlight,
+    Note,
+    AIOutput,
+    VocabularyEntry,
+} from './types';
+import { getStore } from './storage';
+import {
+    documentsCollection,
+    articlesCollection,
+    highlightsCollection,
+    notesCollection,
+    aiOutputsCollection,
+    vocabularyCollection,
+    reviveRecord,
+} from './storage/collections';
+import { CollectionConfig, StorageRecord } from './storage/types';
+import { loadPdfBytes } from './cloudStorage';
+import { savePdfBlob, deletePdfBlob } from './pdfStore';
+import { enqueueMutation, pickSyncFields } from './outbox';
+import { ArticleImage, listArticleImages, replaceArticleImages } from './articleImages';
+import { anchorSchema, highlightTypeSchema, sourceTypeSchema } from './api/schemas';
+
+export const BACKUP_FORMAT = 'coreader-backup';
+export const BACKUP_VERSION = 2; // 2: article images
+
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BackupFile {
+    documentId: string;
+    path: string;
+    size: number;
+}
+
+export interface BackupImage {
+    documentId: string;
+    url: string; // the src it replaces
+    path: string;
+    type: string;
+    size: number;
+}
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    documents: Document[];
+    articles: StoredArticle[];
+    highlights: Highlight[];
+    notes: Note[];
+    aiOutputs: AIOutput[];
+    vocabulary: VocabularyEntry[];
+    files: BackupFile[];
+    images: BackupImage[];
+}
+
+/**
+ * What to do when an imported record has the same ID as an existing one
+ *   skip      keep the existing record
+ *   overwrite replace it with the imported record
+ *   keepBoth  import under a new ID (references are remapped)
+ */
+export type CollisionStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+export interface ImportSummary {
+    imported: number;
+    skipped: number;
+    renamed: number;
+    missingFiles: number;
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Build a backup archive of the whole workspace
+ */
+export async function exportWorkspace(): Promise<Blob> {
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        documents: await getStore(documentsCollection).list(),
+        articles: await getStore(articlesCollection).list(),
+        highlights: await getStore(highlightsCollection).list(),
+        notes: await getStore(notesCollection).list(),
+        aiOutputs: await getStore(aiOutputsCollection).list(),
+        vocabulary: await getStore(vocabularyCollection).list(),
+        files: [],
+        images: [],
+    };
+
+    const zip = new JSZip();
+
+    for (const doc of manifest.documents) {
+        if (doc.sourceType !== 'pdf' || !doc.sourcePath) continue;
+
+        try {
+            const bytes = await loadPdfBytes(doc.sourcePath);
+            const path = `files/${doc.id}.pdf`;
+            // PDFs are already compressed
+            zip.file(path, bytes, { compression: 'STORE' });
+            manifest.files.push({ documentId: doc.id, path, size: bytes.byteLength });
+        } catch (error) {
+            console.warn(`Skipping PDF for "${doc.title}":`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    const articleIds = new Set(manifest.articles.map(article => article.id));
+    const images = (await listArticleImages()).filter(image => articleIds.has(image.documentId));
+
+    images.forEach(({ documentId, url, blob }, index) => {
+        const path = `images/${index}`;
+        // Images are already compressed
+        zip.file(path, blob, { compression: 'STORE' });
+        manifest.images.push({ documentId, url, path, type: blob.type, size: blob.size });
+    });
+
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/**
+ * File name for a new backup, e.g. coreader-backup-2025-01-31.zip
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+    return `${BACKUP_FORMAT}-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+// ============================================
+// Import
+// ============================================
+
+// Records are checked for the fields import relies on; other fields pass through
+const recordId = z.string().min(1);
+
+const backupManifestSchema = z.object({
+    format: z.literal(BACKUP_FORMAT),
+    version: z.number().int().min(1),
+    exportedAt: z.string(),
+    documents: z.array(z.looseObject({
+        id: recordId,
+        title: z.string(),
+        sourceType: sourceTypeSchema,
+        sourcePath: z.string(),
+        createdAt: z.string(),
+    })),
+    articles: z.array(z.looseObject({
+        id: recordId,
+        url: z.string(),
+        title: z.string(),
+        content: z.string(),
+        fetchedAt: z.string(),
+    })),
+    highlights: z.array(z.looseObject({
+        id: recordId,
+        documentId: recordId,
+        type: highlightTypeSchema,
+        text: z.string(),
+        anchor: anchorSchema,
+        createdAt: z.string(),
+    })),
+    notes: z.array(z.looseObject({
+        id: recordId,
+        highlightId: recordId,
+        content: z.string(),
+        createdAt: z.string(),
+    })),
+    aiOutputs: z.array(z.looseObject({
+        id: recordId,
+        highlightId: recordId,
+        type: z.string(),
+        content: z.string(),
+        createdAt: z.string(),
+    })),
+    vocabulary: z.array(z.looseObject({
+        id: recordId,
+        word: z.string(),
+        contextSentence: z.string(),
+        documentId: z.string(), // '' when the word is not tied to a document
+        createdAt: z.string(),
+    })),
+    files: z.array(z.object({
+        documentId: recordId,
+        path: z.string(),
+        size: z.number(),
+    })),
+    images: z.array(z.object({
+        documentId: recordId,
+        url: z.string(),
+        path: z.string(),
+        type: z.string(),
+        size: z.number(),
+    })).default([]), // absent before version 2
+});
+
+/**
+ * Read and validate the manifest of a backup archive
+ */
+export async function readBackupManifest(archive: Blob): Promise<{ zip: JSZip; manifest: BackupManifest }> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(archive);
+    } catch {
+        throw new Error('This file is not a Co-Reader backup archive.');
+    }
+
+    const entry = zip.file(MANIFEST_PATH);
+    if (!entry) throw new Error('Backup archive is missing its manifest.');
+
+    let raw: { format?: unknown; version?: unknown };
+    try {
+        raw = JSON.parse(await entry.async('string'));
+    } catch {
+        throw new Error('Backup manifest is not valid JSON.');
+    }
+
+    if (raw?.format !== BACKUP_FORMAT) {
+        throw new Error('This file is not a Co-Reader backup archive.');
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of Co-Reader.');
+    }
+
+    const parsed = backupManifestSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Backup manifest is damaged (${issue.path.join('.') || 'manifest'}: ${issue.message}).`);
+    }
+
+    // Dates are still strings here; records are revived as they are written
+    return { zip, manifest: parsed.data as unknown as BackupManifest };
+}
+
+/**
+ * Restore a backup archive into the current workspace
+ */
+export async function importWorkspace(
+    archive: Blob,
+    strategy: CollisionStrategy = 'keepBoth'
+): Promise<ImportSummary> {
+    const { zip, manifest } = await readBackupManifest(archive);
+    const summary: ImportSummary = { imported: 0, skipped: 0, renamed: 0, missingFiles: 0 };
+
+    const documentIds = new Map<string, string>();
+    const highlightIds = new Map<string, string>();
+
+    /**
+     * Pick the ID an imported record is written under, or null to skip it
+     */
+    async function resolveId<T extends StorageRecord>(
+        collection: CollectionConfig<T>,
+        id: string
+    ): Promise<string | null> {
+        const existing = await getStore(collection).get(id);
+        if (!existing) return id;
+
+        switch (strategy) {
+            case 'skip':
+                summary.skipped++;
+                return null;
+            case 'overwrite':
+                return id;
+            case 'keepBoth':
+                summary.renamed++;
+                return uuidv4();
+        }
+    }
+
+    async function write<T extends StorageRecord>(collection: CollectionConfig<T>, record: T): Promise<T> {
+        summary.imported++;
+        return getStore(collection).put(reviveRecord(collection, record));
+    }
+
+    const files = new Map(manifest.files.map(file => [file.documentId, file]));
+    const articles = new Map(manifest.articles.map(article => [article.id, article]));
+    const images = new Map<string, BackupImage[]>();
+    for (const image of manifest.images) {
+        images.set(image.documentId, [...(images.get(image.documentId) || []), image]);
+    }
+
+    // Documents, with their PDF binaries and stored articles
+    for (const raw of manifest.documents) {
+        const id = await resolveId(documentsCollection, raw.id);
+        if (!id) continue;
+        documentIds.set(raw.id, id);
+
+        const doc: Document = { ...raw, id };
+
+        if (doc.sourceType === 'pdf') {
+            const file = files.get(raw.id);
+            const entry = file && zip.file(file.path);
+
+            if (entry) {
+                await deleteReplacedPdf(id);
+                const bytes = await entry.async('arraybuffer');
+                const blobId = await savePdfBlob(new Blob([bytes], { type: 'application/pdf' }));
+                doc.sourcePath = `local:${blobId}`;
+            } else if (doc.sourcePath.startsWith('local:')) {
+                // The local blob did not make it into the archive
+                summary.missingFiles++;
+            }
+        }
+
+        const saved = await write(documentsCollection, doc);
+        const fields = pickSyncFields('documents', saved);
+        // A local: path only means something on this device
+        if (saved.sourcePath.startsWith('local:')) delete fields.sourcePath;
+        await enqueueMutation('documents', 'upsert', saved.id, {
+            ...fields,
+            createdAt: saved.createdAt.toISOString(),
+        });
+
+        const article = articles.get(raw.id);
+        if (article) {
+            await write(articlesCollection, { ...article, id });
+            await restoreArticleImages(zip, images.get(raw.id) || [], id);
+        }
+    }
+
+    // Highlights and everything hanging off them
+    for (const raw of manifest.highlights) {
+        const id = await resolveId(highlightsCollection, raw.id);
+        if (!id) continue;
+        highlightIds.set(raw.id, id);
+
+        const saved = await write(highlightsCollection, {
+            ...raw,
+            id,
+            documentId: documentIds.get(raw.documentId) || raw.documentId,
+        });
+        await enqueueMutation('highlights', 'upsert', saved.id, {
+            ...pickSyncFields('highlights', saved),
+            createdAt: saved.createdAt.toISOString(),
+        });
+    }
+
+    for (const raw of manifest.notes) {
+        const id = await resolveId(notesCollection, raw.id);
+        if (!id) continue;
+
+        const saved = await write(notesCollection, {
+            ...raw,
+            id,
+            highlightId: highlightIds.get(raw.highlightId) || raw.highlightId,
+        });
+        await enqueueMutation('notes', 'upsert', saved.highlightId, { content: saved.content });
+    }
+
+    for (const raw of manifest.aiOutputs) {
+        const id = await resolveId(aiOutputsCollection, raw.id);
+        if (!id) continue;
+
+        await write(aiOutputsCollection, {
+            ...raw,
+            id,
+            highlightId: highlightIds.get(raw.highlightId) || raw.highlightId,
+        });
+    }
+
+    for (const raw of manifest.vocabulary) {
+        const id = await resolveId(vocabularyCollection, raw.id);
+        if (!id) continue;
+
+        const saved = await write(vocabularyCollection, {
+            ...raw,
+            id,
+            documentId: documentIds.get(raw.documentId) || raw.documentId,
+        });
+        await enqueueMutation('vocabulary', 'upsert', saved.id, {
+            ...pickSyncFields('vocabulary', saved),
+            createdAt: saved.createdAt.toISOString(),
+        });
+    }
+
+    return summary;
+}
+
+/**
+ * Save the archived images of one article under its (possibly new) ID
+ */
+async function restoreArticleImages(zip: JSZip, images: BackupImage[], documentId: string): Promise<void> {
+    if (images.length === 0) return;
+
+    const restored: ArticleImage[] = [];
+    for (const image of images) {
+        const entry = zip.file(image.path);
+        if (!entry) continue;
+
+        const bytes = await entry.async('arraybuffer');
+        restored.push({ url: image.url, blob: new Blob([bytes], { type: image.type }) });
+    }
+    await replaceArticleImages(documentId, restored);
+}
+
+/**
+ * When overwriting a PDF document, drop the local blob it pointed at
+ */
+async function deleteReplacedPdf(documentId: string): Promise<void> {
+    const existing = await getStore(documentsCollection).get(documentId);
+    if (existing?.sourcePath.startsWith('local:')) {
+        await deletePdfBlob(existing.sourcePath.replace('local:', ''));
+    }
+}
@@ -1,56 +1,150 @@
 // Cloud Document Storage using Vercel Postgres
-// Falls back to localStorage if database is not configured
+// Falls back to the local documents store if database is not configured,
+// queueing the change in the sync outbox
 
 import { Document, SourceType } from './types';
+import {
+    getAllDocuments,
+    getDocumentById,
+    createDocument,
+    saveDocument,
+    updateDocument,
+    deleteDocument,
+    markDocumentOpened,
+    DocumentChanges,
+} from './documents';
+import { enqueueMutation, pickSyncFields, shouldQueue } from './outbox';
+import { deletePdfFromCloud, isCloudUrl } from './cloudStorage';
+import { api, ApiError } from './api/client';
+import { DocumentRow, DocumentsQuery, MAX_DOCUMENT_PAGE_SIZE, UpdateDocumentBody } from './api/schemas';
+
+export type { DocumentRow, DocumentSort } from './api/schemas';
+
+export type DocumentQuery = Omit<DocumentsQuery, 'id'>;
+
+export type DocumentUpdates = Omit<UpdateDocumentBody, 'id'>;
+
+export interface DocumentPage {
+    documents: Document[];
+    nextCursor: string | null;
+}
+
+export function rowToDocument(row: DocumentRow): Document {
+    return {
+        id: row.id,
+        title: row.title,
+        sourceType: row.source_type,
+        sourcePath: row.source_path,
+        contentHash: row.content_hash || undefined,
+        authors: row.authors || undefined,
+        publishedDate: row.published_date || undefined,
+        pageCount: row.page_count ?? undefined,
+        wordCount: row.word_count ?? undefined,
+        tags: row.tags || undefined,
+        description: row.description || undefined,
+        createdAt: new Date(row.created_at),
+        updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+        lastOpenedAt: row.last_opened_at ? new Date(row.last_opened_at) : undefined,
+    };
+}
+
+// null clears a field in the cloud; locally that is an absent field
+function toLocalChanges(updates: DocumentUpdates): DocumentChanges {
+    const changes: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(updates)) {
+        if (value !== undefined) changes[key] = value ?? undefined;
+    }
+    return changes as DocumentChanges;
+}
+
+/**
+ * Apply a document query to the local store in one page (offline fallback)
+ */
+async function queryLocalDocuments(query: DocumentQuery): Promise<DocumentPage> {
+    const text = query.q?.toLowerCase();
+    const sortKey = (doc: Document) => (doc.lastOpenedAt || doc.createdAt).getTime();
+
+    const documents = (await getAllDocuments())
+        .filter(doc => !query.sourceType || doc.sourceType === query.sourceType)
+        .filter(doc => !query.contentHash || doc.contentHash === query.contentHash)
+        .filter(doc => !text || doc.title.toLowerCase().includes(text));
+
+    if (query.sort === 'title') {
+        documents.sort((a, b) => a.title.localeCompare(b.title));
+    } else if (query.sort === 'opened') {
+        documents.sort((a, b) => sortKey(b) - sortKey(a));
+    } else {
+        documents.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    return { documents, nextCursor: null };
+}
 
 // ============================================
 // Cloud Storage (Vercel Postgres via API)
 // ============================================
 
 /**
- * Get all documents from cloud
+ * Get one page of documents from cloud. Offline, the whole filtered local
+ * list comes back as a single page.
  */
-export async function getCloudDocuments(): Promise<Document[]> {
+export async function getCloudDocumentPage(query: DocumentQuery = {}): Promise<DocumentPage> {
+    if (await shouldQueue()) return queryLocalDocuments(query);
+
     try {
-        const response = await fetch('/api/documents');
-        if (!response.ok) throw new Error('Failed to fetch documents');
-
-        const data = await response.json();
-        return data.map((row: any) => ({
-            id: row.id,
-            title: row.title,
-            sourceType: row.source_type as SourceType,
-            sourcePath: row.source_path,
-            createdAt: new Date(row.created_at),
-        }));
-    } catch (error) {
-        console.warn('Cloud fetch failed, falling back to localStorage');
-        return getLocalDocuments();
+        const page = await api.documents.list(query);
+        return { documents: page.documents.map(rowToDocument), nextCursor: page.nextCursor };
+    } catch {
+        console.warn('Cloud fetch failed, falling back to local store');
+        return queryLocalDocuments(query);
     }
 }
 
+/**
+ * Get all documents from cloud, newest first
+ */
+export async function getCloudDocuments(): Promise<Document[]> {
+    const documents: Document[] = [];
+    let cursor: string | undefined;
+
+    do {
+        const page = await getCloudDocumentPage({ cursor, limit: MAX_DOCUMENT_PAGE_SIZE });
+        documents.push(...page.documents);
+        cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    return documents;
+}
+
+/**
+ * Get every document from cloud with no local fallback. Throws if any page
+ * cannot be fetched, for callers that must not take the local list for it.
+ */
+export async function requireCloudDocuments(): Promise<Document[]> {
+    const documents: Document[] = [];
+    let cursor: string | undefined;
+
+    do {
+        const page = await api.documents.list({ cursor, limit: MAX_DOCUMENT_PAGE_SIZE });
+        documents.push(...page.documents.map(rowToDocument));
+        cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    return documents;
+}
+
 /**
  * Get single document by ID from cloud
  */
 export async function getCloudDocumentById(id: string): Promise<Document | null> {
-    try {
-        const response = await fetch(`/api/documents?id=${id}`);
-        if (!response.ok) {
-            if (response.status === 404) return null;
-            throw new Error('Failed to fetch document');
-        }
+    if (await shouldQueue()) return getDocumentById(id);
 
-        const row = await response.json();
-        return {
-            id: row.id,
-            title: row.title,
-            sourceType: row.source_type as SourceType,
-            sourcePath: row.source_path,
-            createdAt: new Date(row.created_at),
-        };
+    try {
+        return rowToDocument(await api.documents.get(id));
     } catch (error) {
-        console.warn('Cloud fetch failed, falling back to localStorage');
-        return getLocalDocumentById(id);
+        if (error instanceof ApiError && error.status === 404) return null;
+        console.warn('Cloud fetch failed, falling back to local store');
+        return getDocumentById(id);
     }
 }
 
@@ -60,157 +154,116 @@ export async function getCloudDocumentById(id: string): Promise<Document | null>
 export async function createCloudDocument(
     title: string,
     sourceType: SourceType,
-    sourcePath: string
+    sourcePath: string,
+    contentHash?: string
 ): Promise<Document> {
-    try {
-        const response = await fetch('/api/documents', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ title, sourceType, sourcePath }),
-        });
-
-        if (!response.ok) {
-            const error = await response.json();
-            throw new Error(error.error || 'Failed to create document');
+    if (!(await shouldQueue())) {
+        try {
+            const row = await api.documents.create({ title, sourceType, sourcePath, contentHash });
+
+            // Also save locally for offline access
+            return saveDocument(rowToDocument(row));
+        } catch (error) {
+            console.warn('Cloud create failed, falling back to local store:', error instanceof Error ? error.message : error);
         }
-
-        const row = await response.json();
-        const doc: Document = {
-            id: row.id,
-            title: row.title,
-            sourceType: row.source_type as SourceType,
-            sourcePath: row.source_path,
-            createdAt: new Date(row.created_at),
-        };
-
-        // Also save to localStorage for offline access
-        saveDocumentLocally(doc);
-
-        return doc;
-    } catch (error: any) {
-        console.warn('Cloud create failed, falling back to localStorage:', error.message);
-        return createLocalDocument(title, sourceType, sourcePath);
     }
+
+    const doc = await createDocument(title, sourceType, sourcePath, contentHash);
+    await enqueueMutation('documents', 'upsert', doc.id, {
+        ...pickSyncFields('documents', doc),
+        createdAt: doc.createdAt.toISOString(),
+    });
+    return doc;
 }
 
 /**
- * Update document source path in cloud (for when PDF is uploaded)
+ * Find a document already imported from the same file
  */
-export async function updateCloudDocument(id: string, updates: { title?: string; sourcePath?: string }): Promise<void> {
-    try {
-        const response = await fetch('/api/documents', {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ id, ...updates }),
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to update document');
-        }
-
-        // Update localStorage too
-        updateLocalDocument(id, updates);
-    } catch (error) {
-        console.warn('Cloud update failed, updating localStorage only');
-        updateLocalDocument(id, updates);
-    }
+export async function findCloudDocumentByHash(contentHash: string): Promise<Document | null> {
+    const page = await getCloudDocumentPage({ contentHash, limit: 1 });
+    return page.documents[0] || null;
 }
 
 /**
- * Delete document from cloud
+ * Record that a document was opened. Best effort: an open while offline
+ * only updates the local copy.
  */
-export async function deleteCloudDocument(id: string): Promise<void> {
-    try {
-        const response = await fetch(`/api/documents?id=${id}`, {
-            method: 'DELETE',
-        });
-
-        if (!response.ok) {
-            throw new Error('Failed to delete document');
-        }
-    } catch (error) {
-        console.warn('Cloud delete failed');
-    }
-
-    // Always delete from localStorage too
-    deleteLocalDocument(id);
-}
-
-// ============================================
-// Local Storage (Fallback)
-// ============================================
-
-const LOCAL_DOCUMENTS_KEY = 'coreader_documents';
-
-function getLocalDocuments(): Document[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(LOCAL_DOCUMENTS_KEY);
-    if (!stored) return [];
+export async function markCloudDocumentOpened(id: string): Promise<void> {
+    await markDocumentOpened(id);
+    if (await shouldQueue()) return;
 
     try {
-        const docs = JSON.parse(stored);
-        return docs.map((d: any) => ({
-            ...d,
-            createdAt: new Date(d.createdAt),
-        }));
+        await api.documents.markOpened(id);
     } catch {
-        return [];
+        console.warn('Cloud update failed, updating local store only');
     }
 }
 
-function getLocalDocumentById(id: string): Document | null {
-    return getLocalDocuments().find(d => d.id === id) || null;
-}
-
-function createLocalDocument(title: string, sourceType: SourceType, sourcePath: string): Document {
-    const { v4: uuidv4 } = require('uuid');
-
-    const doc: Document = {
-        id: uuidv4(),
-        title,
-        sourceType,
-        sourcePath,
-        createdAt: new Date(),
-    };
-
-    saveDocumentLocally(doc);
-    return doc;
-}
-
-function saveDocumentLocally(doc: Document): void {
-    if (typeof window === 'undefined') return;
+/**
+ * Update a document's title, source path (for when PDF is uploaded) or
+ * metadata in cloud
+ */
+export async function updateCloudDocument(id: string, updates: DocumentUpdates): Promise<void> {
+    const changes = toLocalChanges(updates);
+
+    // A local: path only means something on this device, so it never leaves it
+    const { sourcePath, ...rest } = updates;
+    const shared = sourcePath?.startsWith('local:') ? rest : updates;
+    if (Object.keys(shared).length === 0) {
+        await updateDocument(id, changes);
+        return;
+    }
 
-    const docs = getLocalDocuments();
-    const existing = docs.findIndex(d => d.id === doc.id);
+    if (!(await shouldQueue())) {
+        try {
+            await api.documents.update({ id, ...shared });
 
-    if (existing >= 0) {
-        docs[existing] = doc;
-    } else {
-        docs.push(doc);
+            // Update local store too
+            await updateDocument(id, changes);
+            return;
+        } catch {
+            console.warn('Cloud update failed, updating local store only');
+        }
     }
 
-    localStorage.setItem(LOCAL_DOCUMENTS_KEY, JSON.stringify(docs));
+    const previous = await getDocumentById(id);
+    await updateDocument(id, changes);
+    await enqueueMutation(
+        'documents',
+        'upsert',
+        id,
+        shared,
+        previous ? pickSyncFields('documents', previous) : undefined
+    );
 }
 
-function updateLocalDocument(id: string, updates: { title?: string; sourcePath?: string }): void {
-    if (typeof window === 'undefined') return;
-
-    const docs = getLocalDocuments();
-    const index = docs.findIndex(d => d.id === id);
-
-    if (index >= 0) {
-        if (updates.title) docs[index].title = updates.title;
-        if (updates.sourcePath) docs[index].sourcePath = updates.sourcePath;
-        localStorage.setItem(LOCAL_DOCUMENTS_KEY, JSON.stringify(docs));
+/**
+ * Delete document from cloud, along with its cloud PDF and every local
+ * record that depends on it
+ */
+export async function deleteCloudDocument(id: string): Promise<void> {
+    const document = await getCloudDocumentById(id);
+    let deletedInCloud = false;
+
+    if (!(await shouldQueue())) {
+        try {
+            if (document?.sourceType === 'pdf' && document.sourcePath && isCloudUrl(document.sourcePath)) {
+                await deletePdfFromCloud(document.sourcePath);
+            }
+
+            await api.documents.delete(id);
+            deletedInCloud = true;
+        } catch {
+            console.warn('Cloud delete failed');
+        }
     }
-}
 
-function deleteLocalDocument(id: string): void {
-    if (typeof window === 'undefined') return;
+    if (!deletedInCloud) {
+        await enqueueMutation('documents', 'delete', id);
+    }
 
-    const docs = getLocalDocuments().filter(d => d.id !== id);
-    localStorage.setItem(LOCAL_DOCUMENTS_KEY, JSON.stringify(docs));
+    // Always delete from the local store too
+    await deleteDocument(id);
 }
 
 // ============================================
@@ -219,8 +272,12 @@ function deleteLocalDocument(id: string): void {
 
 export const cloudDocs = {
     getAll: getCloudDocuments,
+    requireAll: requireCloudDocuments,
+    getPage: getCloudDocumentPage,
     getById: getCloudDocumentById,
+    findByContentHash: findCloudDocumentByHash,
     create: createCloudDocument,
     update: updateCloudDocument,
+    markOpened: markCloudDocumentOpened,
     delete: deleteCloudDocument,
 };
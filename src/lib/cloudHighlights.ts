@@ -0,0 +1,187 @@
+// Cloud Highlight Storage using Vercel Postgres
+// Falls back to the local highlights store if database is not configured,
+// queueing the change in the sync outbox
+
+import { Anchor, Highlight, HighlightType, Note } from './types';
+import {
+    getHighlightsByDocument,
+    getHighlightById,
+    createHighlight,
+    saveHighlight,
+    updateHighlightType,
+    deleteHighlight,
+    getNoteByHighlight,
+    saveNote,
+    deleteNotesByHighlight,
+} from './highlights';
+import { enqueueMutation, pickSyncFields, shouldQueue } from './outbox';
+import { HighlightRow } from './api/schemas';
+import { api } from './api/client';
+
+export type { HighlightRow } from './api/schemas';
+
+export function rowToHighlight(row: HighlightRow): Highlight {
+    return {
+        id: row.id,
+        documentId: row.document_id,
+        type: row.type,
+        text: row.text,
+        anchor: row.anchor,
+        createdAt: new Date(row.created_at),
+        updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    };
+}
+
+/**
+ * Mirror a cloud row (highlight plus its note) into the local store
+ */
+async function cacheRowLocally(row: HighlightRow): Promise<Highlight> {
+    const highlight = await saveHighlight(rowToHighlight(row));
+
+    if (row.note) {
+        await saveNote(row.id, row.note);
+    } else {
+        await deleteNotesByHighlight(row.id);
+    }
+
+    return highlight;
+}
+
+// ============================================
+// Cloud Storage (Vercel Postgres via API)
+// ============================================
+
+/**
+ * Get highlights for a document from cloud
+ */
+export async function getCloudHighlightsByDocument(documentId: string): Promise<Highlight[]> {
+    if (await shouldQueue()) return getHighlightsByDocument(documentId);
+
+    try {
+        const rows = await api.highlights.list(documentId);
+        return Promise.all(rows.map(cacheRowLocally));
+    } catch {
+        console.warn('Cloud fetch failed, falling back to local store');
+        return getHighlightsByDocument(documentId);
+    }
+}
+
+/**
+ * Create highlight in cloud
+ */
+export async function createCloudHighlight(
+    documentId: string,
+    type: HighlightType,
+    text: string,
+    anchor: Anchor
+): Promise<Highlight> {
+    if (!(await shouldQueue())) {
+        try {
+            const row = await api.highlights.create({ documentId, type, text, anchor });
+
+            // Also save locally for offline access
+            return cacheRowLocally(row);
+        } catch (error) {
+            console.warn('Cloud create failed, falling back to local store:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    const highlight = await createHighlight(documentId, type, text, anchor);
+    await enqueueMutation('highlights', 'upsert', highlight.id, {
+        ...pickSyncFields('highlights', highlight),
+        createdAt: highlight.createdAt.toISOString(),
+    });
+    return highlight;
+}
+
+/**
+ * Update highlight type in cloud
+ */
+export async function updateCloudHighlightType(id: string, type: HighlightType): Promise<Highlight | null> {
+    if (!(await shouldQueue())) {
+        try {
+            await api.highlights.update({ id, type });
+            return updateHighlightType(id, type);
+        } catch {
+            console.warn('Cloud update failed, updating local store only');
+        }
+    }
+
+    const previous = await getHighlightById(id);
+    const highlight = await updateHighlightType(id, type);
+    if (highlight) {
+        await enqueueMutation('highlights', 'upsert', id, { type }, previous ? { type: previous.type } : undefined);
+    }
+    return highlight;
+}
+
+/**
+ * Get the note for a highlight from cloud
+ */
+export async function getCloudNote(highlightId: string): Promise<Note | null> {
+    if (await shouldQueue()) return getNoteByHighlight(highlightId);
+
+    try {
+        await cacheRowLocally(await api.highlights.get(highlightId));
+    } catch {
+        console.warn('Cloud fetch failed, falling back to local store');
+    }
+
+    return getNoteByHighlight(highlightId);
+}
+
+/**
+ * Save the note for a highlight in cloud
+ */
+export async function saveCloudNote(highlightId: string, content: string): Promise<Note> {
+    if (!(await shouldQueue())) {
+        try {
+            await api.highlights.update({ id: highlightId, note: content });
+            return saveNote(highlightId, content);
+        } catch {
+            console.warn('Cloud note save failed, updating local store only');
+        }
+    }
+
+    // Notes are synced through their highlight, so the record ID is the highlight ID
+    const previous = await getNoteByHighlight(highlightId);
+    const note = await saveNote(highlightId, content);
+    await enqueueMutation('notes', 'upsert', highlightId, { content }, { content: previous?.content ?? null });
+    return note;
+}
+
+/**
+ * Delete highlight (and its note) from cloud
+ */
+export async function deleteCloudHighlight(id: string): Promise<void> {
+    let deletedInCloud = false;
+
+    if (!(await shouldQueue())) {
+        try {
+            await api.highlights.delete(id);
+            deletedInCloud = true;
+        } catch {
+            console.warn('Cloud delete failed');
+        }
+    }
+
+    if (!deletedInCloud) {
+        await enqueueMutation('highlights', 'delete', id);
+    }
+
+    // Always delete from the local store too
+    await deleteHighlight(id);
+}
+
+// ============================================
+// Unified Interface
+// ============================================
+
+export const cloudHighlights = {
+    getByDocument: getCloudHighlightsByDocument,
+    create: createCloudHighlight,
+    updateType: updateCloudHighlightType,
+    getNote: getCloudNote,
+    saveNote: saveCloudNote,
+    delete: deleteCloudHighlight,
+};
@@ -1,7 +1,22 @@
 // Cloud Storage for PDFs using Vercel Blob
-// Falls back to localStorage if Vercel Blob is not configured
+// PDFs imported while offline are kept in the local IndexedDB store until
+// they are offloaded
 
-import { v4 as uuidv4 } from 'uuid';
+import { uploadPart } from '@vercel/blob/client';
+import { savePdfBlob, getPdfBytes, deletePdfBlob } from './pdfStore';
+import { api, ApiError } from './api/client';
+import { shouldQueue } from './outbox';
+import { UploadResponse } from './api/schemas';
+
+// Called after each part with the bytes stored so far
+export type UploadProgress = (uploaded: number, total: number) => void;
+
+// In-progress upload IDs, so a later attempt at the same file resumes it
+const UPLOAD_KEY_PREFIX = 'coreader_upload:';
+
+// Retries per part before giving up; waits double from the first
+const PART_ATTEMPTS = 5;
+const FIRST_RETRY_MS = 1000;
 
 // ============================================
 // Storage Mode Detection
@@ -13,45 +28,116 @@ import { v4 as uuidv4 } from 'uuid';
 export function isCloudStorageAvailable(): boolean {
     // Cloud storage is available if we can make API calls
     // It will be configured on Vercel with BLOB_READ_WRITE_TOKEN
-    return true; // We always try cloud first, fallback to local on error
+    return true; // Online, PDFs always go to cloud; upload errors are reported
 }
 
 // ============================================
 // Cloud Storage (Vercel Blob)
 // ============================================
 
+function uploadKey(file: File, documentId: string): string {
+    return `${UPLOAD_KEY_PREFIX}${documentId}:${file.size}:${file.lastModified}`;
+}
+
 /**
- * Upload PDF to Vercel Blob
+ * Pick up an upload of this file left unfinished by an earlier attempt
  */
-export async function uploadPdfToCloud(file: File, documentId: string): Promise<string> {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('documentId', documentId);
-
-    const response = await fetch('/api/upload-pdf', {
-        method: 'POST',
-        body: formData,
-    });
+async function findUnfinishedUpload(key: string, file: File): Promise<UploadResponse | null> {
+    const uploadId = localStorage.getItem(key);
+    if (!uploadId) return null;
 
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to upload PDF');
+    try {
+        const upload = await api.uploads.get(uploadId);
+        if (upload.size === file.size) return upload;
+    } catch (error) {
+        // Expired or aborted; anything else means the server is unreachable
+        if (!(error instanceof ApiError)) throw error;
+    }
+    localStorage.removeItem(key);
+    return null;
+}
+
+/**
+ * Wait before retrying a part, or until the browser is back online
+ */
+function waitToRetry(attempt: number): Promise<void> {
+    if (!navigator.onLine) {
+        return new Promise(resolve => window.addEventListener('online', () => resolve(), { once: true }));
+    }
+    return new Promise(resolve => setTimeout(resolve, FIRST_RETRY_MS * 2 ** attempt));
+}
+
+/**
+ * Send one part: straight to Vercel Blob when the server hands out a token
+ * (parts there are too large to pass through the server), else to the server
+ */
+async function putPart(upload: UploadResponse, partNumber: number, data: Blob): Promise<void> {
+    if (!upload.direct) {
+        await api.uploads.putPart(upload.uploadId, partNumber, data);
+        return;
+    }
+
+    const { pathname, key, uploadId, token } = upload.direct;
+    const part = await uploadPart(pathname, data, { access: 'public', token, key, uploadId, partNumber });
+    await api.uploads.recordPart(upload.uploadId, partNumber, part.etag);
+}
+
+async function putPartWithRetry(upload: UploadResponse, partNumber: number, data: Blob): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            await putPart(upload, partNumber, data);
+            return;
+        } catch (error) {
+            // The server answered, so sending the same bytes again will not help
+            if (error instanceof ApiError && error.status < 500) throw error;
+            if (attempt + 1 >= PART_ATTEMPTS) throw error;
+            await waitToRetry(attempt);
+        }
+    }
+}
+
+/**
+ * Upload PDF in parts and return the URL it is served from. Parts that fail
+ * are retried; if the upload still fails, uploading the same file again
+ * resumes from the parts the server already has.
+ */
+export async function uploadPdfToCloud(
+    file: File,
+    documentId: string,
+    onProgress?: UploadProgress
+): Promise<string> {
+    const key = uploadKey(file, documentId);
+    const upload = (await findUnfinishedUpload(key, file)) || (await api.uploads.create(documentId, file.size));
+    localStorage.setItem(key, upload.uploadId);
+
+    const received = new Set(upload.receivedParts);
+    const partLength = (partNumber: number) =>
+        Math.min(upload.partSize, file.size - (partNumber - 1) * upload.partSize);
+    let uploaded = upload.receivedParts.reduce((sum, partNumber) => sum + partLength(partNumber), 0);
+    onProgress?.(uploaded, file.size);
+
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+        if (received.has(partNumber)) continue;
+
+        const start = (partNumber - 1) * upload.partSize;
+        await putPartWithRetry(upload, partNumber, file.slice(start, start + upload.partSize));
+        uploaded += partLength(partNumber);
+        onProgress?.(uploaded, file.size);
     }
 
-    const data = await response.json();
-    return data.url;
+    const { url } = await api.uploads.complete(upload.uploadId);
+    localStorage.removeItem(key);
+    return url;
 }
 
 /**
  * Delete PDF from Vercel Blob
  */
 export async function deletePdfFromCloud(url: string): Promise<void> {
-    const response = await fetch(`/api/upload-pdf?url=${encodeURIComponent(url)}`, {
-        method: 'DELETE',
-    });
-
-    if (!response.ok) {
-        console.error('Failed to delete PDF from cloud');
+    try {
+        await api.files.delete(url);
+    } catch (error) {
+        console.error('Failed to delete PDF from cloud:', error instanceof Error ? error.message : error);
     }
 }
 
@@ -59,69 +145,26 @@ export async function deletePdfFromCloud(url: string): Promise<void> {
 // Local Storage (Fallback)
 // ============================================
 
-const PDF_LOCAL_KEY = 'coreader_pdf_files';
-
 /**
- * Store PDF locally as base64
+ * Store PDF locally in IndexedDB
  */
 export async function storePdfLocally(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-        // Check file size (5MB limit for localStorage)
-        const MAX_SIZE = 5 * 1024 * 1024;
-        if (file.size > MAX_SIZE) {
-            reject(new Error(`PDF too large for local storage. Maximum: 5MB`));
-            return;
-        }
-
-        const reader = new FileReader();
-
-        reader.onload = () => {
-            const base64 = reader.result as string;
-            const id = uuidv4();
-
-            try {
-                const pdfFiles = getLocalPdfFiles();
-                pdfFiles[id] = base64;
-                localStorage.setItem(PDF_LOCAL_KEY, JSON.stringify(pdfFiles));
-                resolve(`local:${id}`);
-            } catch (e) {
-                reject(new Error('Local storage full'));
-            }
-        };
-
-        reader.onerror = () => reject(new Error('Failed to read file'));
-        reader.readAsDataURL(file);
-    });
+    const id = await savePdfBlob(file);
+    return `local:${id}`;
 }
 
 /**
- * Get PDF data from local storage
+ * Get PDF bytes from local storage
  */
-export function getLocalPdfData(id: string): string | null {
-    const pdfFiles = getLocalPdfFiles();
-    return pdfFiles[id] || null;
+export async function getLocalPdfData(id: string): Promise<Uint8Array | null> {
+    return getPdfBytes(id);
 }
 
 /**
  * Delete PDF from local storage
  */
-export function deleteLocalPdf(id: string): void {
-    const pdfFiles = getLocalPdfFiles();
-    delete pdfFiles[id];
-    localStorage.setItem(PDF_LOCAL_KEY, JSON.stringify(pdfFiles));
-}
-
-function getLocalPdfFiles(): Record<string, string> {
-    if (typeof window === 'undefined') return {};
-
-    const stored = localStorage.getItem(PDF_LOCAL_KEY);
-    if (!stored) return {};
-
-    try {
-        return JSON.parse(stored);
-    } catch {
-        return {};
-    }
+export async function deleteLocalPdf(id: string): Promise<void> {
+    await deletePdfBlob(id);
 }
 
 // ============================================
@@ -129,40 +172,38 @@ function getLocalPdfFiles(): Record<string, string> {
 // ============================================
 
 /**
- * Store PDF - tries cloud first, falls back to local
+ * Store PDF - in cloud, or locally while writes are being queued (offline,
+ * or the document's create has not reached the server yet). Upload errors
+ * are thrown rather than hidden behind a local copy.
  */
-export async function storePdf(file: File, documentId: string): Promise<string> {
-    try {
-        // Try cloud storage first
-        const url = await uploadPdfToCloud(file, documentId);
-        return url;
-    } catch (cloudError: any) {
-        console.warn('Cloud upload failed, trying local:', cloudError.message);
-
-        // Fallback to local storage
-        try {
-            const localUrl = await storePdfLocally(file);
-            return localUrl;
-        } catch (localError: any) {
-            throw new Error(`Failed to store PDF: ${localError.message}`);
-        }
+export async function storePdf(file: File, documentId: string, onProgress?: UploadProgress): Promise<string> {
+    if (await shouldQueue()) {
+        return storePdfLocally(file);
     }
+    return uploadPdfToCloud(file, documentId, onProgress);
 }
 
 /**
- * Get PDF data URL - handles both cloud and local URLs
+ * Load PDF bytes - handles both cloud and local URLs
  */
-export async function getPdfUrl(storedUrl: string): Promise<string> {
+export async function loadPdfBytes(storedUrl: string): Promise<Uint8Array> {
     if (storedUrl.startsWith('local:')) {
-        // Local storage - return base64 data
         const id = storedUrl.replace('local:', '');
-        const data = getLocalPdfData(id);
+        const data = await getLocalPdfData(id);
         if (!data) throw new Error('PDF not found in local storage');
         return data;
-    } else {
-        // Cloud storage - return URL directly
-        return storedUrl;
     }
+
+    // Cloud PDFs are served by the authenticated file proxy
+    const response = await fetch(storedUrl, {
+        credentials: 'same-origin',
+    });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: Failed to fetch PDF`);
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
 }
 
 /**
@@ -171,7 +212,7 @@ export async function getPdfUrl(storedUrl: string): Promise<string> {
 export async function deletePdf(storedUrl: string): Promise<void> {
     if (storedUrl.startsWith('local:')) {
         const id = storedUrl.replace('local:', '');
-        deleteLocalPdf(id);
+        await deleteLocalPdf(id);
     } else {
         await deletePdfFromCloud(storedUrl);
     }
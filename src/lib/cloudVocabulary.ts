@@ -0,0 +1,197 @@
+// Cloud Vocabulary Storage using Vercel Postgres
+// Falls back to the local vocabulary store if database is not configured,
+// queueing the change in the sync outbox
+
+import { VocabularyEntry } from './types';
+import {
+    getAllVocabulary,
+    getVocabularyByDocument,
+    getVocabularyById,
+    createVocabularyEntry,
+    saveVocabularyEntry,
+    updateVocabularyEntry,
+    deleteVocabularyEntry,
+    searchVocabulary,
+    exportVocabularyAsCsv,
+} from './vocabulary';
+import { enqueueMutation, pickSyncFields, shouldQueue } from './outbox';
+import { VocabularyQuery, VocabularyRow } from './api/schemas';
+import { api } from './api/client';
+
+export type { VocabularyRow } from './api/schemas';
+
+export function rowToEntry(row: VocabularyRow): VocabularyEntry {
+    return {
+        id: row.id,
+        word: row.word,
+        contextSentence: row.context_sentence || '',
+        documentId: row.document_id || '',
+        userNote: row.user_note || undefined,
+        definition: row.definition || undefined,
+        createdAt: new Date(row.created_at),
+        updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    };
+}
+
+async function fetchRows(query: Omit<VocabularyQuery, 'id'> = {}): Promise<VocabularyEntry[]> {
+    const rows = await api.vocabulary.list(query);
+
+    // Keep a local copy for offline access
+    return Promise.all(rows.map(row => saveVocabularyEntry(rowToEntry(row))));
+}
+
+// ============================================
+// Cloud Storage (Vercel Postgres via API)
+// ============================================
+
+/**
+ * Get all vocabulary entries from cloud
+ */
+export async function getCloudVocabulary(): Promise<VocabularyEntry[]> {
+    if (await shouldQueue()) return getAllVocabulary();
+
+    try {
+        return await fetchRows();
+    } catch {
+        console.warn('Cloud fetch failed, falling back to local store');
+        return getAllVocabulary();
+    }
+}
+
+/**
+ * Get vocabulary entries for a document from cloud
+ */
+export async function getCloudVocabularyByDocument(documentId: string): Promise<VocabularyEntry[]> {
+    if (await shouldQueue()) return getVocabularyByDocument(documentId);
+
+    try {
+        return await fetchRows({ documentId });
+    } catch {
+        console.warn('Cloud fetch failed, falling back to local store');
+        return getVocabularyByDocument(documentId);
+    }
+}
+
+/**
+ * Search vocabulary entries in cloud
+ */
+export async function searchCloudVocabulary(query: string): Promise<VocabularyEntry[]> {
+    if (!query.trim()) return [];
+    if (await shouldQueue()) return searchVocabulary(query);
+
+    try {
+        return await fetchRows({ q: query.trim() });
+    } catch {
+        console.warn('Cloud search failed, falling back to local store');
+        return searchVocabulary(query);
+    }
+}
+
+/**
+ * Create vocabulary entry in cloud
+ */
+export async function createCloudVocabularyEntry(
+    word: string,
+    contextSentence: string,
+    documentId: string,
+    userNote?: string,
+    definition?: string
+): Promise<VocabularyEntry> {
+    if (!(await shouldQueue())) {
+        try {
+            const row = await api.vocabulary.create({ word, contextSentence, documentId, userNote, definition });
+
+            // Also save locally for offline access
+            return saveVocabularyEntry(rowToEntry(row));
+        } catch (error) {
+            console.warn('Cloud create failed, falling back to local store:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    const created = await createVocabularyEntry(word, contextSentence, documentId, userNote);
+    const entry = definition ? (await updateVocabularyEntry(created.id, { definition })) || created : created;
+    await enqueueMutation('vocabulary', 'upsert', entry.id, {
+        ...pickSyncFields('vocabulary', entry),
+        createdAt: entry.createdAt.toISOString(),
+    });
+    return entry;
+}
+
+/**
+ * Update vocabulary entry definition or note in cloud
+ */
+export async function updateCloudVocabularyEntry(
+    id: string,
+    updates: Partial<Pick<VocabularyEntry, 'userNote' | 'definition'>>
+): Promise<VocabularyEntry | null> {
+    if (!(await shouldQueue())) {
+        try {
+            await api.vocabulary.update({ id, ...updates });
+            return updateVocabularyEntry(id, updates);
+        } catch {
+            console.warn('Cloud update failed, updating local store only');
+        }
+    }
+
+    const previous = await getVocabularyById(id);
+    const entry = await updateVocabularyEntry(id, updates);
+    if (entry) {
+        await enqueueMutation(
+            'vocabulary',
+            'upsert',
+            id,
+            updates,
+            previous ? pickSyncFields('vocabulary', previous) : undefined
+        );
+    }
+    return entry;
+}
+
+/**
+ * Delete vocabulary entry from cloud
+ */
+export async function deleteCloudVocabularyEntry(id: string): Promise<void> {
+    let deletedInCloud = false;
+
+    if (!(await shouldQueue())) {
+        try {
+            await api.vocabulary.delete(id);
+            deletedInCloud = true;
+        } catch {
+            console.warn('Cloud delete failed');
+        }
+    }
+
+    if (!deletedInCloud) {
+        await enqueueMutation('vocabulary', 'delete', id);
+    }
+
+    // Always delete from the local store too
+    await deleteVocabularyEntry(id);
+}
+
+/**
+ * Export vocabulary as CSV from cloud
+ */
+export async function exportCloudVocabularyAsCsv(): Promise<string> {
+    try {
+        return await api.vocabulary.exportCsv();
+    } catch {
+        console.warn('Cloud export failed, exporting local store');
+        return exportVocabularyAsCsv();
+    }
+}
+
+// ============================================
+// Unified Interface
+// ============================================
+
+export const cloudVocabulary = {
+    getAll: getCloudVocabulary,
+    getByDocument: getCloudVocabularyByDocument,
+    search: searchCloudVocabulary,
+    create: createCloudVocabularyEntry,
+    update: updateCloudVocabularyEntry,
+    delete: deleteCloudVocabularyEntry,
+    exportCsv: exportCloudVocabularyAsCsv,
+};
@@ -0,0 +1,74 @@
+// Database Client
+// One tagged-template `sql` for every server module, backed by the configured
+// driver:
+//   DATABASE_DRIVER = postgres (default, Vercel Postgres) | sqlite
+//   SQLITE_PATH     = database file for the sqlite driver (default ./data/coreader.db)
+// Queries must stay portable: the sqlite driver provides NOW() and stores
+// timestamps as ISO strings and JSON columns as text.
+
+import { db, sql as postgresSql } from '@vercel/postgres';
+import type { QueryResultRow } from '@vercel/postgres';
+import { querySqlite } from './sqlite';
+
+export type DatabaseDriver = 'postgres' | 'sqlite';
+
+export type SqlValue = string | number | boolean | null | undefined;
+
+export interface SqlResult<T extends QueryResultRow = QueryResultRow> {
+    rows: T[];
+}
+
+/**
+ * Get the configured database driver
+ */
+export function getDatabaseDriver(): DatabaseDriver {
+    return process.env.DATABASE_DRIVER === 'sqlite' ? 'sqlite' : 'postgres';
+}
+
+/**
+ * Run a parameterized query: sql`SELECT * FROM documents WHERE id = ${id}`
+ */
+export async function sql<T extends QueryResultRow = QueryResultRow>(
+    strings: TemplateStringsArray,
+    ...values: SqlValue[]
+): Promise<SqlResult<T>> {
+    if (getDatabaseDriver() === 'sqlite') {
+        return { rows: (await querySqlite(strings, values)) as T[] };
+    }
+    const result = await postgresSql<T>(strings, ...values);
+    return { rows: result.rows };
+}
+
+/**
+ * A single connection, for work that must share one session: transactions
+ * and advisory locks. Release it when done.
+ */
+export interface SqlConnection {
+    sql<T extends QueryResultRow = QueryResultRow>(strings: TemplateStringsArray, ...values: SqlValue[]): Promise<SqlResult<T>>;
+    release(): void;
+}
+
+/**
+ * Check out a connection. SQLite has only the one, shared by every query.
+ */
+export async function connect(): Promise<SqlConnection> {
+    if (getDatabaseDriver() === 'sqlite') {
+        return { sql, release: () => {} };
+    }
+
+    const client = await db.connect();
+    return {
+        async sql<T extends QueryResultRow = QueryResultRow>(strings: TemplateStringsArray, ...values: SqlValue[]) {
+            const result = await client.sql<T>(strings, ...values);
+            return { rows: result.rows };
+        },
+        release: () => client.release(),
+    };
+}
+
+/**
+ * Read a JSON column: Postgres returns JSONB parsed, SQLite returns the text
+ */
+export function parseJsonColumn<T>(value: T | string | null): T | null {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+}
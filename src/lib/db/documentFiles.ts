@@ -0,0 +1,58 @@
+// Document Files
+// Links stored PDFs to documents. The disk driver shares one file between
+// identical uploads, so a file is only deleted once no live document points at
+// it. Deleted documents let go of their file, so tombstones never hold one.
+
+import { sql } from './client';
+import { saveDocumentPages } from './pages';
+import { getFileStorage } from '../fileStorage';
+import { extractPdfText } from '../pdfText';
+
+/**
+ * Delete a stored file once no live document points at it any more
+ */
+export async function releaseFile(key: string): Promise<void> {
+    const result = await sql`SELECT 1 FROM documents WHERE file_key = ${key} AND deleted_at IS NULL LIMIT 1`;
+    if (result.rows.length === 0) {
+        await getFileStorage().delete(key);
+    }
+}
+
+/**
+ * Point a document at a newly stored file, releasing the one it replaces
+ */
+export async function attachDocumentFile(documentId: string, key: string, previousKey: string | null): Promise<void> {
+    await sql`UPDATE documents SET file_key = ${key} WHERE id = ${documentId}`;
+    if (previousKey && previousKey !== key) {
+        await releaseFile(previousKey);
+    }
+}
+
+/**
+ * Unlink a deleted document from its file, releasing the file
+ */
+export async function detachDocumentFile(userId: string, documentId: string): Promise<void> {
+    const result = await sql`
+        SELECT file_key FROM documents
+        WHERE id = ${documentId} AND user_id = ${userId} AND deleted_at IS NOT NULL
+    `;
+    const key = result.rows[0]?.file_key;
+    if (!key) return;
+
+    await sql`UPDATE documents SET file_key = NULL WHERE id = ${documentId}`;
+    await releaseFile(key);
+}
+
+/**
+ * Extract a stored PDF's text into document_pages for search. Failures only
+ * cost search coverage, so they are logged rather than surfaced.
+ */
+export async function indexDocumentFile(documentId: string, key: string): Promise<void> {
+    try {
+        const stream = await getFileStorage().read(key);
+        const data = new Uint8Array(await new Response(stream).arrayBuffer());
+        await saveDocumentPages(documentId, await extractPdfText(data));
+    } catch (error) {
+        console.error('PDF text extraction error:', error);
+    }
+}
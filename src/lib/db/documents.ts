@@ -0,0 +1,297 @@
+// Documents Data Access
+// Every query is scoped to the owning user and skips soft-deleted rows.
+// Rows are returned in the shape the client's DocumentRow expects.
+
+import { parseJsonColumn, sql } from './client';
+import { detachDocumentFile } from './documentFiles';
+import type { DocumentMetadata, DocumentSort } from '@/lib/api/schemas';
+
+export interface DocumentRecord {
+    id: string;
+    title: string;
+    source_type: string;
+    source_path: string;
+    content_hash: string | null;
+    authors: string[] | null;
+    published_date: string | null;
+    page_count: number | null;
+    word_count: number | null;
+    tags: string[] | null;
+    description: string | null;
+    created_at: string;
+    updated_at: string | null;
+    last_opened_at: string | null;
+}
+
+// authors and tags come back parsed from Postgres JSONB but as text from SQLite
+type StoredDocument = Omit<DocumentRecord, 'authors' | 'tags'> & {
+    authors: string | string[] | null;
+    tags: string | string[] | null;
+};
+
+export interface NewDocument {
+    id: string;
+    title: string;
+    sourceType: string;
+    sourcePath: string;
+    contentHash?: string;
+}
+
+export interface DocumentUpdates extends DocumentMetadata {
+    title?: string;
+    sourcePath?: string;
+}
+
+export interface DocumentListOptions {
+    sort: DocumentSort;
+    sourceType?: string;
+    query?: string; // matches anywhere in the title, case-insensitively
+    cursor?: DocumentCursor;
+    limit: number;
+}
+
+export interface DocumentPage {
+    documents: DocumentRecord[];
+    nextCursor: string | null;
+}
+
+// Position after the last row of a page: its sort key plus its ID as a tie-breaker
+export interface DocumentCursor {
+    key: string;
+    id: string;
+}
+
+// Starting positions that sort before every row
+const DESCENDING_START: DocumentCursor = { key: '9999-12-31T23:59:59.999Z', id: '~' };
+const ASCENDING_START: DocumentCursor = { key: '', id: '' };
+
+/**
+ * Encode a cursor for the nextCursor response field
+ */
+export function encodeCursor(cursor: DocumentCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a request, or null if it is malformed
+ */
+export function decodeCursor(value: string): DocumentCursor | null {
+    try {
+        const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+        return typeof cursor?.key === 'string' && typeof cursor?.id === 'string' ? cursor : null;
+    } catch {
+        return null;
+    }
+}
+
+// sort_key is read as text: a Date would cut Postgres microseconds to
+// milliseconds and the cursor would skip or repeat rows at the boundary
+type SortedRow = StoredDocument & { sort_key: string };
+
+function withoutSortKey(row: SortedRow): StoredDocument {
+    const document: Partial<SortedRow> = { ...row };
+    delete document.sort_key;
+    return document as StoredDocument;
+}
+
+function toRecord(row: StoredDocument): DocumentRecord {
+    return { ...row, authors: parseJsonColumn(row.authors), tags: parseJsonColumn(row.tags) };
+}
+
+/**
+ * List one page of a user's documents (keyset pagination)
+ */
+export async function listDocumentPage(userId: string, options: DocumentListOptions): Promise<DocumentPage> {
+    const { sort, limit } = options;
+    const sourceType = options.sourceType || null;
+    const pattern = options.query ? `%${options.query.toLowerCase()}%` : null;
+    // Fetch one extra row to learn whether another page follows
+    const take = limit + 1;
+
+    let rows: SortedRow[];
+    if (sort === 'title') {
+        const after = options.cursor || ASCENDING_START;
+        const result = await sql<SortedRow>`
+            SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+                   tags, description, created_at, updated_at, last_opened_at,
+                   LOWER(title) AS sort_key
+            FROM documents
+            WHERE user_id = ${userId} AND deleted_at IS NULL
+              AND source_type = COALESCE(${sourceType}, source_type)
+              AND LOWER(title) LIKE COALESCE(${pattern}, LOWER(title))
+              AND (LOWER(title) > ${after.key} OR (LOWER(title) = ${after.key} AND id > ${after.id}))
+            ORDER BY LOWER(title) ASC, id ASC
+            LIMIT ${take}
+        `;
+        rows = result.rows;
+    } else if (sort === 'opened') {
+        // Never-opened documents rank by when they were added
+        const after = options.cursor || DESCENDING_START;
+        const result = await sql<SortedRow>`
+            SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+                   tags, description, created_at, updated_at, last_opened_at,
+                   CAST(COALESCE(last_opened_at, created_at) AS TEXT) AS sort_key
+            FROM documents
+            WHERE user_id = ${userId} AND deleted_at IS NULL
+              AND source_type = COALESCE(${sourceType}, source_type)
+              AND LOWER(title) LIKE COALESCE(${pattern}, LOWER(title))
+              AND (COALESCE(last_opened_at, created_at) < ${after.key}
+                OR (COALESCE(last_opened_at, created_at) = ${after.key} AND id < ${after.id}))
+            ORDER BY COALESCE(last_opened_at, created_at) DESC, id DESC
+            LIMIT ${take}
+        `;
+        rows = result.rows;
+    } else {
+        const after = options.cursor || DESCENDING_START;
+        const result = await sql<SortedRow>`
+            SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+                   tags, description, created_at, updated_at, last_opened_at,
+                   CAST(created_at AS TEXT) AS sort_key
+            FROM documents
+            WHERE user_id = ${userId} AND deleted_at IS NULL
+              AND source_type = COALESCE(${sourceType}, source_type)
+              AND LOWER(title) LIKE COALESCE(${pattern}, LOWER(title))
+              AND (created_at < ${after.key} OR (created_at = ${after.key} AND id < ${after.id}))
+            ORDER BY created_at DESC, id DESC
+            LIMIT ${take}
+        `;
+        rows = result.rows;
+    }
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > limit && last
+        ? encodeCursor({ key: last.sort_key, id: last.id })
+        : null;
+
+    return {
+        documents: page.map(row => toRecord(withoutSortKey(row))),
+        nextCursor,
+    };
+}
+
+/**
+ * Get one of a user's documents
+ */
+export async function getDocument(userId: string, id: string): Promise<DocumentRecord | null> {
+    const result = await sql<StoredDocument>`
+        SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+               tags, description, created_at, updated_at, last_opened_at
+        FROM documents
+        WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+    `;
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+}
+
+/**
+ * Get the document a user imported from a file with this content hash
+ */
+export async function findDocumentByHash(userId: string, contentHash: string): Promise<DocumentRecord | null> {
+    const result = await sql<StoredDocument>`
+        SELECT id, title, source_type, source_path, content_hash, authors, published_date, page_count, word_count,
+               tags, description, created_at, updated_at, last_opened_at
+        FROM documents
+        WHERE user_id = ${userId} AND content_hash = ${contentHash} AND deleted_at IS NULL
+        ORDER BY created_at ASC
+        LIMIT 1
+    `;
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+}
+
+/**
+ * Create a document owned by a user
+ */
+export async function createDocument(userId: string, document: NewDocument): Promise<DocumentRecord> {
+    await sql`
+        INSERT INTO documents (id, user_id, title, source_type, source_path, content_hash)
+        VALUES (
+            ${document.id}, ${userId}, ${document.title}, ${document.sourceType}, ${document.sourcePath},
+            ${document.contentHash || null}
+        )
+    `;
+
+    const created = await getDocument(userId, document.id);
+    if (!created) throw new Error('Failed to create document');
+    return created;
+}
+
+/**
+ * Update a user's document, returning null if it does not exist
+ */
+export async function updateDocument(
+    userId: string,
+    id: string,
+    updates: DocumentUpdates
+): Promise<DocumentRecord | null> {
+    if (updates.title) {
+        await sql`UPDATE documents SET title = ${updates.title} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.sourcePath) {
+        await sql`UPDATE documents SET source_path = ${updates.sourcePath} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    // Metadata fields are only touched when present; null clears them
+    if (updates.authors !== undefined) {
+        await sql`UPDATE documents SET authors = ${JSON.stringify(updates.authors)} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.publishedDate !== undefined) {
+        await sql`UPDATE documents SET published_date = ${updates.publishedDate} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.pageCount !== undefined) {
+        await sql`UPDATE documents SET page_count = ${updates.pageCount} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.wordCount !== undefined) {
+        await sql`UPDATE documents SET word_count = ${updates.wordCount} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.tags !== undefined) {
+        await sql`UPDATE documents SET tags = ${JSON.stringify(updates.tags)} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    if (updates.description !== undefined) {
+        await sql`UPDATE documents SET description = ${updates.description || null} WHERE id = ${id} AND user_id = ${userId}`;
+    }
+
+    await sql`UPDATE documents SET updated_at = NOW(), changed_at = NOW() WHERE id = ${id} AND user_id = ${userId}`;
+
+    return getDocument(userId, id);
+}
+
+/**
+ * Record that a user opened a document. Only moves the pull cursor, so it
+ * never wins a last-writer-wins merge against a real edit.
+ */
+export async function markDocumentOpened(userId: string, id: string): Promise<boolean> {
+    await sql`
+        UPDATE documents SET last_opened_at = NOW(), changed_at = NOW()
+        WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+    `;
+    return (await getDocument(userId, id)) !== null;
+}
+
+/**
+ * Soft delete a user's document with its highlights and vocabulary, so the
+ * tombstones reach other devices on their next sync. The PDF is released.
+ */
+export async function deleteDocument(userId: string, id: string): Promise<void> {
+    await sql`
+        UPDATE documents
+        SET deleted_at = NOW(), updated_at = NOW(), changed_at = NOW()
+        WHERE id = ${id} AND user_id = ${userId}
+    `;
+    await detachDocumentFile(userId, id);
+    await sql`
+        UPDATE highlights
+        SET deleted_at = NOW(), updated_at = NOW(), changed_at = NOW()
+        WHERE document_id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+    `;
+    await sql`
+        UPDATE vocabulary
+        SET deleted_at = NOW(), updated_at = NOW(), changed_at = NOW()
+        WHERE document_id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+    `;
+}
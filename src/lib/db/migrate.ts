@@ -0,0 +1,146 @@
+// Database Migration Runner
+// Applies numbered migrations in order and records them in schema_migrations
+
+import { Migration, MIGRATIONS } from './migrations';
+import { connect, getDatabaseDriver, SqlConnection } from './client';
+import { getSqliteMigrations, runSqliteMigrations } from './sqlite';
+import { SQLITE_MIGRATIONS } from './sqliteMigrations';
+
+// Arbitrary constant so concurrent runners serialize on the same advisory lock
+const MIGRATION_LOCK_ID = 74_201_001;
+
+export interface AppliedMigration {
+    id: number;
+    name: string;
+    appliedAt: string;
+}
+
+export interface PendingMigration {
+    id: number;
+    name: string;
+}
+
+export interface MigrationStatus {
+    applied: AppliedMigration[];
+    pending: PendingMigration[];
+}
+
+async function ensureMigrationsTable(client: SqlConnection): Promise<void> {
+    await client.sql`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            id INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMP DEFAULT NOW()
+        )
+    `;
+}
+
+async function readStatus(client: SqlConnection): Promise<MigrationStatus> {
+    const result = await client.sql`
+        SELECT id, name, applied_at FROM schema_migrations ORDER BY id ASC
+    `;
+
+    const applied: AppliedMigration[] = result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        appliedAt: new Date(row.applied_at).toISOString(),
+    }));
+    const appliedIds = new Set(applied.map(m => m.id));
+
+    const pending = MIGRATIONS
+        .filter(m => !appliedIds.has(m.id))
+        .map(({ id, name }) => ({ id, name }));
+
+    return { applied, pending };
+}
+
+async function readSqliteStatus(): Promise<MigrationStatus> {
+    const applied = await getSqliteMigrations();
+    const appliedIds = new Set(applied.map(m => m.id));
+
+    const pending = SQLITE_MIGRATIONS
+        .filter(m => !appliedIds.has(m.id))
+        .map(({ id, name }) => ({ id, name }));
+
+    return { applied, pending };
+}
+
+async function recordMigration(client: SqlConnection, migration: Migration): Promise<void> {
+    await client.sql`
+        INSERT INTO schema_migrations (id, name)
+        VALUES (${migration.id}, ${migration.name})
+    `;
+}
+
+function migrationError(migration: Migration, error: unknown): Error {
+    const message = error instanceof Error ? error.message : String(error);
+    return new Error(`Migration ${migration.id} (${migration.name}) failed: ${message}`);
+}
+
+/**
+ * Get applied and pending migrations
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+    if (getDatabaseDriver() === 'sqlite') return readSqliteStatus();
+
+    const client = await connect();
+    try {
+        await ensureMigrationsTable(client);
+        return await readStatus(client);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Apply every pending migration, each in its own transaction followed by
+ * its external step. Safe to call repeatedly and concurrently.
+ */
+export async function runMigrations(): Promise<{ ran: PendingMigration[]; status: MigrationStatus }> {
+    if (getDatabaseDriver() === 'sqlite') {
+        const ran = await runSqliteMigrations();
+        return { ran, status: await readSqliteStatus() };
+    }
+
+    const client = await connect();
+    const ran: PendingMigration[] = [];
+
+    try {
+        await client.sql`SELECT pg_advisory_lock(${MIGRATION_LOCK_ID})`;
+        await ensureMigrationsTable(client);
+
+        const { pending } = await readStatus(client);
+        const sorted = MIGRATIONS
+            .filter(m => pending.some(p => p.id === m.id))
+            .sort((a, b) => a.id - b.id);
+
+        for (const migration of sorted) {
+            await client.sql`BEGIN`;
+            try {
+                await migration.up?.(client);
+                if (!migration.external) await recordMigration(client, migration);
+                await client.sql`COMMIT`;
+            } catch (error) {
+                await client.sql`ROLLBACK`;
+                throw migrationError(migration, error);
+            }
+
+            // Left pending on failure, so the next run tries again
+            if (migration.external) {
+                try {
+                    await migration.external(client);
+                } catch (error) {
+                    throw migrationError(migration, error);
+                }
+                await recordMigration(client, migration);
+            }
+
+            ran.push({ id: migration.id, name: migration.name });
+        }
+
+        return { ran, status: await readStatus(client) };
+    } finally {
+        await client.sql`SELECT pg_advisory_unlock(${MIGRATION_LOCK_ID})`.catch(() => undefined);
+        client.release();
+    }
+}
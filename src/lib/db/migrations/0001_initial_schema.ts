@@ -0,0 +1,49 @@
+// Initial schema: the tables previously created by /api/setup-db.
+// Uses IF NOT EXISTS so deployments that already ran setup-db adopt it cleanly.
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 1,
+    name: 'initial_schema',
+    async up(client) {
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS documents (
+                id TEXT PRIMARY KEY,
+                title TEXT NOT NULL,
+                source_type TEXT NOT NULL,
+                source_path TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT NOW()
+            )
+        `;
+
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS highlights (
+                id TEXT PRIMARY KEY,
+                document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+                type TEXT NOT NULL,
+                text TEXT NOT NULL,
+                anchor JSONB NOT NULL,
+                note TEXT,
+                created_at TIMESTAMP DEFAULT NOW()
+            )
+        `;
+
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS vocabulary (
+                id TEXT PRIMARY KEY,
+                word TEXT NOT NULL,
+                definition TEXT,
+                context_sentence TEXT,
+                document_id TEXT REFERENCES documents(id) ON DELETE SET NULL,
+                user_note TEXT,
+                created_at TIMESTAMP DEFAULT NOW()
+            )
+        `;
+
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_highlights_document ON highlights(document_id)`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_vocabulary_document ON vocabulary(document_id)`;
+    },
+};
+
+export default migration;
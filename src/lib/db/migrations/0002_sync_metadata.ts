@@ -0,0 +1,31 @@
+// Sync metadata for offline-first clients.
+//   updated_at  - last-writer-wins clock (client timestamp of the winning write)
+//   deleted_at  - tombstone, rows are soft-deleted so deletions reach other devices
+//   changed_at  - server time of the last write, used as the pull cursor
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 2,
+    name: 'sync_metadata',
+    async up(client) {
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW()`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS changed_at TIMESTAMP DEFAULT NOW()`;
+
+        await client.sql`ALTER TABLE highlights ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW()`;
+        await client.sql`ALTER TABLE highlights ADD COLUMN IF NOT EXISTS note_updated_at TIMESTAMP`;
+        await client.sql`ALTER TABLE highlights ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`;
+        await client.sql`ALTER TABLE highlights ADD COLUMN IF NOT EXISTS changed_at TIMESTAMP DEFAULT NOW()`;
+
+        await client.sql`ALTER TABLE vocabulary ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW()`;
+        await client.sql`ALTER TABLE vocabulary ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`;
+        await client.sql`ALTER TABLE vocabulary ADD COLUMN IF NOT EXISTS changed_at TIMESTAMP DEFAULT NOW()`;
+
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_documents_changed ON documents(changed_at)`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_highlights_changed ON highlights(changed_at)`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_vocabulary_changed ON vocabulary(changed_at)`;
+    },
+};
+
+export default migration;
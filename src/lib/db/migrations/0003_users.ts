@@ -0,0 +1,43 @@
+// User accounts and per-user ownership.
+//   users     - email/password accounts (scrypt hashes)
+//   sessions  - server-side sessions keyed by a hash of the cookie token
+//   user_id   - owner of each document, highlight and vocabulary row.
+//               Rows created before accounts existed have no owner until the
+//               first account is created, which claims them.
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 3,
+    name: 'users',
+    async up(client) {
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS users (
+                id TEXT PRIMARY KEY,
+                email TEXT NOT NULL UNIQUE,
+                password_hash TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT NOW()
+            )
+        `;
+
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                created_at TIMESTAMP DEFAULT NOW(),
+                expires_at TIMESTAMP NOT NULL
+            )
+        `;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)`;
+
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id) ON DELETE CASCADE`;
+        await client.sql`ALTER TABLE highlights ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id) ON DELETE CASCADE`;
+        await client.sql`ALTER TABLE vocabulary ADD COLUMN IF NOT EXISTS user_id TEXT REFERENCES users(id) ON DELETE CASCADE`;
+
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_documents_user ON documents(user_id)`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_highlights_user ON highlights(user_id)`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_vocabulary_user ON vocabulary(user_id)`;
+    },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+// Private PDF storage.
+//   file_url - where the PDF bytes actually live. It never leaves the server;
+//              clients read PDFs through /api/documents/<id>/file instead.
+// Existing cloud PDFs are repointed at the proxy. Their blobs are moved off
+// their old public URLs by 0011.
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 4,
+    name: 'private_files',
+    async up(client) {
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS file_url TEXT`;
+
+        await client.sql`
+            UPDATE documents
+            SET file_url = source_path,
+                source_path = '/api/documents/' || id || '/file',
+                changed_at = NOW()
+            WHERE source_type = 'pdf' AND source_path LIKE 'http%' AND file_url IS NULL
+        `;
+    },
+};
+
+export default migration;
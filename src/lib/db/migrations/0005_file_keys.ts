@@ -0,0 +1,16 @@
+// Pluggable file storage.
+//   file_key - replaces file_url: an opaque key for the configured storage
+//              driver (a Vercel Blob URL, or a content hash for the disk driver)
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 5,
+    name: 'file_keys',
+    async up(client) {
+        await client.sql`ALTER TABLE documents RENAME COLUMN file_url TO file_key`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_documents_file_key ON documents(file_key)`;
+    },
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+// Duplicate detection for imported PDFs.
+//   content_hash - SHA-256 (hex) of the PDF bytes, computed by the client
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 6,
+    name: 'content_hash',
+    async up(client) {
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_documents_user_hash ON documents(user_id, content_hash)`;
+    },
+};
+
+export default migration;
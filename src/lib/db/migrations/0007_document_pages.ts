@@ -0,0 +1,30 @@
+// Full-text search over PDF contents.
+//   document_pages - text of each PDF page, extracted on the server after upload
+//   page_count, pdf_title, pdf_author - document info read from the PDF itself
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 7,
+    name: 'document_pages',
+    async up(client) {
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS document_pages (
+                document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+                page_number INTEGER NOT NULL,
+                text TEXT NOT NULL,
+                PRIMARY KEY (document_id, page_number)
+            )
+        `;
+        await client.sql`
+            CREATE INDEX IF NOT EXISTS idx_document_pages_search
+            ON document_pages USING GIN (to_tsvector('english', text))
+        `;
+
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS page_count INTEGER`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS pdf_title TEXT`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS pdf_author TEXT`;
+    },
+};
+
+export default migration;
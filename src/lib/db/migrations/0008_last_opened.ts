@@ -0,0 +1,16 @@
+// Recently opened documents.
+//   last_opened_at - when the owner last opened the document in the reader.
+//                    Not part of the last-writer-wins clock (updated_at).
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 8,
+    name: 'last_opened',
+    async up(client) {
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS last_opened_at TIMESTAMP`;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_documents_user_created ON documents(user_id, created_at)`;
+    },
+};
+
+export default migration;
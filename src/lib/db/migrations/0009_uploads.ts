@@ -0,0 +1,38 @@
+// Multipart uploads for large PDFs.
+//   uploads      - one in-progress upload per row; handle is the storage
+//                  driver's own reference to the staged parts
+//   upload_parts - parts received so far, so a client can resume after a
+//                  dropped connection
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 9,
+    name: 'uploads',
+    async up(client) {
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS uploads (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+                size BIGINT NOT NULL,
+                part_size INTEGER NOT NULL,
+                handle TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT NOW()
+            )
+        `;
+        await client.sql`CREATE INDEX IF NOT EXISTS idx_uploads_user ON uploads(user_id, created_at)`;
+
+        await client.sql`
+            CREATE TABLE IF NOT EXISTS upload_parts (
+                upload_id TEXT NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+                part_number INTEGER NOT NULL,
+                size INTEGER NOT NULL,
+                etag TEXT NOT NULL,
+                PRIMARY KEY (upload_id, part_number)
+            )
+        `;
+    },
+};
+
+export default migration;
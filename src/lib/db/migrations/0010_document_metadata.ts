@@ -0,0 +1,28 @@
+// Document details shown on library cards and edited by the owner.
+//   authors, tags   - JSONB arrays of strings
+//   published_date  - YYYY-MM-DD, from the article or set by hand
+//   word_count      - counted from the extracted PDF text or article body
+//   description     - the owner's own summary
+// page_count already exists (0007) and is filled in on upload.
+
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 10,
+    name: 'document_metadata',
+    async up(client) {
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS authors JSONB`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS published_date TEXT`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS word_count INTEGER`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS tags JSONB`;
+        await client.sql`ALTER TABLE documents ADD COLUMN IF NOT EXISTS description TEXT`;
+
+        // PDFs uploaded before now keep the author found in their metadata
+        await client.sql`
+            UPDATE documents SET authors = jsonb_build_array(pdf_author)
+            WHERE authors IS NULL AND pdf_author IS NOT NULL AND pdf_author <> ''
+        `;
+    },
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+// Unguessable names for PDFs uploaded before 0004.
+// Those blobs were stored at pdfs/<document id>.pdf without a random suffix,
+// so anyone who knew or guessed a document ID could read them. Vercel Blob
+// has no private blobs: each one is copied to a random-suffixed name (as new
+// uploads get), every document pointing at it is repointed, and the original
+// is deleted. The copy is still public to whoever holds its URL, but that
+// URL never leaves the server; clients read PDFs through the file proxy.
+// Blob work cannot be rolled back, so it runs as an external step, one blob
+// at a time: a rerun picks up the rows not yet moved.
+// Data only: SQLite installs never had these blobs.
+
+import { BlobNotFoundError, copy, del } from '@vercel/blob';
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 11,
+    name: 'private_legacy_blobs',
+    async external(client) {
+        const legacy = await client.sql`
+            SELECT file_key, id, user_id FROM documents
+            WHERE file_key LIKE 'http%/pdfs/' || id || '.pdf'
+        `;
+
+        for (const row of legacy.rows) {
+            const folder = row.user_id ? `pdfs/${row.user_id}` : 'pdfs';
+            let blob;
+            try {
+                blob = await copy(row.file_key, `${folder}/${row.id}.pdf`, {
+                    access: 'public',
+                    addRandomSuffix: true,
+                    contentType: 'application/pdf',
+                });
+            } catch (error) {
+                // Already gone: nothing left to expose
+                if (error instanceof BlobNotFoundError) continue;
+                throw error;
+            }
+
+            // Re-imports of the same file may share the blob. Each statement
+            // commits on its own, so the original is only deleted once no row
+            // points at it.
+            await client.sql`UPDATE documents SET file_key = ${blob.url} WHERE file_key = ${row.file_key}`;
+            await del(row.file_key);
+        }
+    },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+// Release the files of documents deleted before deletes let go of them.
+// Tombstones kept their file_key, so those files were never deleted. Each one
+// is unlinked, and its file deleted once no live document shares it.
+// File deletes cannot be rolled back, so this runs as an external step, one
+// file at a time: a rerun picks up the tombstones not yet unlinked.
+// Postgres only: SQLite migrations are plain SQL and cannot reach file
+// storage, so SQLite installs keep the files of documents deleted earlier.
+
+import { getFileStorage } from '../../fileStorage';
+import { Migration } from './types';
+
+const migration: Migration = {
+    id: 12,
+    name: 'release_deleted_files',
+    async external(client) {
+        const deleted = await client.sql`
+            SELECT DISTINCT file_key FROM documents
+            WHERE deleted_at IS NOT NULL AND file_key IS NOT NULL
+        `;
+
+        const storage = getFileStorage();
+        for (const { file_key: key } of deleted.rows) {
+            await client.sql`UPDATE documents SET file_key = NULL WHERE file_key = ${key} AND deleted_at IS NOT NULL`;
+
+            const live = await client.sql`SELECT 1 FROM documents WHERE file_key = ${key} LIMIT 1`;
+            if (live.rows.length === 0) {
+                await storage.delete(key);
+            }
+        }
+    },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+// Migration Registry
+// Add new migrations here in ascending order; never edit or reorder applied ones.
+// Schema changes also need a matching entry in ../sqliteMigrations.ts.
+
+import { Migration } from './types';
+import initialSchema from './0001_initial_schema';
+import syncMetadata from './0002_sync_metadata';
+import users from './0003_users';
+import privateFiles from './0004_private_files';
+import fileKeys from './0005_file_keys';
+import contentHash from './0006_content_hash';
+import documentPages from './0007_document_pages';
+import lastOpened from './0008_last_opened';
+import uploads from './0009_uploads';
+import documentMetadata from './0010_document_metadata';
+import privateLegacyBlobs from './0011_private_legacy_blobs';
+import releaseDeletedFiles from './0012_release_deleted_files';
+
+export type { Migration } from './types';
+
+export const MIGRATIONS: Migration[] = [
+    initialSchema,
+    syncMetadata,
+    users,
+    privateFiles,
+    fileKeys,
+    contentHash,
+    documentPages,
+    lastOpened,
+    uploads,
+    documentMetadata,
+    privateLegacyBlobs,
+    releaseDeletedFiles,
+];
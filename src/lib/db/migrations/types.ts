@@ -0,0 +1,13 @@
+// Database Migration Type Definitions
+
+import type { SqlConnection } from '../client';
+
+export interface Migration {
+    id: number; // matches the numeric prefix of the migration file
+    name: string;
+    up?: (client: SqlConnection) => Promise<void>; // runs in the migration's transaction
+    // Work on file storage, which a rollback cannot undo. Runs after the
+    // transaction commits, and the migration is only recorded once it
+    // succeeds, so it must be safe to run again (and so must `up`).
+    external?: (client: SqlConnection) => Promise<void>;
+}
@@ -0,0 +1,94 @@
+// Document Pages Data Access
+// Stores extracted PDF text per page and searches it. Postgres uses a GIN
+// index over to_tsvector; SQLite stores pages in an FTS5 table.
+
+import { sql, getDatabaseDriver } from './client';
+import { ExtractedPdf } from '../pdfText';
+
+export interface PageHit {
+    document_id: string;
+    title: string;
+    page_number: number;
+    snippet: string;
+}
+
+const MAX_HITS = 50;
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Replace the indexed text and PDF info of a document
+ */
+export async function saveDocumentPages(documentId: string, pdf: ExtractedPdf): Promise<void> {
+    await sql`DELETE FROM document_pages WHERE document_id = ${documentId}`;
+
+    for (const [index, text] of pdf.pages.entries()) {
+        if (!text) continue;
+        await sql`
+            INSERT INTO document_pages (document_id, page_number, text)
+            VALUES (${documentId}, ${index + 1}, ${text})
+        `;
+    }
+
+    const wordCount = pdf.pages.reduce((sum, text) => sum + countWords(text), 0);
+    await sql`
+        UPDATE documents
+        SET page_count = ${pdf.pageCount}, word_count = ${wordCount}, pdf_title = ${pdf.title}, pdf_author = ${pdf.author},
+            changed_at = NOW()
+        WHERE id = ${documentId}
+    `;
+
+    // Fill in the author from the PDF unless the owner has set one
+    if (pdf.author) {
+        await sql`
+            UPDATE documents SET authors = ${JSON.stringify([pdf.author])}
+            WHERE id = ${documentId} AND authors IS NULL
+        `;
+    }
+}
+
+/**
+ * Turn free text into an FTS5 query that matches every word (as a prefix),
+ * so user input can never be parsed as FTS5 syntax
+ */
+function toFtsQuery(query: string): string {
+    const words = query.match(/[\p{L}\p{N}]+/gu) || [];
+    return words.map(word => `"${word}"*`).join(' ');
+}
+
+/**
+ * Search the pages of a user's documents, best matches first
+ */
+export async function searchPages(userId: string, query: string): Promise<PageHit[]> {
+    if (getDatabaseDriver() === 'sqlite') {
+        const match = toFtsQuery(query);
+        if (!match) return [];
+
+        const result = await sql<PageHit>`
+            SELECT p.document_id, d.title, p.page_number,
+                   snippet(document_pages, 2, '', '', '…', 24) AS snippet
+            FROM document_pages p
+            JOIN documents d ON d.id = p.document_id
+            WHERE document_pages MATCH ${match}
+              AND d.user_id = ${userId} AND d.deleted_at IS NULL
+            ORDER BY bm25(document_pages)
+            LIMIT ${MAX_HITS}
+        `;
+        return result.rows;
+    }
+
+    const result = await sql<PageHit>`
+        SELECT p.document_id, d.title, p.page_number,
+               ts_headline('english', p.text, q, 'StartSel="",StopSel="",MaxWords=30,MinWords=12') AS snippet
+        FROM document_pages p
+        JOIN documents d ON d.id = p.document_id
+        CROSS JOIN websearch_to_tsquery('english', ${query}) q
+        WHERE to_tsvector('english', p.text) @@ q
+          AND d.user_id = ${userId} AND d.deleted_at IS NULL
+        ORDER BY ts_rank(to_tsvector('english', p.text), q) DESC
+        LIMIT ${MAX_HITS}
+    `;
+    return result.rows;
+}
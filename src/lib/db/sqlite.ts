@@ -0,0 +1,127 @@
+// Embedded SQLite Driver
+// Lets single-user installs and local development run the server routes
+// without a hosted Postgres. The schema comes from sqliteMigrations.ts.
+
+import type BetterSqlite3 from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { SQLITE_MIGRATIONS } from './sqliteMigrations';
+
+const DEFAULT_SQLITE_PATH = './data/coreader.db';
+
+let database: BetterSqlite3.Database | null = null;
+
+// Migrations applied while opening, reported by the next runSqliteMigrations()
+let ranOnOpen: { id: number; name: string }[] = [];
+
+function now(): string {
+    return new Date().toISOString();
+}
+
+/**
+ * Open the database on first use and bring its schema up to date
+ */
+async function getDatabase(): Promise<BetterSqlite3.Database> {
+    if (database) return database;
+
+    // Loaded lazily so Postgres deployments never load the native module
+    const { default: Database } = await import('better-sqlite3');
+    const file = path.resolve(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    mkdirSync(path.dirname(file), { recursive: true });
+
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.function('NOW', now);
+
+    ranOnOpen = applySqliteMigrations(db);
+    database = db;
+    return db;
+}
+
+function toParameter(value: unknown): string | number | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    if (value instanceof Date) return value.toISOString();
+    return JSON.stringify(value);
+}
+
+/**
+ * Run a tagged-template query, binding each value as a ? parameter
+ */
+export async function querySqlite(strings: TemplateStringsArray, values: unknown[]): Promise<Record<string, unknown>[]> {
+    const db = await getDatabase();
+    const statement = db.prepare(strings.join('?'));
+    const parameters = values.map(toParameter);
+
+    if (statement.reader) {
+        return statement.all(...parameters) as Record<string, unknown>[];
+    }
+    statement.run(...parameters);
+    return [];
+}
+
+// ============================================
+// Migrations
+// ============================================
+
+export interface SqliteMigrationRecord {
+    id: number;
+    name: string;
+    appliedAt: string;
+}
+
+function applySqliteMigrations(db: BetterSqlite3.Database): { id: number; name: string }[] {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            id INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL
+        )
+    `);
+
+    const applied = new Set(
+        (db.prepare('SELECT id FROM schema_migrations').all() as { id: number }[]).map(row => row.id)
+    );
+    const ran: { id: number; name: string }[] = [];
+
+    for (const migration of SQLITE_MIGRATIONS) {
+        if (applied.has(migration.id)) continue;
+
+        db.transaction(() => {
+            for (const statement of migration.statements) {
+                db.exec(statement);
+            }
+            db.prepare('INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)')
+                .run(migration.id, migration.name, now());
+        })();
+
+        ran.push({ id: migration.id, name: migration.name });
+    }
+
+    return ran;
+}
+
+/**
+ * Apply pending SQLite migrations (opening the database applies them too)
+ */
+export async function runSqliteMigrations(): Promise<{ id: number; name: string }[]> {
+    const db = await getDatabase();
+    const ran = [...ranOnOpen, ...applySqliteMigrations(db)];
+    ranOnOpen = [];
+    return ran;
+}
+
+/**
+ * Get the SQLite migrations recorded as applied
+ */
+export async function getSqliteMigrations(): Promise<SqliteMigrationRecord[]> {
+    const db = await getDatabase();
+    const rows = db.prepare('SELECT id, name, applied_at FROM schema_migrations ORDER BY id ASC').all() as {
+        id: number;
+        name: string;
+        applied_at: string;
+    }[];
+    return rows.map(row => ({ id: row.id, name: row.name, appliedAt: row.applied_at }));
+}
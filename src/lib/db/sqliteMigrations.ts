@@ -0,0 +1,152 @@
+// SQLite Schema
+// SQLite installs start from the schema the Postgres migrations (0001-0005)
+// add up to, then follow later migrations one entry at a time. When a Postgres migration changes the schema, add the
+// equivalent statements here as a new entry.
+// Timestamps are ISO-8601 text so they sort and compare like Postgres values.
+
+export interface SqliteMigration {
+    id: number;
+    name: string;
+    statements: string[];
+}
+
+const NOW_DEFAULT = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+    {
+        id: 1,
+        name: 'initial_schema',
+        statements: [
+            `CREATE TABLE IF NOT EXISTS users (
+                id TEXT PRIMARY KEY,
+                email TEXT NOT NULL UNIQUE,
+                password_hash TEXT NOT NULL,
+                created_at TEXT DEFAULT ${NOW_DEFAULT}
+            )`,
+            `CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                created_at TEXT DEFAULT ${NOW_DEFAULT},
+                expires_at TEXT NOT NULL
+            )`,
+            `CREATE TABLE IF NOT EXISTS documents (
+                id TEXT PRIMARY KEY,
+                user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+                title TEXT NOT NULL,
+                source_type TEXT NOT NULL,
+                source_path TEXT NOT NULL,
+                file_key TEXT,
+                created_at TEXT DEFAULT ${NOW_DEFAULT},
+                updated_at TEXT DEFAULT ${NOW_DEFAULT},
+                deleted_at TEXT,
+                changed_at TEXT DEFAULT ${NOW_DEFAULT}
+            )`,
+            `CREATE TABLE IF NOT EXISTS highlights (
+                id TEXT PRIMARY KEY,
+                user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+                document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+                type TEXT NOT NULL,
+                text TEXT NOT NULL,
+                anchor TEXT NOT NULL,
+                note TEXT,
+                created_at TEXT DEFAULT ${NOW_DEFAULT},
+                updated_at TEXT DEFAULT ${NOW_DEFAULT},
+                note_updated_at TEXT,
+                deleted_at TEXT,
+                changed_at TEXT DEFAULT ${NOW_DEFAULT}
+            )`,
+            `CREATE TABLE IF NOT EXISTS vocabulary (
+                id TEXT PRIMARY KEY,
+                user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+                word TEXT NOT NULL,
+                definition TEXT,
+                context_sentence TEXT,
+                document_id TEXT REFERENCES documents(id) ON DELETE SET NULL,
+                user_note TEXT,
+                created_at TEXT DEFAULT ${NOW_DEFAULT},
+                updated_at TEXT DEFAULT ${NOW_DEFAULT},
+                deleted_at TEXT,
+                changed_at TEXT DEFAULT ${NOW_DEFAULT}
+            )`,
+            `CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_documents_user ON documents(user_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_documents_changed ON documents(changed_at)`,
+            `CREATE INDEX IF NOT EXISTS idx_documents_file_key ON documents(file_key)`,
+            `CREATE INDEX IF NOT EXISTS idx_highlights_user ON highlights(user_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_highlights_document ON highlights(document_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_highlights_changed ON highlights(changed_at)`,
+            `CREATE INDEX IF NOT EXISTS idx_vocabulary_user ON vocabulary(user_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_vocabulary_document ON vocabulary(document_id)`,
+            `CREATE INDEX IF NOT EXISTS idx_vocabulary_changed ON vocabulary(changed_at)`,
+        ],
+    },
+    {
+        id: 2,
+        name: 'content_hash',
+        statements: [
+            `ALTER TABLE documents ADD COLUMN content_hash TEXT`,
+            `CREATE INDEX IF NOT EXISTS idx_documents_user_hash ON documents(user_id, content_hash)`,
+        ],
+    },
+    {
+        id: 3,
+        name: 'document_pages',
+        statements: [
+            // FTS5 table doubles as the page store; only searchPages() queries it differently
+            `CREATE VIRTUAL TABLE IF NOT EXISTS document_pages USING fts5(
+                document_id UNINDEXED,
+                page_number UNINDEXED,
+                text,
+                tokenize = 'porter unicode61'
+            )`,
+            `ALTER TABLE documents ADD COLUMN page_count INTEGER`,
+            `ALTER TABLE documents ADD COLUMN pdf_title TEXT`,
+            `ALTER TABLE documents ADD COLUMN pdf_author TEXT`,
+        ],
+    },
+    {
+        id: 4,
+        name: 'last_opened',
+        statements: [
+            `ALTER TABLE documents ADD COLUMN last_opened_at TEXT`,
+            `CREATE INDEX IF NOT EXISTS idx_documents_user_created ON documents(user_id, created_at)`,
+        ],
+    },
+    {
+        id: 5,
+        name: 'uploads',
+        statements: [
+            `CREATE TABLE IF NOT EXISTS uploads (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+                size INTEGER NOT NULL,
+                part_size INTEGER NOT NULL,
+                handle TEXT NOT NULL,
+                created_at TEXT DEFAULT ${NOW_DEFAULT}
+            )`,
+            `CREATE INDEX IF NOT EXISTS idx_uploads_user ON uploads(user_id, created_at)`,
+            `CREATE TABLE IF NOT EXISTS upload_parts (
+                upload_id TEXT NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+                part_number INTEGER NOT NULL,
+                size INTEGER NOT NULL,
+                etag TEXT NOT NULL,
+                PRIMARY KEY (upload_id, part_number)
+            )`,
+        ],
+    },
+    {
+        id: 6,
+        name: 'document_metadata',
+        statements: [
+            // authors and tags hold JSON arrays
+            `ALTER TABLE documents ADD COLUMN authors TEXT`,
+            `ALTER TABLE documents ADD COLUMN published_date TEXT`,
+            `ALTER TABLE documents ADD COLUMN word_count INTEGER`,
+            `ALTER TABLE documents ADD COLUMN tags TEXT`,
+            `ALTER TABLE documents ADD COLUMN description TEXT`,
+            `UPDATE documents SET authors = json_array(pdf_author)
+                WHERE authors IS NULL AND pdf_author IS NOT NULL AND pdf_author <> ''`,
+        ],
+    },
+];
@@ -0,0 +1,132 @@
+// Multipart Upload Data Access
+// Tracks in-progress uploads and the parts received so far. The parts
+// themselves are staged by the file storage driver under the upload's handle.
+
+import { sql } from './client';
+import type { UploadResponse } from '@/lib/api/schemas';
+import type { DirectUpload } from '@/lib/fileStorage';
+
+export interface UploadRecord {
+    id: string;
+    user_id: string;
+    document_id: string;
+    size: number;
+    part_size: number;
+    handle: string;
+    created_at: string;
+}
+
+export interface UploadPartRecord {
+    part_number: number;
+    size: number;
+    etag: string;
+}
+
+// Unfinished uploads are dropped after this long
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of parts an upload is split into
+ */
+export function getPartCount(upload: UploadRecord): number {
+    return Math.ceil(upload.size / upload.part_size);
+}
+
+/**
+ * Exact length a part must have: the part size, or the remainder for the last part
+ */
+export function getPartLength(upload: UploadRecord, partNumber: number): number {
+    const count = getPartCount(upload);
+    return partNumber < count ? upload.part_size : upload.size - upload.part_size * (count - 1);
+}
+
+/**
+ * Describe an upload to its client
+ */
+export function toUploadResponse(
+    upload: UploadRecord,
+    parts: UploadPartRecord[],
+    direct?: DirectUpload
+): UploadResponse {
+    return {
+        uploadId: upload.id,
+        documentId: upload.document_id,
+        size: upload.size,
+        partSize: upload.part_size,
+        partCount: getPartCount(upload),
+        receivedParts: parts.map(part => Number(part.part_number)),
+        direct,
+    };
+}
+
+/**
+ * Start tracking an upload
+ */
+export async function createUpload(upload: Omit<UploadRecord, 'created_at'>): Promise<void> {
+    await sql`
+        INSERT INTO uploads (id, user_id, document_id, size, part_size, handle)
+        VALUES (
+            ${upload.id}, ${upload.user_id}, ${upload.document_id}, ${upload.size}, ${upload.part_size},
+            ${upload.handle}
+        )
+    `;
+}
+
+/**
+ * Get one of a user's uploads
+ */
+export async function getUpload(userId: string, id: string): Promise<UploadRecord | null> {
+    const result = await sql<UploadRecord>`
+        SELECT id, user_id, document_id, size, part_size, handle, created_at
+        FROM uploads
+        WHERE id = ${id} AND user_id = ${userId}
+    `;
+    const row = result.rows[0];
+    // Postgres returns BIGINT as a string
+    return row ? { ...row, size: Number(row.size) } : null;
+}
+
+/**
+ * Get a user's uploads that have been left unfinished for too long
+ */
+export async function getExpiredUploads(userId: string): Promise<UploadRecord[]> {
+    const cutoff = new Date(Date.now() - UPLOAD_TTL_MS).toISOString();
+    const result = await sql<UploadRecord>`
+        SELECT id, user_id, document_id, size, part_size, handle, created_at
+        FROM uploads
+        WHERE user_id = ${userId} AND created_at < ${cutoff}
+    `;
+    return result.rows.map(row => ({ ...row, size: Number(row.size) }));
+}
+
+/**
+ * Get the parts received so far, in order
+ */
+export async function getUploadParts(uploadId: string): Promise<UploadPartRecord[]> {
+    const result = await sql<UploadPartRecord>`
+        SELECT part_number, size, etag
+        FROM upload_parts
+        WHERE upload_id = ${uploadId}
+        ORDER BY part_number ASC
+    `;
+    return result.rows;
+}
+
+/**
+ * Record a received part. Sending a part again replaces it.
+ */
+export async function saveUploadPart(uploadId: string, part: UploadPartRecord): Promise<void> {
+    await sql`
+        INSERT INTO upload_parts (upload_id, part_number, size, etag)
+        VALUES (${uploadId}, ${part.part_number}, ${part.size}, ${part.etag})
+        ON CONFLICT (upload_id, part_number) DO UPDATE SET size = ${part.size}, etag = ${part.etag}
+    `;
+}
+
+/**
+ * Stop tracking an upload (its parts go with it)
+ */
+export async function deleteUpload(id: string): Promise<void> {
+    await sql`DELETE FROM upload_parts WHERE upload_id = ${id}`;
+    await sql`DELETE FROM uploads WHERE id = ${id}`;
+}
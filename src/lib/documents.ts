@@ -1,11 +1,24 @@
 // Document Storage and Management
-// Local storage based for MVP
+// Persisted through the configured storage adapter
 
 import { Document, SourceType } from './types';
 import { v4 as uuidv4 } from 'uuid';
 import { deleteHighlightsByDocument } from './highlights';
-
-const DOCUMENTS_KEY = 'coreader_documents';
+import { deleteVocabularyByDocument } from './vocabulary';
+import { deleteArticle } from './articles';
+import { clearArticleImages } from './articleImages';
+import {
+    savePdfBlob,
+    getPdfBytes,
+    deletePdfBlob,
+    clearPdfBlobs,
+    getStorageEstimate,
+    formatBytes,
+} from './pdfStore';
+import { getStore } from './storage';
+import { ALL_COLLECTIONS, documentsCollection } from './storage/collections';
+
+const documentsStore = getStore(documentsCollection);
 
 // ============================================
 // Document CRUD Operations
@@ -14,217 +27,137 @@ const DOCUMENTS_KEY = 'coreader_documents';
 /**
  * Get all documents
  */
-export function getAllDocuments(): Document[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(DOCUMENTS_KEY);
-    if (!stored) return [];
-
-    try {
-        const documents = JSON.parse(stored);
-        return documents.map((d: Document) => ({
-            ...d,
-            createdAt: new Date(d.createdAt),
-        }));
-    } catch {
-        return [];
-    }
+export async function getAllDocuments(): Promise<Document[]> {
+    return documentsStore.list();
 }
 
 /**
  * Get a single document by ID
  */
-export function getDocumentById(id: string): Document | null {
-    return getAllDocuments().find(d => d.id === id) || null;
+export async function getDocumentById(id: string): Promise<Document | null> {
+    return documentsStore.get(id);
 }
 
 /**
  * Create a new document
  */
-export function createDocument(
+export async function createDocument(
     title: string,
     sourceType: SourceType,
-    sourcePath: string
-): Document {
+    sourcePath: string,
+    contentHash?: string
+): Promise<Document> {
     const document: Document = {
         id: uuidv4(),
         title,
         sourceType,
         sourcePath,
+        contentHash,
         createdAt: new Date(),
+        updatedAt: new Date(),
     };
 
-    const documents = getAllDocuments();
-    documents.push(document);
-    saveDocuments(documents);
-
-    return document;
+    return documentsStore.put(document);
 }
 
 /**
- * Update document title
+ * Save a document record as-is (insert or replace)
  */
-export function updateDocumentTitle(id: string, title: string): Document | null {
-    const documents = getAllDocuments();
-    const index = documents.findIndex(d => d.id === id);
+export async function saveDocument(document: Document): Promise<Document> {
+    return documentsStore.put(document);
+}
 
-    if (index === -1) return null;
+export type DocumentChanges = Partial<Pick<
+    Document,
+    'title' | 'sourcePath' | 'authors' | 'publishedDate' | 'pageCount' | 'wordCount' | 'tags' | 'description'
+>>;
 
-    documents[index] = { ...documents[index], title };
-    saveDocuments(documents);
+/**
+ * Update document fields
+ */
+export async function updateDocument(id: string, updates: DocumentChanges): Promise<Document | null> {
+    const document = await documentsStore.get(id);
+    if (!document) return null;
 
-    return documents[index];
+    return documentsStore.put({ ...document, ...updates, updatedAt: new Date() });
 }
 
 /**
- * Delete a document (cascades to highlights and notes)
+ * Record that a document was opened (not an edit, so updatedAt is kept)
  */
-export function deleteDocument(id: string): boolean {
-    const documents = getAllDocuments();
-    const filtered = documents.filter(d => d.id !== id);
+export async function markDocumentOpened(id: string): Promise<Document | null> {
+    const document = await documentsStore.get(id);
+    if (!document) return null;
 
-    if (filtered.length === documents.length) return false;
+    return documentsStore.put({ ...document, lastOpenedAt: new Date() });
+}
 
-    saveDocuments(filtered);
+/**
+ * Update document title
+ */
+export async function updateDocumentTitle(id: string, title: string): Promise<Document | null> {
+    return updateDocument(id, { title });
+}
 
-    // Cascade delete highlights
-    deleteHighlightsByDocument(id);
+/**
+ * Delete a document and every local record that depends on it: highlights
+ * (with their notes and AI outputs), vocabulary, the cached article and a
+ * locally stored PDF. Cloud PDFs are removed by the cloud client.
+ */
+export async function deleteDocument(id: string): Promise<boolean> {
+    const document = await documentsStore.get(id);
 
-    return true;
-}
+    await deleteHighlightsByDocument(id);
+    await deleteVocabularyByDocument(id);
+    await deleteArticle(id);
 
-function saveDocuments(documents: Document[]): void {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(DOCUMENTS_KEY, JSON.stringify(documents));
+    if (document?.sourceType === 'pdf' && document.sourcePath.startsWith('local:')) {
+        await deletePdfBlob(document.sourcePath.replace('local:', ''));
+    }
+
+    return documentsStore.delete(id);
 }
 
 // ============================================
 // PDF File Storage
 // ============================================
 
-const PDF_STORAGE_KEY = 'coreader_pdf_files';
-
 /**
- * Store PDF as base64 in localStorage
- * Note: This is for MVP. Production should use IndexedDB or server storage.
+ * Store PDF in the local IndexedDB blob store
  */
 export async function storePdfFile(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-        // Check file size limit (5MB for localStorage safety)
-        const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-        if (file.size > MAX_FILE_SIZE) {
-            reject(new Error(`PDF is too large (${Math.round(file.size / 1024 / 1024)}MB). Maximum size is 5MB.`));
-            return;
-        }
-
-        const reader = new FileReader();
-
-        reader.onload = () => {
-            const base64 = reader.result as string;
-            const pdfFiles = getPdfFiles();
-            const id = uuidv4();
-
-            pdfFiles[id] = base64;
-
-            if (typeof window !== 'undefined') {
-                try {
-                    // Check available storage before writing
-                    const dataToStore = JSON.stringify(pdfFiles);
-                    const estimatedSize = dataToStore.length * 2; // UTF-16 encoding
-
-                    // Try to estimate available space (rough check)
-                    const currentUsage = calculateStorageUsage();
-                    const availableSpace = 5 * 1024 * 1024 - currentUsage; // Assume 5MB limit
-
-                    if (estimatedSize > availableSpace) {
-                        reject(new Error(`Not enough storage space. Try removing some documents first.`));
-                        return;
-                    }
-
-                    localStorage.setItem(PDF_STORAGE_KEY, dataToStore);
-                    resolve(id);
-                } catch (e) {
-                    // Storage quota exceeded
-                    reject(new Error('Storage full. Please remove some documents to free up space.'));
-                }
-            } else {
-                reject(new Error('localStorage not available'));
-            }
-        };
-
-        reader.onerror = () => reject(new Error('Failed to read PDF file'));
-        reader.readAsDataURL(file);
-    });
-}
-
-/**
- * Calculate approximate localStorage usage in bytes
- */
-export function calculateStorageUsage(): number {
-    if (typeof window === 'undefined') return 0;
-
-    let total = 0;
-    for (const key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-            total += localStorage[key].length * 2; // UTF-16 encoding
-        }
-    }
-    return total;
+    return savePdfBlob(file);
 }
 
 /**
- * Get storage usage as a human-readable string
+ * Get storage usage and quota as a human-readable string
  */
-export function getStorageUsageString(): string {
-    const bytes = calculateStorageUsage();
-    if (bytes < 1024) return `${bytes} bytes`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+export async function getStorageUsageString(): Promise<string> {
+    const { usage, quota } = await getStorageEstimate();
+    if (!quota) return formatBytes(usage);
+    return `${formatBytes(usage)} of ${formatBytes(quota)}`;
 }
 
 /**
- * Clear all Co-Reader data from localStorage
+ * Clear all Co-Reader data from every store
  */
-export function clearAllData(): void {
+export async function clearAllData(): Promise<void> {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem(DOCUMENTS_KEY);
-    localStorage.removeItem(PDF_STORAGE_KEY);
-    localStorage.removeItem('coreader_highlights');
-    localStorage.removeItem('coreader_notes');
-    localStorage.removeItem('coreader_articles');
-    localStorage.removeItem('coreader_vocabulary');
-    localStorage.removeItem('coreader_ai_outputs');
+    await Promise.all(ALL_COLLECTIONS.map(collection => getStore(collection).clear()));
+    await clearPdfBlobs();
+    await clearArticleImages();
 }
 
 /**
- * Get PDF base64 data by ID
+ * Get PDF bytes by ID
  */
-export function getPdfData(id: string): string | null {
-    const pdfFiles = getPdfFiles();
-    return pdfFiles[id] || null;
+export async function getPdfData(id: string): Promise<Uint8Array | null> {
+    return getPdfBytes(id);
 }
 
 /**
  * Delete stored PDF
  */
-export function deletePdfData(id: string): void {
-    const pdfFiles = getPdfFiles();
-    delete pdfFiles[id];
-
-    if (typeof window !== 'undefined') {
-        localStorage.setItem(PDF_STORAGE_KEY, JSON.stringify(pdfFiles));
-    }
-}
-
-function getPdfFiles(): Record<string, string> {
-    if (typeof window === 'undefined') return {};
-
-    const stored = localStorage.getItem(PDF_STORAGE_KEY);
-    if (!stored) return {};
-
-    try {
-        return JSON.parse(stored);
-    } catch {
-        return {};
-    }
+export async function deletePdfData(id: string): Promise<void> {
+    await deletePdfBlob(id);
 }
@@ -0,0 +1,297 @@
+// Guarded Page Fetching
+// Downloads user-supplied URLs (article pages and their images) without
+// letting them reach the server's own network. Every connection, including
+// each redirect hop, is checked against the address it actually resolves
+// to, and downloads are limited in time, size and content type.
+
+import http from 'http';
+import https from 'https';
+import { lookup } from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Readable, pipeline } from 'stream';
+import zlib from 'zlib';
+import type { FetchArticleErrorCode } from '@/lib/api/schemas';
+
+export const MAX_REDIRECTS = 5;
+export const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const FETCH_TIMEOUT_MS = 15_000;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Raster formats only: an SVG served from our origin could run script
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif'];
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * A page that could not or may not be fetched. `status` is the HTTP status
+ * the API responds with.
+ */
+export class FetchPageError extends Error {
+    constructor(
+        readonly code: FetchArticleErrorCode,
+        message: string,
+        readonly status: number
+    ) {
+        super(message);
+        this.name = 'FetchPageError';
+    }
+}
+
+export interface FetchedPage {
+    url: string; // after redirects
+    html: string;
+}
+
+export interface FetchedImage {
+    contentType: string;
+    body: Buffer;
+}
+
+interface ResourceKind {
+    noun: string; // "page" or "image", for error messages
+    accept: string;
+    mediaTypes: string[];
+    maxBytes: number;
+}
+
+const PAGE: ResourceKind = {
+    noun: 'page',
+    accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+    mediaTypes: HTML_TYPES,
+    maxBytes: MAX_PAGE_BYTES,
+};
+
+const IMAGE: ResourceKind = {
+    noun: 'image',
+    accept: `${IMAGE_TYPES.join(',')};q=0.9,*/*;q=0.1`,
+    mediaTypes: IMAGE_TYPES,
+    maxBytes: MAX_IMAGE_BYTES,
+};
+
+// ============================================
+// Address Checks
+// ============================================
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+    ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+    ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64],
+    ['2001::', 23], ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet. IPv4-mapped IPv6
+ * addresses (::ffff:127.0.0.1) are judged by the IPv4 address they carry.
+ */
+export function isPublicAddress(address: string): boolean {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+    if (mapped) return isPublicAddress(mapped);
+
+    const family = isIP(address);
+    if (family === 4) return !blockedAddresses.check(address, 'ipv4');
+    if (family === 6) return !blockedAddresses.check(address, 'ipv6') && !/^::ffff:/i.test(address);
+    return false;
+}
+
+function blocked(hostname: string): FetchPageError {
+    return new FetchPageError('blocked_address', `${hostname} points to a private network address`, 400);
+}
+
+/**
+ * DNS lookup used for every connection. Resolving here rather than before
+ * the request means the address checked is the one connected to, so a
+ * name that changes between check and use cannot slip through.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '');
+
+        if (addresses.length === 0 || addresses.some(entry => !isPublicAddress(entry.address))) {
+            return callback(blocked(hostname), '');
+        }
+
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/**
+ * Parse a URL that is about to be requested, rejecting anything but plain
+ * http(s) to a public host
+ */
+function checkUrl(input: string, base?: URL): URL {
+    let url: URL;
+    try {
+        url = new URL(input, base);
+    } catch {
+        throw new FetchPageError('invalid_url', 'Enter an http(s) URL', 400);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new FetchPageError('invalid_url', 'Only http(s) URLs can be fetched', 400);
+    }
+    if (url.username || url.password) {
+        throw new FetchPageError('invalid_url', 'URLs with credentials cannot be fetched', 400);
+    }
+
+    // IP literals never reach the lookup, so they are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) throw blocked(hostname);
+    if (isIP(hostname) && !isPublicAddress(hostname)) throw blocked(hostname);
+
+    return url;
+}
+
+// ============================================
+// Requests
+// ============================================
+
+function send(url: URL, kind: ResourceKind, signal: AbortSignal): Promise<http.IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+    const headers = { 'User-Agent': USER_AGENT, 'Accept': kind.accept, 'Accept-Encoding': 'gzip, deflate, br' };
+    return new Promise((resolve, reject) => {
+        const request = client.request(url, { headers, lookup: publicLookup, signal }, resolve);
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+function decompress(response: http.IncomingMessage): Readable {
+    const noop = () => {};
+    switch (response.headers['content-encoding']?.toLowerCase()) {
+        case 'gzip':
+        case 'x-gzip':
+            return pipeline(response, zlib.createGunzip(), noop);
+        case 'deflate':
+            return pipeline(response, zlib.createInflate(), noop);
+        case 'br':
+            return pipeline(response, zlib.createBrotliDecompress(), noop);
+        default:
+            return response;
+    }
+}
+
+// Counted after decompression, so a small compressed bomb is caught too
+async function readBody(response: http.IncomingMessage, kind: ResourceKind): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of decompress(response)) {
+        size += chunk.length;
+        if (size > kind.maxBytes) {
+            response.destroy();
+            throw tooLarge(kind);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+function tooLarge(kind: ResourceKind): FetchPageError {
+    return new FetchPageError('too_large', `The ${kind.noun} is larger than ${kind.maxBytes / 1024 / 1024} MB`, 413);
+}
+
+/**
+ * Decode with the charset from the Content-Type header, or failing that a
+ * <meta charset> near the top of the page
+ */
+function decode(body: Buffer, contentType: string): string {
+    const declared = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+        || body.subarray(0, 1024).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+
+    try {
+        return new TextDecoder(declared || 'utf-8').decode(body);
+    } catch {
+        return new TextDecoder('utf-8').decode(body);
+    }
+}
+
+/**
+ * Download a resource from the public internet. Redirects are followed by
+ * hand (up to MAX_REDIRECTS) so each hop is checked. Throws a
+ * FetchPageError describing why it was refused.
+ */
+async function fetchResource(
+    input: string,
+    kind: ResourceKind
+): Promise<{ url: URL; contentType: string; body: Buffer }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    let url = checkUrl(input);
+
+    try {
+        for (let redirects = 0; ; redirects++) {
+            const response = await send(url, kind, controller.signal);
+            const status = response.statusCode || 0;
+
+            const location = response.headers.location;
+            if (status >= 300 && status < 400 && location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new FetchPageError('too_many_redirects', `Stopped after ${MAX_REDIRECTS} redirects`, 502);
+                }
+                url = checkUrl(location, url);
+                continue;
+            }
+
+            if (status < 200 || status >= 300) {
+                response.resume();
+                throw new FetchPageError('upstream_error', `The site responded with ${status} ${response.statusMessage || ''}`.trim(), 502);
+            }
+
+            const contentType = response.headers['content-type'] || '';
+            const mediaType = contentType.split(';')[0].trim().toLowerCase();
+            if (!kind.mediaTypes.includes(mediaType)) {
+                response.resume();
+                throw new FetchPageError(
+                    'unsupported_content_type',
+                    `Expected ${kind === PAGE ? 'a web page' : 'an image'} but got ${mediaType || 'an unknown type'}`,
+                    415
+                );
+            }
+
+            if (Number(response.headers['content-length']) > kind.maxBytes) {
+                response.destroy();
+                throw tooLarge(kind);
+            }
+
+            return { url, contentType, body: await readBody(response, kind) };
+        }
+    } catch (error) {
+        if (error instanceof FetchPageError) throw error;
+        if (controller.signal.aborted) {
+            throw new FetchPageError('timeout', `The site took longer than ${FETCH_TIMEOUT_MS / 1000} seconds to respond`, 504);
+        }
+        throw new FetchPageError('unreachable', `Could not reach ${url.hostname}`, 502);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Fetch an HTML page from the public internet
+ */
+export async function fetchPage(input: string): Promise<FetchedPage> {
+    const { url, contentType, body } = await fetchResource(input, PAGE);
+    return { url: url.toString(), html: decode(body, contentType) };
+}
+
+/**
+ * Fetch a raster image from the public internet
+ */
+export async function fetchImage(input: string): Promise<FetchedImage> {
+    const { contentType, body } = await fetchResource(input, IMAGE);
+    return { contentType: contentType.split(';')[0].trim().toLowerCase(), body };
+}
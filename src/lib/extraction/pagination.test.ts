@@ -0,0 +1,91 @@
+import { parseHTML } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { findNextPage, stitchPages } from './pagination';
+
+function page(body: string, head = ''): Document {
+    return parseHTML(`<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`).document;
+}
+
+describe('findNextPage', () => {
+    describe('follows the next page of the same article', () => {
+        it('from rel="next" in the head', () => {
+            const document = page('<p>Text</p>', '<link rel="next" href="/story/page/2">');
+            expect(findNextPage(document, 'https://example.com/story', 'https://example.com/story'))
+                .toBe('https://example.com/story/page/2');
+        });
+
+        it('from a page query parameter', () => {
+            const document = page('<a rel="next" href="?page=3">Next</a>');
+            expect(findNextPage(document, 'https://example.com/story?page=2', 'https://example.com/story'))
+                .toBe('https://example.com/story?page=3');
+        });
+
+        it('from a numbered path when the first page is numbered too', () => {
+            const document = page('<div class="pagination"><span class="current">1</span><a href="/story/2">2</a></div>');
+            expect(findNextPage(document, 'https://example.com/story/1', 'https://example.com/story/1'))
+                .toBe('https://example.com/story/2');
+        });
+
+        it('from a "Next" link in a pager', () => {
+            const document = page('<div class="pager"><a href="/story-2.html">Next »</a></div>');
+            expect(findNextPage(document, 'https://example.com/story.html', 'https://example.com/story.html'))
+                .toBe('https://example.com/story-2.html');
+        });
+
+        it('from the following page number', () => {
+            const document = page(`
+                <nav><a href="/story/page/1">1</a><a aria-current="page" href="/story/page/2">2</a><a href="/story/page/3">3</a></nav>
+            `);
+            expect(findNextPage(document, 'https://example.com/story/page/2', 'https://example.com/story'))
+                .toBe('https://example.com/story/page/3');
+        });
+    });
+
+    describe('does not follow the next post', () => {
+        it('by WordPress post ID', () => {
+            const document = page('<a rel="next" href="/?p=124">Next post</a>');
+            expect(findNextPage(document, 'https://blog.example.com/?p=123', 'https://blog.example.com/?p=123'))
+                .toBeNull();
+        });
+
+        it('from rel="next" in post navigation', () => {
+            const document = page(`
+                <nav class="navigation post-navigation">
+                    <a rel="prev" href="/posts/40">Older</a>
+                    <a rel="next" href="/posts/42">Newer</a>
+                </nav>
+            `);
+            expect(findNextPage(document, 'https://example.com/posts/41', 'https://example.com/posts/41'))
+                .toBeNull();
+        });
+
+        it('from a "Next" link in a pager between posts', () => {
+            const document = page('<div class="pager"><a href="/posts/40">« Previous</a><a href="/posts/42">Next »</a></div>');
+            expect(findNextPage(document, 'https://example.com/posts/41', 'https://example.com/posts/41'))
+                .toBeNull();
+        });
+
+        it('from a pager inside post navigation', () => {
+            const document = page('<div id="post-nav"><ul class="pager"><li><a href="/story/page/2">Next</a></li></ul></div>');
+            expect(findNextPage(document, 'https://example.com/story', 'https://example.com/story'))
+                .toBeNull();
+        });
+    });
+
+    it('ignores links to other articles', () => {
+        const document = page('<a rel="next" href="/another-story">Next</a>');
+        expect(findNextPage(document, 'https://example.com/story', 'https://example.com/story')).toBeNull();
+    });
+});
+
+describe('stitchPages', () => {
+    it('marks page breaks and drops what later pages repeat', () => {
+        const { document } = parseHTML('<!DOCTYPE html><html><body></body></html>');
+        const html = stitchPages([
+            '<h2>The Story</h2><p>First page text.</p>',
+            '<h2>The Story</h2><p>Second page text.</p>',
+        ], document);
+
+        expect(html).toBe('<h2>The Story</h2><p>First page text.</p><hr data-page="2"><p>Second page text.</p>');
+    });
+});
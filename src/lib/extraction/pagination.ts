@@ -0,0 +1,176 @@
+// Multi-page Articles
+// Long-form sites often split an article across pages linked by
+// rel="next" or numbered pagination. Finds the link to the following page
+// and stitches the extracted pages into one body, with a marker at each
+// page break and the header each page repeats removed.
+
+export const MAX_ARTICLE_PAGES = 10;
+
+// Link text that means "the next page", once arrows and spaces are trimmed
+const NEXT_TEXT = /^(?:next|next page|continue|continue reading|more|older)$/i;
+const NEXT_SYMBOL = /^[›»→>]+$/;
+const PAGINATION_CONTAINER = /pag(?:e|er|es|ing|ination)\b|pagination|page-numbers|pager/i;
+const CURRENT_PAGE = /\b(?:current|active|selected)\b/i;
+// Previous/next post links on blogs, which lead to other articles
+const POST_NAVIGATION = /post-nav|navigation/i;
+
+// Query parameters that only select a page. Not "p": WordPress uses it for
+// the post ID.
+const PAGE_PARAMS = ['page', 'pg', 'paged', 'pagenum', 'start'];
+
+function linkText(element: Element): string {
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function names(element: Element): string {
+    return `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+}
+
+function inPostNavigation(element: Element): boolean {
+    for (let ancestor: Element | null = element; ancestor; ancestor = ancestor.parentElement) {
+        if (POST_NAVIGATION.test(names(ancestor))) return true;
+    }
+    return false;
+}
+
+/**
+ * The URL with its page number removed, so every page of one article maps
+ * to the same key: /story/page/2, /story-2.html and /story?page=2 all
+ * become /story. A bare number (/story/2) only counts as a page number
+ * when the first page is numbered the same way (/story/1); otherwise it is
+ * more likely an ID (/posts/42).
+ */
+function articleKey(url: URL, numberedPages: boolean): string {
+    const path = url.pathname
+        .replace(numberedPages ? /\/(?:page\/)?\d{1,3}\/?$/i : /\/page\/\d{1,3}\/?$/i, '')
+        .replace(/[-_](?:page)?\d{1,3}(\.\w+)$/i, '$1')
+        .replace(/(\.\w+)$/, '')
+        .replace(/\/$/, '');
+
+    const params = new URLSearchParams(url.search);
+    PAGE_PARAMS.forEach(name => params.delete(name));
+    params.sort();
+    return `${url.host}${path}?${params}`;
+}
+
+/**
+ * Resolve a candidate link, accepting it only if it is another page of
+ * the same article (not, say, the next post on a blog)
+ */
+function nextPageUrl(href: string | null, pageUrl: URL, articleUrl: URL): string | null {
+    if (!href) return null;
+
+    let url: URL;
+    try {
+        url = new URL(href, pageUrl);
+    } catch {
+        return null;
+    }
+    url.hash = '';
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.toString() === pageUrl.toString()) return null;
+
+    const numberedPages = /\/1\/?$/.test(articleUrl.pathname);
+    return articleKey(url, numberedPages) === articleKey(articleUrl, numberedPages) ? url.toString() : null;
+}
+
+// Number of the page being shown, read from the pagination control
+function currentPageNumber(container: Element): number {
+    const current = Array.from(container.querySelectorAll('[aria-current="page"], [class]'))
+        .find(element => element.getAttribute('aria-current') === 'page' || CURRENT_PAGE.test(element.getAttribute('class') || ''));
+    const number = current ? parseInt(linkText(current), 10) : NaN;
+    return isNaN(number) ? 1 : number;
+}
+
+/**
+ * Find the link to the next page of an article. Run it on the whole page,
+ * before extraction removes the navigation. `articleUrl` is the URL of the
+ * first page; only links to other pages of that article are followed.
+ */
+export function findNextPage(document: Document, pageUrl: string, articleUrl: string): string | null {
+    const page = new URL(pageUrl);
+    const article = new URL(articleUrl);
+
+    // Declared by the page itself
+    for (const link of Array.from(document.querySelectorAll('link[rel~="next"], a[rel~="next"]'))) {
+        if (inPostNavigation(link)) continue;
+        const url = nextPageUrl(link.getAttribute('href'), page, article);
+        if (url) return url;
+    }
+
+    // "Next" links and the following page number in a pagination control
+    const containers = Array.from(document.querySelectorAll('[class], [id], nav'))
+        .filter(element => (element.localName === 'nav' || PAGINATION_CONTAINER.test(names(element)))
+            && !inPostNavigation(element));
+
+    for (const container of containers) {
+        const following = String(currentPageNumber(container) + 1);
+
+        for (const link of Array.from(container.querySelectorAll('a[href]'))) {
+            const text = linkText(link).replace(/^[\s›»→<>]+|[\s›»→<>]+$/g, '');
+            const isNext = NEXT_TEXT.test(text) || NEXT_SYMBOL.test(linkText(link)) || text === following;
+            if (!isNext) continue;
+
+            const url = nextPageUrl(link.getAttribute('href'), page, article);
+            if (url) return url;
+        }
+    }
+
+    return null;
+}
+
+// ============================================
+// Stitching
+// ============================================
+
+function normalized(element: Element): string {
+    return linkText(element).toLowerCase();
+}
+
+/**
+ * Join the extracted bodies of consecutive pages. Each page after the
+ * first starts with <hr data-page="n">, and loses the leading blocks and
+ * any headings it repeats from earlier pages (title, byline, intro).
+ */
+export function stitchPages(pages: string[], document: Document): string {
+    if (pages.length <= 1) return pages[0] || '';
+
+    const seen = new Set<string>();
+    const combined = document.createElement('div');
+
+    pages.forEach((html, index) => {
+        const page = document.createElement('div');
+        page.innerHTML = html;
+
+        if (index > 0) {
+            // The body may be wrapped in a single container; look inside it
+            let body: Element = page;
+            while (body.children.length === 1 && body.firstElementChild?.children.length) {
+                body = body.firstElementChild;
+            }
+
+            for (const block of Array.from(body.children)) {
+                if (!seen.has(normalized(block))) break;
+                block.remove();
+            }
+
+            for (const heading of Array.from(page.querySelectorAll('h1, h2, h3'))) {
+                if (seen.has(normalized(heading))) heading.remove();
+            }
+
+            const marker = document.createElement('hr');
+            marker.setAttribute('data-page', String(index + 1));
+            combined.appendChild(marker);
+        }
+
+        for (const element of Array.from(page.querySelectorAll('*'))) {
+            const text = normalized(element);
+            if (text && text.length < 500) seen.add(text);
+        }
+
+        while (page.firstChild) combined.appendChild(page.firstChild);
+    });
+
+    return combined.innerHTML;
+}
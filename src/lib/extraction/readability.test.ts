@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs';
+import { parseHTML } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { extractArticle } from './readability';
+
+interface Fixture {
+    file: string;
+    title: string;
+    author?: string;
+    publishedDate?: string;
+    body: string[]; // sentences the extracted body must keep, in order
+    boilerplate: string[]; // text that must not end up in the body
+}
+
+const FIXTURES: Fixture[] = [
+    {
+        file: 'blog.html',
+        title: 'Why I Switched Back to Paper Notebooks',
+        author: 'Ada Lindqvist',
+        publishedDate: '2024-03-14T09:00:00Z',
+        body: [
+            'For almost a decade I kept every note in an app',
+            'Last spring I bought a cheap notebook',
+            'Writing slowly is the point',
+            'The notebook is not an archive.',
+            'my own thoughts now live on paper',
+        ],
+        boilerplate: ['Archive', 'Tweet', '3 comments', 'Great post', 'All rights reserved'],
+    },
+    {
+        file: 'news.html',
+        title: 'City council approves new cycle lanes on Harbour Road',
+        author: 'Mo Chen',
+        publishedDate: '2024-05-02T16:30:00+01:00',
+        body: [
+            'The city council voted on Tuesday evening',
+            'The plan, which passed by nine votes to four',
+            'Supporters said the change would make the route safer',
+            'Harbour Road at rush hour, where the new lanes will be built.',
+            'Construction is expected to begin in September',
+        ],
+        boilerplate: [
+            'Most read',
+            'Ferry timetable',
+            'Advertisement',
+            'Cycling numbers hit record high',
+            'morning briefing',
+            'Subscribe today',
+            'Ledger Media Group',
+        ],
+    },
+    {
+        file: 'nested-divs.html',
+        title: 'A Field Guide to Sourdough Starters',
+        body: [
+            'A starter is nothing more than flour and water',
+            'Feed it once a day at room temperature',
+            'If a grey liquid collects on top',
+            'Whole grain rye flour ferments fastest',
+        ],
+        boilerplate: ['Sign in', 'Popular:', 'Focaccia', 'Made with flour, water and patience'],
+    },
+    {
+        file: 'no-main.html',
+        title: 'Notes on the 1911 Census',
+        body: [
+            'The 1911 census was the first in which householders',
+            'It also asked married women',
+            'Occupations were recorded in far more detail',
+            'Some suffragettes boycotted the census',
+        ],
+        // With the article straight in <body>, body-level paragraphs such as
+        // the "last updated" line are kept; only the link table goes
+        boilerplate: ['Genealogy', 'Links'],
+    },
+];
+
+function loadFixture(file: string): Document {
+    const html = readFileSync(new URL(`./fixtures/readability/${file}`, import.meta.url), 'utf8');
+    return parseHTML(html).document;
+}
+
+function textOf(html: string): string {
+    const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+    return (document.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+describe('extractArticle', () => {
+    describe.each(FIXTURES)('$file', fixture => {
+        const article = extractArticle(loadFixture(fixture.file));
+        const text = textOf(article.content);
+
+        it('reads the title, byline and date', () => {
+            expect(article.title).toBe(fixture.title);
+            expect(article.author).toBe(fixture.author);
+            expect(article.publishedDate).toBe(fixture.publishedDate);
+        });
+
+        it('keeps the whole article body in order', () => {
+            let position = -1;
+            for (const sentence of fixture.body) {
+                const found = text.indexOf(sentence, position + 1);
+                expect(found, sentence).toBeGreaterThan(position);
+                position = found;
+            }
+        });
+
+        it('leaves out navigation, sidebars and other page chrome', () => {
+            for (const chrome of fixture.boilerplate) {
+                expect(text).not.toContain(chrome);
+            }
+        });
+
+        it('drops the headline from the body', () => {
+            expect(article.content).not.toMatch(/<h1[\s>]/);
+        });
+    });
+});
@@ -0,0 +1,363 @@
+// Article Extraction
+// Finds the main body of a web page the way reader modes do: paragraphs
+// score their ancestors by text length and commas, class names and link
+// density adjust the scores, and the best container is kept together with
+// siblings that look like part of the same article. Works on any DOM
+// Document (linkedom on the server, DOMParser in the browser).
+
+export interface ExtractedArticle {
+    title: string;
+    content: string; // HTML of the article body
+    author?: string;
+    publishedDate?: string;
+}
+
+// Removed before scoring; never part of an article body
+const NON_CONTENT_TAGS = [
+    'script', 'style', 'noscript', 'template', 'link', 'meta',
+    'iframe', 'frame', 'object', 'embed', 'svg', 'canvas',
+    'form', 'button', 'input', 'select', 'textarea', 'dialog',
+    'nav', 'footer', 'aside',
+];
+
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tags|tool|popup|promo|widget|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story|entry|post|text/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|social|tags|tool|widget/i;
+
+// Elements whose text is scored as a paragraph
+const PARAGRAPH_TAGS = new Set(['P', 'PRE', 'TD', 'BLOCKQUOTE']);
+const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DIV', 'DL', 'FIGURE', 'FOOTER', 'FORM',
+    'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'UL',
+]);
+
+// Tables, lists and divs with this little text and this many links are boilerplate
+const MIN_PARAGRAPH_LENGTH = 25;
+const MAX_LINK_DENSITY = 0.5;
+
+// ============================================
+// Metadata
+// ============================================
+
+function metaContent(document: Document, selectors: string[]): string | undefined {
+    for (const selector of selectors) {
+        const value = document.querySelector(selector)?.getAttribute('content')?.trim();
+        if (value) return value;
+    }
+    return undefined;
+}
+
+function innerText(element: Element | null): string {
+    return (element?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The page title without a trailing " | Site Name", unless stripping it
+ * leaves too little to be a headline
+ */
+function getTitle(document: Document): string {
+    const title = metaContent(document, ['meta[property="og:title"]', 'meta[name="twitter:title"]']);
+    if (title) return title;
+
+    const documentTitle = innerText(document.querySelector('title'));
+    const headline = documentTitle.replace(/\s+[|\-–—»·]\s+[^|\-–—»·]*$/, '');
+    if (headline !== documentTitle && headline.split(' ').length >= 3) return headline;
+
+    return documentTitle || innerText(document.querySelector('h1'));
+}
+
+function getAuthor(document: Document): string | undefined {
+    const author = metaContent(document, [
+        'meta[name="author"]',
+        'meta[property="article:author"]',
+        'meta[name="twitter:creator"]',
+    ]);
+    // article:author is often a profile URL rather than a name
+    if (author && !/^https?:\/\//i.test(author)) return author;
+
+    const byline = document.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+    const name = innerText(byline).replace(/^by\s+/i, '');
+    return name && name.length < 100 ? name : undefined;
+}
+
+function getPublishedDate(document: Document): string | undefined {
+    return metaContent(document, [
+        'meta[property="article:published_time"]',
+        'meta[itemprop="datePublished"]',
+        'meta[name="date"]',
+        'meta[name="pubdate"]',
+    ]) || document.querySelector('time[datetime]')?.getAttribute('datetime') || undefined;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+function matchString(element: Element): string {
+    return `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+}
+
+function isHidden(element: Element): boolean {
+    const style = element.getAttribute('style') || '';
+    return element.hasAttribute('hidden')
+        || element.getAttribute('aria-hidden') === 'true'
+        || /display\s*:\s*none|visibility\s*:\s*hidden/i.test(style);
+}
+
+/**
+ * Drop scripts, chrome and hidden or unlikely-looking elements. Containers
+ * whose names also suggest content are kept.
+ */
+function removeBoilerplate(body: HTMLElement): void {
+    for (const element of Array.from(body.querySelectorAll(NON_CONTENT_TAGS.join(',')))) {
+        element.remove();
+    }
+
+    for (const element of Array.from(body.querySelectorAll('*'))) {
+        if (!body.contains(element) || element.tagName === 'ARTICLE' || element.tagName === 'MAIN') continue;
+
+        const names = matchString(element);
+        const unlikely = UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATE.test(names)
+            && !element.closest('table, code');
+        if (isHidden(element) || unlikely || element.getAttribute('role') === 'complementary') {
+            element.remove();
+        }
+    }
+}
+
+function classWeight(element: Element): number {
+    let weight = 0;
+    const className = element.getAttribute('class');
+    const id = element.getAttribute('id');
+
+    if (className && NEGATIVE.test(className)) weight -= 25;
+    if (className && POSITIVE.test(className)) weight += 25;
+    if (id && NEGATIVE.test(id)) weight -= 25;
+    if (id && POSITIVE.test(id)) weight += 25;
+
+    return weight;
+}
+
+function initialScore(element: Element): number {
+    switch (element.tagName) {
+        case 'DIV':
+        case 'ARTICLE':
+        case 'MAIN':
+            return 5 + classWeight(element);
+        case 'SECTION':
+        case 'PRE':
+        case 'TD':
+        case 'BLOCKQUOTE':
+            return 3 + classWeight(element);
+        case 'ADDRESS':
+        case 'OL':
+        case 'UL':
+        case 'DL':
+        case 'DD':
+        case 'DT':
+        case 'LI':
+            return -3 + classWeight(element);
+        case 'H1':
+        case 'H2':
+        case 'H3':
+        case 'H4':
+        case 'H5':
+        case 'H6':
+        case 'TH':
+            return -5 + classWeight(element);
+        default:
+            return classWeight(element);
+    }
+}
+
+/**
+ * Share of an element's text that sits inside links (0 to 1)
+ */
+function linkDensity(element: Element): number {
+    const length = innerText(element).length;
+    if (!length) return 0;
+
+    let linkLength = 0;
+    for (const link of Array.from(element.querySelectorAll('a'))) {
+        // In-page anchors are usually footnotes, which belong to the text
+        const weight = link.getAttribute('href')?.startsWith('#') ? 0.3 : 1;
+        linkLength += innerText(link).length * weight;
+    }
+    return linkLength / length;
+}
+
+// A div made only of inline content reads as a paragraph
+function isParagraph(element: Element): boolean {
+    if (PARAGRAPH_TAGS.has(element.tagName)) return true;
+    return element.tagName === 'DIV' && !Array.from(element.children).some(child => BLOCK_TAGS.has(child.tagName));
+}
+
+/**
+ * Score every ancestor of each paragraph: the parent gets the paragraph's
+ * full score, the grandparent half and further ancestors less again
+ */
+function scoreCandidates(body: HTMLElement): Map<Element, number> {
+    const scores = new Map<Element, number>();
+
+    for (const paragraph of Array.from(body.querySelectorAll('p, pre, td, blockquote, div'))) {
+        if (!isParagraph(paragraph)) continue;
+
+        const text = innerText(paragraph);
+        if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+        const points = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+        let ancestor = paragraph.parentElement;
+        for (let level = 0; ancestor && level < 5; level++) {
+            if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+            const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+            scores.set(ancestor, scores.get(ancestor)! + points / divider);
+            if (ancestor === body) break;
+            ancestor = ancestor.parentElement;
+        }
+    }
+
+    for (const [element, score] of scores) {
+        scores.set(element, score * (1 - linkDensity(element)));
+    }
+    return scores;
+}
+
+function topCandidate(body: HTMLElement, scores: Map<Element, number>): Element {
+    let best: Element = body;
+    let bestScore = -Infinity;
+    for (const [element, score] of scores) {
+        if (score > bestScore) {
+            best = element;
+            bestScore = score;
+        }
+    }
+
+    // A parent that scores nearly as well usually holds more of the article
+    // (e.g. the body split across several sibling divs)
+    let parent = best.parentElement;
+    while (parent && best !== body) {
+        const parentScore = scores.get(parent);
+        if (parentScore === undefined || parentScore < bestScore * 0.75) break;
+        best = parent;
+        bestScore = parentScore;
+        parent = best.parentElement;
+    }
+    return best;
+}
+
+/**
+ * The top candidate plus the siblings that belong with it: well-scored
+ * ones, and plain prose paragraphs the scoring missed
+ */
+function collectArticle(document: Document, top: Element, scores: Map<Element, number>): Element {
+    const parent = top.parentElement;
+    if (!parent || top.tagName === 'BODY') return top;
+
+    const topScore = scores.get(top) || 0;
+    const threshold = Math.max(10, topScore * 0.2);
+    const topClass = top.getAttribute('class');
+    const article = document.createElement('div');
+
+    for (const sibling of Array.from(parent.children)) {
+        let keep = sibling === top;
+
+        if (!keep) {
+            let score = scores.get(sibling) || 0;
+            if (topClass && sibling.getAttribute('class') === topClass) score += topScore * 0.2;
+            keep = score >= threshold;
+        }
+
+        if (!keep && sibling.tagName === 'P') {
+            const text = innerText(sibling);
+            const density = linkDensity(sibling);
+            keep = (text.length > 80 && density < 0.25)
+                || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+        }
+
+        if (keep) article.appendChild(sibling);
+    }
+    return article;
+}
+
+// ============================================
+// Cleanup
+// ============================================
+
+/**
+ * Remove lists, tables and divs that are mostly links or hold almost no
+ * text, such as share bars and "more stories" blocks left inside the article
+ */
+function removeLowContent(article: Element): void {
+    const containers = Array.from(article.querySelectorAll('div, section, ul, ol, table')).reverse();
+
+    for (const container of containers) {
+        if (!article.contains(container)) continue; // inside one already removed
+
+        const text = innerText(container);
+        const media = container.querySelectorAll('img, picture, video, audio, figure').length;
+        const paragraphs = container.querySelectorAll('p').length;
+        const density = linkDensity(container);
+
+        if (classWeight(container) < 0 && text.length < 200) {
+            container.remove();
+        } else if (!text && !media) {
+            container.remove();
+        } else if (density > MAX_LINK_DENSITY && classWeight(container) < 25 && text.length < 1000) {
+            container.remove();
+        } else if (container.tagName !== 'TABLE' && media > 1 && paragraphs === 0 && text.length < MIN_PARAGRAPH_LENGTH) {
+            container.remove();
+        }
+    }
+}
+
+function removeEmptyElements(article: Element): void {
+    const keepEmpty = 'img, picture, video, audio, source, br, hr, td, th';
+    for (const element of Array.from(article.querySelectorAll('*')).reverse()) {
+        if (element.matches(keepEmpty) || element.querySelector(keepEmpty)) continue;
+        if (!innerText(element)) element.remove();
+    }
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Extract the title, byline, date and main body of a parsed page. The
+ * document is modified in place. The body still carries the page's own
+ * attributes; pass it through `sanitizeHtml` before storing it.
+ */
+export function extractArticle(document: Document): ExtractedArticle {
+    const title = getTitle(document);
+    const author = getAuthor(document);
+    const publishedDate = getPublishedDate(document);
+
+    const body = document.body;
+    if (!body) return { title, content: '', author, publishedDate };
+
+    for (const comment of collectComments(body)) comment.remove();
+    removeBoilerplate(body);
+
+    const scores = scoreCandidates(body);
+    const article = collectArticle(document, topCandidate(body, scores), scores);
+
+    removeLowContent(article);
+    for (const heading of Array.from(article.querySelectorAll('h1'))) {
+        // The headline is shown separately
+        if (innerText(heading) === title) heading.remove();
+    }
+    removeEmptyElements(article);
+
+    return { title, content: article.innerHTML.trim(), author, publishedDate };
+}
+
+function collectComments(root: Node): ChildNode[] {
+    const comments: ChildNode[] = [];
+    for (const child of Array.from(root.childNodes)) {
+        if (child.nodeType === 8) comments.push(child); // Node.COMMENT_NODE
+        else comments.push(...collectComments(child));
+    }
+    return comments;
+}
@@ -0,0 +1,151 @@
+import { parseHTML } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, sanitizeHtml } from './sanitize';
+
+function sanitize(html: string): string {
+    const { document } = parseHTML('<!DOCTYPE html><html><body></body></html>');
+    return sanitizeHtml(html, document);
+}
+
+/**
+ * Parse the output again, as the reader does when it renders it, and check
+ * nothing in it can run script
+ */
+function expectInert(html: string): void {
+    const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+
+    expect(document.body.querySelector('script, style, svg, math, noscript, iframe, object, embed')).toBeNull();
+    for (const element of Array.from(document.body.querySelectorAll('*'))) {
+        for (const name of element.getAttributeNames()) {
+            expect(name, `<${element.localName} ${name}>`).not.toMatch(/^on/i);
+            expect(element.getAttribute(name) || '').not.toMatch(/^\s*(?:java|vb)script:/i);
+        }
+    }
+
+    // Sanitizing again must not change anything: markup that reads
+    // differently the second time round is what mutation XSS exploits
+    expect(sanitize(html)).toBe(html);
+}
+
+describe('sanitizeHtml', () => {
+    describe('javascript: URLs', () => {
+        it.each([
+            ['a tab inside the scheme', '<a href="java\tscript:alert(1)">link</a>'],
+            ['an encoded tab inside the scheme', '<a href="java&#x09;script:alert(1)">link</a>'],
+            ['a newline inside the scheme', '<a href="java\nscript:alert(1)">link</a>'],
+            ['leading control characters', '<a href="\u0001 javascript:alert(1)">link</a>'],
+            ['a decimal entity-encoded scheme', '<a href="&#106;&#97;vascript:alert(1)">link</a>'],
+            ['a hex entity-encoded scheme', '<a href="&#x6A;&#x61;vascript:alert(1)">link</a>'],
+            ['an entity-encoded colon', '<a href="javascript&colon;alert(1)">link</a>'],
+            ['a mixed-case scheme', '<a href="JaVaScRiPt:alert(1)">link</a>'],
+        ])('drops a link with %s', (_, html) => {
+            const output = sanitize(html);
+            expect(output).toBe('<a>link</a>');
+            expectInert(output);
+        });
+
+        it('keeps http, https, mailto and relative links', () => {
+            expect(sanitize('<a href="https://example.com/a">a</a>')).toContain('href="https://example.com/a"');
+            expect(sanitize('<a href="mailto:me@example.com">b</a>')).toContain('href="mailto:me@example.com"');
+            expect(sanitize('<a href="/relative/path">c</a>')).toContain('href="/relative/path"');
+        });
+
+        it('drops javascript: from every URL attribute', () => {
+            const output = sanitize(
+                '<blockquote cite="javascript:alert(1)"><p>quote</p></blockquote><img src="javascript:alert(1)">'
+            );
+            expect(output).toBe('<blockquote><p>quote</p></blockquote>');
+        });
+    });
+
+    describe('event handlers', () => {
+        it('removes onerror and onload from images', () => {
+            const output = sanitize('<img src="a.jpg" onerror="alert(1)" onload=alert(2)>');
+            expect(output).toBe('<img src="a.jpg">');
+        });
+
+        it('removes handlers from kept and unwrapped elements', () => {
+            const output = sanitize('<p onclick="alert(1)">one <custom-tag onmouseover="alert(2)">two</custom-tag></p>');
+            expect(output).toBe('<p>one two</p>');
+        });
+
+        it('keeps markup in attribute values as text', () => {
+            const output = sanitize('<p title="</p><img src=x onerror=alert(1)>">text</p>');
+            expect(output).toContain('text');
+            expectInert(output);
+        });
+    });
+
+    describe('srcset', () => {
+        it('drops a srcset with any unsafe candidate and keeps the src', () => {
+            const output = sanitize('<img src="a.jpg" srcset="b.jpg 1x, javascript:alert(1) 2x">');
+            expect(output).toBe('<img src="a.jpg">');
+        });
+
+        it('drops sources whose only srcset is unsafe', () => {
+            const output = sanitize(
+                '<picture><source srcset="data:image/svg+xml;base64,PHN2Zz4="><img src="a.jpg"></picture>'
+            );
+            expect(output).toBe('<picture><img src="a.jpg"></picture>');
+        });
+
+        it('keeps a srcset whose URLs contain commas', () => {
+            const html = '<img src="a.jpg" srcset="https://cdn.example.com/w_400,h_300/a.jpg 1x, b.jpg 2x">';
+            expect(sanitize(html)).toBe(html);
+        });
+
+        it('only inlines raster data images', () => {
+            expect(sanitize('<img src="data:image/png;base64,iVBORw0KGgo=">')).toBe('<img src="data:image/png;base64,iVBORw0KGgo=">');
+            expect(sanitize('<img src="data:image/svg+xml;base64,PHN2Zz4=">')).toBe('');
+            expect(sanitize('<img src="data:text/html,<script>alert(1)</script>">')).toBe('');
+        });
+    });
+
+    describe('mutation XSS', () => {
+        it.each([
+            ['style inside math', '<math><mi><style><img src=x onerror=alert(1)></style></mi></math>'],
+            ['mglyph and style in a math table', '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>'],
+            ['nested forms around math', '<form><math><mtext></form><form><mglyph><style></math><img src onerror=alert(1)>'],
+            ['style inside svg', '<svg><p><style><img src=x onerror=alert(1)></style></p></svg>'],
+            ['a comment closing early inside style', '<style><!--</style><img src=x onerror=alert(1)>--></style>'],
+        ])('leaves nothing runnable from %s', (_, html) => {
+            expectInert(sanitize(html));
+        });
+    });
+
+    describe('noscript', () => {
+        it('drops noscript whose attribute text closes it early', () => {
+            const output = sanitize('<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>');
+            expectInert(output);
+        });
+
+        it('drops noscript content entirely', () => {
+            expect(sanitize('<p>before</p><noscript><p>enable JavaScript</p></noscript><p>after</p>'))
+                .toBe('<p>before</p><p>after</p>');
+        });
+    });
+
+    describe('links', () => {
+        it('opens external links outside the reader', () => {
+            const output = sanitize('<a href="https://example.com">x</a>');
+            expect(output).toContain('target="_blank"');
+            expect(output).toContain('rel="noopener noreferrer nofollow"');
+        });
+
+        it('leaves in-page anchors alone', () => {
+            expect(sanitize('<a href="#note-1">1</a>')).toBe('<a href="#note-1">1</a>');
+        });
+    });
+});
+
+describe('isSafeUrl', () => {
+    it('ignores whitespace and control characters in the scheme', () => {
+        expect(isSafeUrl(' j\ta\nv\ra\u0000script:alert(1)', ['http', 'https'])).toBe(false);
+        expect(isSafeUrl('\u0085javascript:alert(1)', ['http', 'https'])).toBe(false);
+    });
+
+    it('allows URLs without a scheme', () => {
+        expect(isSafeUrl('images/a.jpg', ['http'])).toBe(true);
+        expect(isSafeUrl('//cdn.example.com/a.jpg', ['http'])).toBe(true);
+    });
+});
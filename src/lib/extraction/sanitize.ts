@@ -0,0 +1,188 @@
+// HTML Sanitizer
+// Article HTML comes from arbitrary sites and is injected into the reader,
+// so it is reduced to an explicit allowlist of tags, attributes and URL
+// schemes. Runs on a parsed tree rather than on the markup string, so
+// malformed or obfuscated markup is judged the way a browser would read it.
+// Applied when an article is fetched and again before it is rendered.
+
+import { parseSrcset } from './urls';
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+    'script', 'style', 'template', 'noscript', 'noembed', 'noframes',
+    'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'portal',
+    'svg', 'math', 'canvas', 'video', 'audio', 'track',
+    'form', 'input', 'button', 'select', 'option', 'textarea', 'dialog',
+    'head', 'title', 'base', 'link', 'meta',
+]);
+
+// Kept with the listed attributes. Tags that are neither kept nor dropped
+// are unwrapped: their content stays, the element goes.
+const ALLOWED_TAGS = new Map<string, string[]>(Object.entries({
+    a: ['href'],
+    abbr: [],
+    article: [],
+    b: [],
+    bdi: [],
+    bdo: [],
+    blockquote: ['cite'],
+    br: [],
+    caption: [],
+    cite: [],
+    code: [],
+    col: ['span'],
+    colgroup: ['span'],
+    dd: [],
+    del: ['cite', 'datetime'],
+    details: [],
+    dfn: [],
+    div: [],
+    dl: [],
+    dt: [],
+    em: [],
+    figcaption: [],
+    figure: [],
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    hr: ['data-page'], // page break in a stitched multi-page article
+    i: [],
+    img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height'],
+    ins: ['cite', 'datetime'],
+    kbd: [],
+    li: ['value'],
+    mark: [],
+    ol: ['start', 'reversed', 'type'],
+    p: [],
+    picture: [],
+    pre: [],
+    q: ['cite'],
+    s: [],
+    samp: [],
+    section: [],
+    small: [],
+    source: ['srcset', 'sizes', 'type', 'media'],
+    span: [],
+    strong: [],
+    sub: [],
+    summary: [],
+    sup: [],
+    table: [],
+    tbody: [],
+    td: ['colspan', 'rowspan', 'headers'],
+    tfoot: [],
+    th: ['colspan', 'rowspan', 'headers', 'scope'],
+    thead: [],
+    time: ['datetime'],
+    tr: [],
+    u: [],
+    ul: [],
+    var: [],
+    wbr: [],
+}));
+
+const GLOBAL_ATTRIBUTES = ['title', 'lang', 'dir'];
+
+// Attributes holding one URL, and the schemes each may use. Relative URLs
+// (no scheme) are always allowed.
+const URL_ATTRIBUTES: Record<string, string[]> = {
+    href: ['http', 'https', 'mailto'],
+    src: ['http', 'https', 'data'],
+    cite: ['http', 'https'],
+};
+
+// Only raster images may be inlined; data:image/svg+xml can carry script
+const SAFE_DATA_URL = /^data:image\/(?:png|gif|jpeg|webp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * Whether a URL may appear in an attribute. Browsers ignore whitespace and
+ * control characters inside the scheme ("java\tscript:"), so those are
+ * removed before the scheme is read.
+ */
+export function isSafeUrl(url: string, schemes: string[]): boolean {
+    const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+    const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+
+    if (!scheme) return true;
+    if (!schemes.includes(scheme)) return false;
+    return scheme !== 'data' || SAFE_DATA_URL.test(normalized);
+}
+
+// "a.jpg 1x, b.jpg 2x": every candidate must be safe
+function isSafeSrcset(srcset: string): boolean {
+    return parseSrcset(srcset).every(({ url }) => isSafeUrl(url, ['http', 'https']));
+}
+
+function sanitizeAttributes(element: Element, tag: string, tagAttributes: string[]): void {
+    const allowed = [...GLOBAL_ATTRIBUTES, ...tagAttributes];
+
+    for (const name of element.getAttributeNames()) {
+        const value = element.getAttribute(name) || '';
+        const lower = name.toLowerCase();
+
+        const keep = allowed.includes(lower)
+            && (!(lower in URL_ATTRIBUTES) || isSafeUrl(value, URL_ATTRIBUTES[lower]))
+            && (lower !== 'srcset' || isSafeSrcset(value));
+        if (!keep) element.removeAttribute(name);
+    }
+
+    // Links leave the reader rather than replacing it
+    if (tag === 'a' && element.hasAttribute('href') && !element.getAttribute('href')!.startsWith('#')) {
+        element.setAttribute('target', '_blank');
+        element.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+}
+
+function sanitizeChildren(parent: Node): void {
+    for (const node of Array.from(parent.childNodes)) {
+        if (node.nodeType === TEXT_NODE) continue;
+
+        // Comments, processing instructions and CDATA carry nothing worth reading
+        if (node.nodeType !== ELEMENT_NODE) {
+            node.parentNode?.removeChild(node);
+            continue;
+        }
+
+        const element = node as Element;
+        const tag = element.localName.toLowerCase();
+
+        if (DROPPED_TAGS.has(tag)) {
+            element.remove();
+            continue;
+        }
+
+        sanitizeChildren(element);
+
+        const tagAttributes = ALLOWED_TAGS.get(tag);
+        if (!tagAttributes) {
+            element.replaceWith(...Array.from(element.childNodes));
+            continue;
+        }
+
+        sanitizeAttributes(element, tag, tagAttributes);
+
+        // Images whose only source was unsafe show nothing
+        if ((tag === 'img' && !element.hasAttribute('src')) || (tag === 'source' && !element.hasAttribute('srcset'))) {
+            element.remove();
+        }
+    }
+}
+
+/**
+ * Sanitize an HTML fragment. It is parsed into `document`, which must be
+ * inert (linkedom on the server, or a document made with
+ * `document.implementation.createHTMLDocument` in the browser) so nothing
+ * in the markup loads or runs while it is being checked.
+ */
+export function sanitizeHtml(html: string, document: Document): string {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    sanitizeChildren(container);
+    return container.innerHTML;
+}
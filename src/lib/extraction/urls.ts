@@ -0,0 +1,132 @@
+// Article URL Resolution
+// Extracted HTML is shown under /reader/[id], where the page's relative
+// links and image paths would point at Co-Reader itself. Rewrites them to
+// absolute URLs against the page (or its <base>) and promotes lazy-loading
+// attributes so images show without the site's scripts.
+
+// Attributes that hold one URL, by tag
+const URL_ATTRIBUTES: [selector: string, attribute: string][] = [
+    ['a[href]', 'href'],
+    ['img[src]', 'src'],
+    ['blockquote[cite], q[cite], del[cite], ins[cite]', 'cite'],
+];
+
+// Where lazy-loading scripts keep the real image until it scrolls into view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-hi-res-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+// A tiny inline GIF or SVG, or a file named like one, stands in for the real image
+const PLACEHOLDER_SRC = /^data:image\/(?:gif|svg\+xml|png);|(?:blank|placeholder|spacer|transparent|pixel|lazy)[^/]*\.(?:gif|png|svg)/i;
+
+/**
+ * Resolve a URL against a base, or null if it cannot be. In-page anchors
+ * are left as they are so footnote links keep working.
+ */
+export function resolveUrl(value: string, base: URL): string | null {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('#')) return trimmed;
+
+    try {
+        return new URL(trimmed, base).toString();
+    } catch {
+        return null;
+    }
+}
+
+export interface SrcsetCandidate {
+    url: string;
+    descriptor: string; // e.g. "2x" or "640w", or ''
+}
+
+/**
+ * Split a srcset into its candidates the way browsers do: a URL runs to
+ * the next whitespace (so it may contain commas) and trailing commas end
+ * a candidate that has no descriptor
+ */
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    let rest = srcset;
+
+    for (;;) {
+        rest = rest.replace(/^[\s,]+/, '');
+        if (!rest) return candidates;
+
+        const url = rest.match(/^\S+/)![0];
+        rest = rest.slice(url.length);
+
+        if (url.endsWith(',')) {
+            candidates.push({ url: url.replace(/,+$/, ''), descriptor: '' });
+        } else {
+            const descriptor = rest.match(/^[^,]*/)![0];
+            rest = rest.slice(descriptor.length);
+            candidates.push({ url, descriptor: descriptor.trim() });
+        }
+    }
+}
+
+// "a.jpg 1x, /b.jpg 2x" -> "https://site/a.jpg 1x, https://site/b.jpg 2x"
+function resolveSrcset(srcset: string, base: URL): string {
+    return parseSrcset(srcset)
+        .map(({ url, descriptor }) => {
+            const resolved = resolveUrl(url, base);
+            return resolved ? `${resolved} ${descriptor}`.trim() : '';
+        })
+        .filter(Boolean)
+        .join(', ');
+}
+
+/**
+ * The URL relative links on a page are resolved against: its first
+ * <base href> when that is http(s), otherwise the page's own URL
+ */
+function baseUrl(document: Document, pageUrl: string): URL {
+    const page = new URL(pageUrl);
+    const href = document.querySelector('base[href]')?.getAttribute('href');
+    if (!href) return page;
+
+    try {
+        const base = new URL(href, page);
+        return base.protocol === 'http:' || base.protocol === 'https:' ? base : page;
+    } catch {
+        return page;
+    }
+}
+
+function promoteLazyImage(image: Element): void {
+    const src = image.getAttribute('src') || '';
+    const lazySrc = LAZY_SRC_ATTRIBUTES.map(name => image.getAttribute(name)).find(Boolean);
+    if (lazySrc && (!src || PLACEHOLDER_SRC.test(src))) {
+        image.setAttribute('src', lazySrc);
+    }
+
+    const lazySrcset = LAZY_SRCSET_ATTRIBUTES.map(name => image.getAttribute(name)).find(Boolean);
+    if (lazySrcset) image.setAttribute('srcset', lazySrcset);
+}
+
+/**
+ * Make every link and image URL in a fetched page absolute. `pageUrl` is
+ * the URL the page was finally served from, after redirects. Works on the
+ * whole document, before the article body is extracted.
+ */
+export function resolveDocumentUrls(document: Document, pageUrl: string): void {
+    const base = baseUrl(document, pageUrl);
+
+    for (const element of Array.from(document.querySelectorAll('img, source'))) {
+        if (element.localName === 'img') promoteLazyImage(element);
+        else {
+            const lazySrcset = LAZY_SRCSET_ATTRIBUTES.map(name => element.getAttribute(name)).find(Boolean);
+            if (lazySrcset) element.setAttribute('srcset', lazySrcset);
+        }
+
+        const srcset = element.getAttribute('srcset');
+        if (srcset) element.setAttribute('srcset', resolveSrcset(srcset, base));
+    }
+
+    for (const [selector, attribute] of URL_ATTRIBUTES) {
+        for (const element of Array.from(document.querySelectorAll(selector))) {
+            const resolved = resolveUrl(element.getAttribute(attribute) || '', base);
+            if (resolved) element.setAttribute(attribute, resolved);
+            else element.removeAttribute(attribute);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+// Vercel Blob Driver
+// Blobs are public in Vercel Blob, so names get a random suffix to keep the
+// URL unguessable; it is only ever read back through the file proxy.
+// Multipart handles are the JSON of what Vercel Blob needs to resume an upload.
+// Parts are sent by the browser straight to Vercel Blob with a client token:
+// Vercel Blob wants parts of at least 5MB, and Vercel functions refuse request
+// bodies over 4.5MB, so they cannot pass through the server.
+
+import { put, del, head, createMultipartUpload, uploadPart, completeMultipartUpload } from '@vercel/blob';
+import { generateClientTokenFromReadWriteToken } from '@vercel/blob/client';
+import { ByteRange, DirectUpload, FileStorageDriver, UploadedPart } from './types';
+
+// Multipart uploads lift the single-request limit
+const MAX_SIZE = 500 * 1024 * 1024;
+
+// Vercel Blob rejects parts under 5MB other than the last
+const PART_SIZE = 5 * 1024 * 1024;
+
+interface BlobUpload {
+    pathname: string;
+    key: string;
+    uploadId: string;
+}
+
+const BLOB_OPTIONS = { access: 'public', addRandomSuffix: true } as const;
+
+export function createBlobDriver(): FileStorageDriver {
+    return {
+        maxSize: MAX_SIZE,
+        partSize: PART_SIZE,
+
+        async put(file: Blob, name: string): Promise<string> {
+            const blob = await put(`pdfs/${name}`, file, BLOB_OPTIONS);
+            return blob.url;
+        },
+
+        async size(key: string): Promise<number | null> {
+            try {
+                return (await head(key)).size;
+            } catch {
+                return null;
+            }
+        },
+
+        async read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+            const response = await fetch(key, {
+                headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+            });
+            if (!response.ok || !response.body) {
+                throw new Error(`Failed to read file: ${response.status}`);
+            }
+            return response.body;
+        },
+
+        async delete(key: string): Promise<void> {
+            await del(key);
+        },
+
+        async createUpload(name: string): Promise<string> {
+            const pathname = `pdfs/${name}`;
+            const { key, uploadId } = await createMultipartUpload(pathname, BLOB_OPTIONS);
+            const upload: BlobUpload = { pathname, key, uploadId };
+            return JSON.stringify(upload);
+        },
+
+        async putPart(handle: string, partNumber: number, data: Uint8Array): Promise<string> {
+            const { pathname, key, uploadId } = JSON.parse(handle) as BlobUpload;
+            const part = await uploadPart(pathname, Buffer.from(data), { ...BLOB_OPTIONS, key, uploadId, partNumber });
+            return part.etag;
+        },
+
+        async completeUpload(handle: string, parts: UploadedPart[]): Promise<string> {
+            const { pathname, key, uploadId } = JSON.parse(handle) as BlobUpload;
+            const blob = await completeMultipartUpload(pathname, parts, { ...BLOB_OPTIONS, key, uploadId });
+            return blob.url;
+        },
+
+        async abortUpload(): Promise<void> {
+            // Vercel Blob has no abort call; unfinished uploads expire on their own
+        },
+
+        async directUpload(handle: string): Promise<DirectUpload> {
+            const { pathname, key, uploadId } = JSON.parse(handle) as BlobUpload;
+            const token = await generateClientTokenFromReadWriteToken({
+                pathname,
+                addRandomSuffix: true,
+                maximumSizeInBytes: MAX_SIZE,
+            });
+            return { pathname, key, uploadId, token };
+        },
+    };
+}
@@ -0,0 +1,132 @@
+// Local Disk Driver
+// Files are content-addressed: the key is the SHA-256 of the bytes, stored as
+// <dir>/<first two hex chars>/<hash>.pdf, so identical uploads share one file.
+// Multipart uploads stage their parts under <dir>/uploads/<handle>/ and are
+// streamed into place on completion, so a large file is never held in memory.
+
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, rm, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ByteRange, FileStorageDriver, UploadedPart } from './types';
+
+const DEFAULT_MAX_SIZE = 500 * 1024 * 1024;
+const PART_SIZE = 4 * 1024 * 1024;
+const KEY_PATTERN = /^[0-9a-f]{64}\.pdf$/;
+const HANDLE_PATTERN = /^[0-9a-f]{32}$/;
+
+function isMissing(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export function createDiskDriver(directory: string, maxSize = DEFAULT_MAX_SIZE): FileStorageDriver {
+    const root = path.resolve(directory);
+
+    // Keys come from the database, but never let one point outside the root
+    const pathFor = (key: string): string => {
+        if (!KEY_PATTERN.test(key)) throw new Error('Invalid file key');
+        return path.join(root, key.slice(0, 2), key);
+    };
+
+    const stagingFor = (handle: string): string => {
+        if (!HANDLE_PATTERN.test(handle)) throw new Error('Invalid upload handle');
+        return path.join(root, 'uploads', handle);
+    };
+
+    return {
+        maxSize,
+        partSize: PART_SIZE,
+
+        async put(file: Blob): Promise<string> {
+            const bytes = Buffer.from(await file.arrayBuffer());
+            const key = `${createHash('sha256').update(bytes).digest('hex')}.pdf`;
+            const target = pathFor(key);
+
+            try {
+                await stat(target);
+                return key; // already stored
+            } catch (error) {
+                if (!isMissing(error)) throw error;
+            }
+
+            // Write then rename so readers never see a partial file
+            await mkdir(path.dirname(target), { recursive: true });
+            const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+            await writeFile(temp, bytes);
+            await rename(temp, target);
+            return key;
+        },
+
+        async size(key: string): Promise<number | null> {
+            try {
+                return (await stat(pathFor(key))).size;
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+
+        async read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>> {
+            const stream = createReadStream(pathFor(key), range);
+            return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+        },
+
+        async delete(key: string): Promise<void> {
+            try {
+                await unlink(pathFor(key));
+            } catch (error) {
+                if (!isMissing(error)) throw error;
+            }
+        },
+
+        async createUpload(): Promise<string> {
+            const handle = randomBytes(16).toString('hex');
+            await mkdir(stagingFor(handle), { recursive: true });
+            return handle;
+        },
+
+        async putPart(handle: string, partNumber: number, data: Uint8Array): Promise<string> {
+            const target = path.join(stagingFor(handle), `${partNumber}.part`);
+            const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+            await writeFile(temp, data);
+            await rename(temp, target);
+            return createHash('sha256').update(data).digest('hex');
+        },
+
+        async completeUpload(handle: string, parts: UploadedPart[]): Promise<string> {
+            const staging = stagingFor(handle);
+            const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+            const hash = createHash('sha256');
+            const temp = path.join(staging, 'complete.tmp');
+
+            try {
+                await pipeline(async function* () {
+                    for (const { partNumber } of ordered) {
+                        for await (const chunk of createReadStream(path.join(staging, `${partNumber}.part`))) {
+                            hash.update(chunk);
+                            yield chunk;
+                        }
+                    }
+                }, createWriteStream(temp));
+            } catch (error) {
+                // Keep the parts so the upload can be completed again
+                await rm(temp, { force: true });
+                throw error;
+            }
+
+            const key = `${hash.digest('hex')}.pdf`;
+            const target = pathFor(key);
+            await mkdir(path.dirname(target), { recursive: true });
+            // An identical file may already exist; replacing it with the same bytes is harmless
+            await rename(temp, target);
+            await rm(staging, { recursive: true, force: true });
+            return key;
+        },
+
+        async abortUpload(handle: string): Promise<void> {
+            await rm(stagingFor(handle), { recursive: true, force: true });
+        },
+    };
+}
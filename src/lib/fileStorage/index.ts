@@ -0,0 +1,74 @@
+// File Storage Driver Factory
+// Picks where uploaded PDFs live from server configuration:
+//   FILE_STORAGE_DRIVER = blob (default, Vercel Blob) | disk
+//   FILE_STORAGE_DIR    = directory for the disk driver (default ./data/files)
+//   FILE_STORAGE_MAX_MB = upload size limit for the disk driver (default 500)
+
+import { ByteRange, FileStorageBackend, FileStorageDriver } from './types';
+import { createBlobDriver } from './blobDriver';
+import { createDiskDriver } from './diskDriver';
+
+export type { ByteRange, DirectUpload, FileStorageBackend, FileStorageDriver, UploadedPart } from './types';
+
+const DEFAULT_DISK_DIR = './data/files';
+const PDF_SIGNATURE = '%PDF-';
+
+let driver: FileStorageDriver | null = null;
+
+/**
+ * Get the configured file storage backend
+ */
+export function getFileStorageBackend(): FileStorageBackend {
+    return process.env.FILE_STORAGE_DRIVER === 'disk' ? 'disk' : 'blob';
+}
+
+/**
+ * Get the file storage driver (one instance per server process)
+ */
+export function getFileStorage(): FileStorageDriver {
+    if (!driver) {
+        if (getFileStorageBackend() === 'disk') {
+            const maxMb = Number(process.env.FILE_STORAGE_MAX_MB);
+            driver = createDiskDriver(
+                process.env.FILE_STORAGE_DIR || DEFAULT_DISK_DIR,
+                maxMb > 0 ? maxMb * 1024 * 1024 : undefined
+            );
+        } else {
+            driver = createBlobDriver();
+        }
+    }
+    return driver;
+}
+
+/**
+ * Check the first bytes of a file for the PDF header
+ */
+export function hasPdfSignature(data: Uint8Array): boolean {
+    return Buffer.from(data.subarray(0, PDF_SIGNATURE.length)).toString('latin1') === PDF_SIGNATURE;
+}
+
+/**
+ * Parse a single-range Range header against a file size.
+ * Returns null to serve the whole file, or 'unsatisfiable' for a 416.
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match) return null; // absent, malformed or multi-range: send everything
+
+    const [, startText, endText] = match;
+    if (!startText && !endText) return null;
+
+    let start: number;
+    let end: number;
+    if (!startText) {
+        // Suffix range: the last N bytes
+        start = Math.max(size - Number(endText), 0);
+        end = size - 1;
+    } else {
+        start = Number(startText);
+        end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+    }
+
+    if (start >= size || start > end) return 'unsatisfiable';
+    return { start, end };
+}
@@ -0,0 +1,39 @@
+// File Storage Driver Type Definitions
+
+export type FileStorageBackend = 'blob' | 'disk';
+
+export interface ByteRange {
+    start: number;
+    end: number; // inclusive
+}
+
+export interface UploadedPart {
+    partNumber: number; // 1-based
+    etag: string;
+}
+
+// What the browser needs to send parts straight to storage
+export interface DirectUpload {
+    pathname: string;
+    key: string;
+    uploadId: string;
+    token: string; // client token limited to this upload's pathname
+}
+
+export interface FileStorageDriver {
+    maxSize: number; // largest accepted upload, in bytes
+    partSize: number; // bytes per multipart part; only the last part may be smaller
+    put(file: Blob, name: string): Promise<string>; // returns the key to store
+    size(key: string): Promise<number | null>; // null when the file is missing
+    read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+    delete(key: string): Promise<void>;
+
+    // Multipart uploads. The handle is the driver's own reference to the staged parts.
+    createUpload(name: string): Promise<string>; // returns the handle
+    putPart(handle: string, partNumber: number, data: Uint8Array): Promise<string>; // returns the part's etag
+    completeUpload(handle: string, parts: UploadedPart[]): Promise<string>; // returns the key to store
+    abortUpload(handle: string): Promise<void>;
+    // Set by drivers whose parts are too large to pass through a request to the
+    // server: the browser uploads each part itself and reports its etag
+    directUpload?(handle: string): Promise<DirectUpload>;
+}
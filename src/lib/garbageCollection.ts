@@ -0,0 +1,121 @@
+// Orphan Garbage Collection
+// Finds records whose parent document or highlight no longer exists
+// (left behind by older deletes or interrupted syncs) and removes them
+
+import { getStore } from './storage';
+import {
+    documentsCollection,
+    articlesCollection,
+    highlightsCollection,
+    notesCollection,
+    aiOutputsCollection,
+    vocabularyCollection,
+} from './storage/collections';
+import { cloudDocs } from './cloudDocuments';
+import { getPdfBlobSizes, deletePdfBlob } from './pdfStore';
+import { listArticleImages, deleteArticleImages } from './articleImages';
+
+export interface OrphanReport {
+    highlights: string[];
+    notes: string[];
+    aiOutputs: string[];
+    vocabulary: string[];
+    articles: string[];
+    articleImages: string[]; // IDs of the deleted articles whose images are left
+    imageBytes: number;
+    pdfBlobs: string[];
+    pdfBytes: number;
+}
+
+/**
+ * Count the orphaned records in a report
+ */
+export function countOrphans(report: OrphanReport): number {
+    return (
+        report.highlights.length +
+        report.notes.length +
+        report.aiOutputs.length +
+        report.vocabulary.length +
+        report.articles.length +
+        report.articleImages.length +
+        report.pdfBlobs.length
+    );
+}
+
+/**
+ * Find orphaned records in every local store without changing anything.
+ * Throws if the cloud document list cannot be read in full, since anything
+ * belonging to a document missing from it would be taken for an orphan.
+ */
+export async function findOrphans(): Promise<OrphanReport> {
+    const [localDocuments, cloudDocuments, articles, images, highlights, notes, aiOutputs, vocabulary, pdfSizes] =
+        await Promise.all([
+            getStore(documentsCollection).list(),
+            // Cloud documents are not always cached locally, so count them as live too
+            cloudDocs.requireAll().catch(error => {
+                throw new Error(
+                    `Could not load every document from the server, so nothing was scanned: ${error instanceof Error ? error.message : error}`
+                );
+            }),
+            getStore(articlesCollection).list(),
+            listArticleImages(),
+            getStore(highlightsCollection).list(),
+            getStore(notesCollection).list(),
+            getStore(aiOutputsCollection).list(),
+            getStore(vocabularyCollection).list(),
+            getPdfBlobSizes(),
+        ]);
+
+    const documents = [...localDocuments, ...cloudDocuments];
+    const documentIds = new Set(documents.map(doc => doc.id));
+    const referencedBlobs = new Set(
+        documents
+            .filter(doc => doc.sourcePath?.startsWith('local:'))
+            .map(doc => doc.sourcePath.replace('local:', ''))
+    );
+
+    const orphanHighlights = highlights.filter(h => !documentIds.has(h.documentId));
+    const liveHighlightIds = new Set(
+        highlights.filter(h => documentIds.has(h.documentId)).map(h => h.id)
+    );
+    const orphanBlobs = [...pdfSizes.keys()].filter(id => !referencedBlobs.has(id));
+    const orphanImages = images.filter(image => !documentIds.has(image.documentId));
+
+    return {
+        highlights: orphanHighlights.map(h => h.id),
+        notes: notes.filter(n => !liveHighlightIds.has(n.highlightId)).map(n => n.id),
+        aiOutputs: aiOutputs.filter(o => !liveHighlightIds.has(o.highlightId)).map(o => o.id),
+        // Entries saved without a document are intentional
+        vocabulary: vocabulary.filter(v => v.documentId && !documentIds.has(v.documentId)).map(v => v.id),
+        articles: articles.filter(a => !documentIds.has(a.id)).map(a => a.id),
+        articleImages: Array.from(new Set(orphanImages.map(image => image.documentId))),
+        imageBytes: orphanImages.reduce((sum, image) => sum + image.blob.size, 0),
+        pdfBlobs: orphanBlobs,
+        pdfBytes: orphanBlobs.reduce((sum, id) => sum + (pdfSizes.get(id) || 0), 0),
+    };
+}
+
+/**
+ * Remove the records in an orphan report (finds them first if no report is given)
+ */
+export async function removeOrphans(report?: OrphanReport): Promise<OrphanReport> {
+    const orphans = report || (await findOrphans());
+
+    const removals: [string[], (id: string) => Promise<unknown>][] = [
+        [orphans.highlights, id => getStore(highlightsCollection).delete(id)],
+        [orphans.notes, id => getStore(notesCollection).delete(id)],
+        [orphans.aiOutputs, id => getStore(aiOutputsCollection).delete(id)],
+        [orphans.vocabulary, id => getStore(vocabularyCollection).delete(id)],
+        [orphans.articles, id => getStore(articlesCollection).delete(id)],
+        [orphans.articleImages, deleteArticleImages],
+        [orphans.pdfBlobs, deletePdfBlob],
+    ];
+
+    for (const [ids, remove] of removals) {
+        for (const id of ids) {
+            await remove(id);
+        }
+    }
+
+    return orphans;
+}
@@ -1,11 +1,14 @@
 // Highlights Storage and Management
-// Local storage based for MVP
+// Persisted through the configured storage adapter
 
 import { Highlight, HighlightType, Anchor, Note } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './storage';
+import { highlightsCollection, notesCollection } from './storage/collections';
+import { deleteAIOutputsByHighlight } from './ai';
 
-const HIGHLIGHTS_KEY = 'coreader_highlights';
-const NOTES_KEY = 'coreader_notes';
+const highlightsStore = getStore(highlightsCollection);
+const notesStore = getStore(notesCollection);
 
 // ============================================
 // Highlight CRUD Operations
@@ -14,46 +17,33 @@ const NOTES_KEY = 'coreader_notes';
 /**
  * Get all highlights
  */
-export function getAllHighlights(): Highlight[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(HIGHLIGHTS_KEY);
-    if (!stored) return [];
-
-    try {
-        const highlights = JSON.parse(stored);
-        return highlights.map((h: Highlight) => ({
-            ...h,
-            createdAt: new Date(h.createdAt),
-        }));
-    } catch {
-        return [];
-    }
+export async function getAllHighlights(): Promise<Highlight[]> {
+    return highlightsStore.list();
 }
 
 /**
  * Get highlights for a specific document
  */
-export function getHighlightsByDocument(documentId: string): Highlight[] {
-    return getAllHighlights().filter(h => h.documentId === documentId);
+export async function getHighlightsByDocument(documentId: string): Promise<Highlight[]> {
+    return highlightsStore.query('documentId', documentId);
 }
 
 /**
  * Get a single highlight by ID
  */
-export function getHighlightById(id: string): Highlight | null {
-    return getAllHighlights().find(h => h.id === id) || null;
+export async function getHighlightById(id: string): Promise<Highlight | null> {
+    return highlightsStore.get(id);
 }
 
 /**
  * Create a new highlight
  */
-export function createHighlight(
+export async function createHighlight(
     documentId: string,
     type: HighlightType,
     text: string,
     anchor: Anchor
-): Highlight {
+): Promise<Highlight> {
     const highlight: Highlight = {
         id: uuidv4(),
         documentId,
@@ -61,59 +51,50 @@ export function createHighlight(
         text,
         anchor,
         createdAt: new Date(),
+        updatedAt: new Date(),
     };
 
-    const highlights = getAllHighlights();
-    highlights.push(highlight);
-    saveHighlights(highlights);
+    return highlightsStore.put(highlight);
+}
 
-    return highlight;
+/**
+ * Save a highlight record as-is (insert or replace)
+ */
+export async function saveHighlight(highlight: Highlight): Promise<Highlight> {
+    return highlightsStore.put(highlight);
 }
 
 /**
  * Update highlight type
  */
-export function updateHighlightType(id: string, type: HighlightType): Highlight | null {
-    const highlights = getAllHighlights();
-    const index = highlights.findIndex(h => h.id === id);
-
-    if (index === -1) return null;
+export async function updateHighlightType(id: string, type: HighlightType): Promise<Highlight | null> {
+    const highlight = await highlightsStore.get(id);
+    if (!highlight) return null;
 
-    highlights[index] = { ...highlights[index], type };
-    saveHighlights(highlights);
-
-    return highlights[index];
+    return highlightsStore.put({ ...highlight, type, updatedAt: new Date() });
 }
 
 /**
- * Delete a highlight
+ * Delete a highlight (cascades to its notes and AI outputs)
  */
-export function deleteHighlight(id: string): boolean {
-    const highlights = getAllHighlights();
-    const filtered = highlights.filter(h => h.id !== id);
-
-    if (filtered.length === highlights.length) return false;
-
-    saveHighlights(filtered);
+export async function deleteHighlight(id: string): Promise<boolean> {
+    const deleted = await highlightsStore.delete(id);
+    if (!deleted) return false;
 
-    // Also delete associated notes
-    deleteNotesByHighlight(id);
+    await deleteNotesByHighlight(id);
+    await deleteAIOutputsByHighlight(id);
 
     return true;
 }
 
 /**
- * Delete all highlights for a document
+ * Delete all highlights for a document (with their notes and AI outputs)
  */
-export function deleteHighlightsByDocument(documentId: string): void {
-    const highlights = getAllHighlights();
-    const filtered = highlights.filter(h => h.documentId !== documentId);
-    saveHighlights(filtered);
-}
-
-function saveHighlights(highlights: Highlight[]): void {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(HIGHLIGHTS_KEY, JSON.stringify(highlights));
+export async function deleteHighlightsByDocument(documentId: string): Promise<void> {
+    const highlights = await highlightsStore.query('documentId', documentId);
+    for (const highlight of highlights) {
+        await deleteHighlight(highlight.id);
+    }
 }
 
 // ============================================
@@ -123,44 +104,26 @@ function saveHighlights(highlights: Highlight[]): void {
 /**
  * Get all notes
  */
-export function getAllNotes(): Note[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(NOTES_KEY);
-    if (!stored) return [];
-
-    try {
-        const notes = JSON.parse(stored);
-        return notes.map((n: Note) => ({
-            ...n,
-            createdAt: new Date(n.createdAt),
-        }));
-    } catch {
-        return [];
-    }
+export async function getAllNotes(): Promise<Note[]> {
+    return notesStore.list();
 }
 
 /**
  * Get note for a highlight
  */
-export function getNoteByHighlight(highlightId: string): Note | null {
-    return getAllNotes().find(n => n.highlightId === highlightId) || null;
+export async function getNoteByHighlight(highlightId: string): Promise<Note | null> {
+    const notes = await notesStore.query('highlightId', highlightId);
+    return notes[0] || null;
 }
 
 /**
  * Create or update note for a highlight
  */
-export function saveNote(highlightId: string, content: string): Note {
-    const notes = getAllNotes();
-    const existingIndex = notes.findIndex(n => n.highlightId === highlightId);
-
-    if (existingIndex !== -1) {
-        notes[existingIndex] = {
-            ...notes[existingIndex],
-            content,
-        };
-        saveNotes(notes);
-        return notes[existingIndex];
+export async function saveNote(highlightId: string, content: string): Promise<Note> {
+    const existing = await getNoteByHighlight(highlightId);
+
+    if (existing) {
+        return notesStore.put({ ...existing, content, updatedAt: new Date() });
     }
 
     const note: Note = {
@@ -168,52 +131,40 @@ export function saveNote(highlightId: string, content: string): Note {
         highlightId,
         content,
         createdAt: new Date(),
+        updatedAt: new Date(),
     };
 
-    notes.push(note);
-    saveNotes(notes);
-
-    return note;
+    return notesStore.put(note);
 }
 
 /**
  * Delete note
  */
-export function deleteNote(id: string): boolean {
-    const notes = getAllNotes();
-    const filtered = notes.filter(n => n.id !== id);
-
-    if (filtered.length === notes.length) return false;
-
-    saveNotes(filtered);
-    return true;
+export async function deleteNote(id: string): Promise<boolean> {
+    return notesStore.delete(id);
 }
 
 /**
  * Delete notes for a highlight
  */
-export function deleteNotesByHighlight(highlightId: string): void {
-    const notes = getAllNotes();
-    const filtered = notes.filter(n => n.highlightId !== highlightId);
-    saveNotes(filtered);
-}
-
-function saveNotes(notes: Note[]): void {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+export async function deleteNotesByHighlight(highlightId: string): Promise<void> {
+    const notes = await notesStore.query('highlightId', highlightId);
+    for (const note of notes) {
+        await notesStore.delete(note.id);
+    }
 }
 
 // ============================================
 // Highlight Statistics
 // ============================================
 
-export function getHighlightStats(documentId?: string): {
+export async function getHighlightStats(documentId?: string): Promise<{
     total: number;
     byType: Record<HighlightType, number>;
-} {
+}> {
     const highlights = documentId
-        ? getHighlightsByDocument(documentId)
-        : getAllHighlights();
+        ? await getHighlightsByDocument(documentId)
+        : await getAllHighlights();
 
     return {
         total: highlights.length,
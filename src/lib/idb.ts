@@ -0,0 +1,130 @@
+// IndexedDB Access
+// Shared connection and promise helpers for Co-Reader's browser database
+
+import { ALL_COLLECTIONS, reviveRecord } from './storage/collections';
+import { CollectionConfig, StorageRecord } from './storage/types';
+
+const DB_NAME = 'coreader';
+const DB_VERSION = 4;
+
+export const PDF_FILES_STORE = 'pdf_files';
+export const ARTICLE_IMAGES_STORE = 'article_images';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check if IndexedDB is available in this environment
+ */
+export function isIndexedDbAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and upgrade if needed) the Co-Reader database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!isIndexedDbAvailable()) {
+        return Promise.reject(new Error('IndexedDB not available'));
+    }
+
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PDF_FILES_STORE)) {
+                    db.createObjectStore(PDF_FILES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(ARTICLE_IMAGES_STORE)) {
+                    db.createObjectStore(ARTICLE_IMAGES_STORE, { keyPath: 'id' }).createIndex('documentId', 'documentId');
+                }
+
+                for (const collection of ALL_COLLECTIONS) {
+                    if (db.objectStoreNames.contains(collection.name)) continue;
+
+                    const store = db.createObjectStore(collection.name, { keyPath: 'id' });
+                    collection.indexes.forEach(index => store.createIndex(index, index));
+                    seedFromLocalStorage(store, collection);
+                }
+            };
+
+            let blocked = false;
+
+            request.onsuccess = () => {
+                const db = request.result;
+
+                // Opened after the caller gave up waiting; a later call opens again
+                if (blocked) {
+                    db.close();
+                    return;
+                }
+
+                // A newer version (another tab after a deploy) is waiting to upgrade:
+                // let it, and reopen on the next call
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                db.onclose = () => {
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+
+            // Another tab still has the old version open and did not close it
+            request.onblocked = () => {
+                blocked = true;
+                dbPromise = null;
+                reject(new Error('Co-Reader is open in another tab with an older version. Close or reload it and try again.'));
+            };
+
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error || new Error('Failed to open database'));
+            };
+        });
+    }
+
+    return dbPromise;
+}
+
+/**
+ * Copy an existing localStorage collection into a newly created object store.
+ * The localStorage copy is left in place so switching backends back is safe.
+ */
+function seedFromLocalStorage(
+    store: IDBObjectStore,
+    collection: CollectionConfig<StorageRecord>
+): void {
+    const stored = localStorage.getItem(collection.storageKey);
+    if (!stored) return;
+
+    try {
+        const records: StorageRecord[] = JSON.parse(stored);
+        records.forEach(record => store.put(reviveRecord(collection, record)));
+    } catch {
+        // Corrupt JSON - start the store empty
+    }
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+}
@@ -0,0 +1,175 @@
+// Sync Outbox
+// Writes made while offline (or while earlier writes are still queued) are
+// recorded here and replayed to /api/sync in order by the sync engine
+
+import { v4 as uuidv4 } from 'uuid';
+import { SyncCollection, SyncConflict, SyncMutation } from './types';
+import { getStore } from './storage';
+import { outboxCollection, conflictsCollection } from './storage/collections';
+
+const outboxStore = getStore(outboxCollection);
+const conflictsStore = getStore(conflictsCollection);
+
+/**
+ * Fields that are synced (and merged last-writer-wins) per collection
+ */
+export const SYNC_FIELDS: Record<SyncCollection, string[]> = {
+    documents: [
+        'title', 'sourceType', 'sourcePath', 'contentHash',
+        'authors', 'publishedDate', 'pageCount', 'wordCount', 'tags', 'description',
+    ],
+    highlights: ['documentId', 'type', 'text', 'anchor'],
+    notes: ['content'],
+    vocabulary: ['word', 'contextSentence', 'documentId', 'userNote', 'definition'],
+};
+
+let lastSequence = 0;
+
+function nextSequence(): number {
+    lastSequence = Math.max(Date.now(), lastSequence + 1);
+    return lastSequence;
+}
+
+/**
+ * Pick the synced fields of a record
+ */
+export function pickSyncFields(
+    collection: SyncCollection,
+    record: object
+): Record<string, unknown> {
+    const source = record as Record<string, unknown>;
+    const fields: Record<string, unknown> = {};
+    for (const field of SYNC_FIELDS[collection]) {
+        if (field in source) fields[field] = source[field];
+    }
+    return fields;
+}
+
+// ============================================
+// Outbox Operations
+// ============================================
+
+/**
+ * Queue a local change for replay. `base` holds the values the changed
+ * fields had before the edit so the merge can tell whether the server
+ * changed them too.
+ */
+export async function enqueueMutation(
+    collection: SyncCollection,
+    op: SyncMutation['op'],
+    recordId: string,
+    fields: Record<string, unknown> = {},
+    base?: Record<string, unknown>
+): Promise<SyncMutation> {
+    const mutation: SyncMutation = {
+        id: uuidv4(),
+        sequence: nextSequence(),
+        collection,
+        recordId,
+        op,
+        fields,
+        base,
+        timestamp: new Date().toISOString(),
+    };
+
+    return outboxStore.put(mutation);
+}
+
+/**
+ * Get queued mutations in replay order, leaving out those the server rejected
+ */
+export async function getPendingMutations(): Promise<SyncMutation[]> {
+    const mutations = await outboxStore.list();
+    return mutations.filter(m => !m.rejected).sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Check if anything is waiting to be pushed
+ */
+export async function hasPendingMutations(): Promise<boolean> {
+    const mutations = await outboxStore.list();
+    return mutations.some(m => !m.rejected);
+}
+
+/**
+ * Writes go to the outbox while offline, and also while older writes are
+ * still queued so they cannot overtake them
+ */
+export async function shouldQueue(): Promise<boolean> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    return hasPendingMutations();
+}
+
+/**
+ * Replace a queued mutation (after a merge rebased it)
+ */
+export async function updateMutation(mutation: SyncMutation): Promise<SyncMutation> {
+    return outboxStore.put(mutation);
+}
+
+/**
+ * Drop a mutation once the server has answered for it
+ */
+export async function removeMutation(id: string): Promise<boolean> {
+    return outboxStore.delete(id);
+}
+
+// ============================================
+// Rejected Mutations
+// ============================================
+
+/**
+ * Hold a mutation the server refused, with its reason, so the change is not
+ * lost. It is no longer pushed until the user retries it.
+ */
+export async function markRejected(mutation: SyncMutation, reason: string): Promise<SyncMutation> {
+    return outboxStore.put({ ...mutation, rejected: reason });
+}
+
+/**
+ * Get the mutations the server refused, in the order they were made
+ */
+export async function getRejectedMutations(): Promise<SyncMutation[]> {
+    const mutations = await outboxStore.list();
+    return mutations.filter(m => m.rejected).sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Queue a rejected mutation to be pushed again on the next sync
+ */
+export async function retryMutation(id: string): Promise<void> {
+    const mutation = await outboxStore.get(id);
+    if (mutation) await outboxStore.put({ ...mutation, rejected: undefined });
+}
+
+// ============================================
+// Conflict Log
+// ============================================
+
+/**
+ * Record how a conflicting field was resolved
+ */
+export async function logConflict(
+    conflict: Omit<SyncConflict, 'id' | 'resolvedAt'>
+): Promise<SyncConflict> {
+    return conflictsStore.put({
+        ...conflict,
+        id: uuidv4(),
+        resolvedAt: new Date().toISOString(),
+    });
+}
+
+/**
+ * Get resolved conflicts, newest first
+ */
+export async function getConflictLog(): Promise<SyncConflict[]> {
+    const conflicts = await conflictsStore.list();
+    return conflicts.sort((a, b) => b.resolvedAt.localeCompare(a.resolvedAt));
+}
+
+/**
+ * Clear the conflict log
+ */
+export async function clearConflictLog(): Promise<void> {
+    await conflictsStore.clear();
+}
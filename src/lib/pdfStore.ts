@@ -0,0 +1,219 @@
+// Local PDF Binary Storage
+// Keeps PDF files as Blobs in IndexedDB instead of base64 in localStorage
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+    openDatabase,
+    requestToPromise,
+    transactionDone,
+    PDF_FILES_STORE,
+} from './idb';
+
+// Pre-IndexedDB storage: a single localStorage key mapping id -> data URL
+const LEGACY_PDF_KEY = 'coreader_pdf_files';
+
+interface StoredPdfFile {
+    id: string;
+    blob: Blob;
+    size: number;
+    createdAt: string;
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+// ============================================
+// PDF Blob CRUD Operations
+// ============================================
+
+/**
+ * Store a PDF file and return its local ID
+ */
+export async function savePdfBlob(file: Blob, id: string = uuidv4()): Promise<string> {
+    await ensureMigrated();
+
+    const estimate = await getStorageEstimate();
+    if (estimate.quota > 0 && estimate.usage + file.size > estimate.quota) {
+        throw new Error('Not enough storage space. Try removing some documents first.');
+    }
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readwrite');
+    const record: StoredPdfFile = {
+        id,
+        blob: file,
+        size: file.size,
+        createdAt: new Date().toISOString(),
+    };
+    tx.objectStore(PDF_FILES_STORE).put(record);
+
+    try {
+        await transactionDone(tx);
+    } catch {
+        throw new Error('Storage full. Please remove some documents to free up space.');
+    }
+
+    return id;
+}
+
+/**
+ * Get PDF bytes by local ID
+ */
+export async function getPdfBytes(id: string): Promise<Uint8Array | null> {
+    await ensureMigrated();
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readonly');
+    const record = await requestToPromise<StoredPdfFile | undefined>(
+        tx.objectStore(PDF_FILES_STORE).get(id)
+    );
+
+    if (!record) return null;
+    return new Uint8Array(await record.blob.arrayBuffer());
+}
+
+/**
+ * Get the stored PDF Blob by local ID
+ */
+export async function getPdfBlob(id: string): Promise<Blob | null> {
+    await ensureMigrated();
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readonly');
+    const record = await requestToPromise<StoredPdfFile | undefined>(
+        tx.objectStore(PDF_FILES_STORE).get(id)
+    );
+
+    return record?.blob || null;
+}
+
+/**
+ * Get the size in bytes of every stored PDF, keyed by local ID
+ */
+export async function getPdfBlobSizes(): Promise<Map<string, number>> {
+    await ensureMigrated();
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readonly');
+    const records = await requestToPromise<StoredPdfFile[]>(
+        tx.objectStore(PDF_FILES_STORE).getAll()
+    );
+
+    return new Map(records.map(record => [record.id, record.size]));
+}
+
+/**
+ * Delete a stored PDF
+ */
+export async function deletePdfBlob(id: string): Promise<void> {
+    await ensureMigrated();
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readwrite');
+    tx.objectStore(PDF_FILES_STORE).delete(id);
+    await transactionDone(tx);
+}
+
+/**
+ * SHA-256 of a file's bytes as hex, used to recognise a PDF imported twice
+ */
+export async function hashPdf(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Delete every stored PDF
+ */
+export async function clearPdfBlobs(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readwrite');
+    tx.objectStore(PDF_FILES_STORE).clear();
+    await transactionDone(tx);
+
+    if (typeof window !== 'undefined') {
+        localStorage.removeItem(LEGACY_PDF_KEY);
+    }
+}
+
+// ============================================
+// Legacy Migration
+// ============================================
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move base64 PDFs from localStorage into IndexedDB (runs once per page load)
+ */
+function ensureMigrated(): Promise<void> {
+    if (!migration) {
+        migration = migrateLegacyPdfs().catch((error) => {
+            console.error('Failed to migrate PDFs from localStorage:', error);
+        });
+    }
+    return migration;
+}
+
+async function migrateLegacyPdfs(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    const stored = localStorage.getItem(LEGACY_PDF_KEY);
+    if (!stored) return;
+
+    let legacyFiles: Record<string, string>;
+    try {
+        legacyFiles = JSON.parse(stored);
+    } catch {
+        localStorage.removeItem(LEGACY_PDF_KEY);
+        return;
+    }
+
+    // Decode everything before opening the transaction so it does not auto-commit
+    const records: StoredPdfFile[] = [];
+    for (const [id, dataUrl] of Object.entries(legacyFiles)) {
+        const blob = await (await fetch(dataUrl)).blob();
+        records.push({
+            id,
+            blob: new Blob([blob], { type: 'application/pdf' }),
+            size: blob.size,
+            createdAt: new Date().toISOString(),
+        });
+    }
+
+    const db = await openDatabase();
+    const tx = db.transaction(PDF_FILES_STORE, 'readwrite');
+    const store = tx.objectStore(PDF_FILES_STORE);
+    records.forEach(record => store.put(record));
+    await transactionDone(tx);
+
+    // Only drop the legacy copy once every file is safely in IndexedDB
+    localStorage.removeItem(LEGACY_PDF_KEY);
+}
+
+// ============================================
+// Storage Quota
+// ============================================
+
+/**
+ * Get origin-wide storage usage and quota from the browser
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return { usage: 0, quota: 0 };
+    }
+
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
+
+/**
+ * Format a byte count as a human-readable string
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} bytes`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
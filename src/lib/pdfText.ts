@@ -0,0 +1,58 @@
+// Server-side PDF Text Extraction
+// Runs pdf.js in Node to pull per-page text and document info out of an
+// uploaded PDF so it can be indexed for search
+
+export interface ExtractedPdf {
+    pageCount: number;
+    title: string | null;
+    author: string | null;
+    pages: string[]; // page text, index 0 is page 1
+}
+
+interface PdfInfo {
+    Title?: string;
+    Author?: string;
+}
+
+function cleanInfo(value: string | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+}
+
+/**
+ * Extract the text of every page plus the title and author from the PDF info
+ */
+export async function extractPdfText(data: Uint8Array): Promise<ExtractedPdf> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({
+        data,
+        disableFontFace: true,
+        isEvalSupported: false,
+    }).promise;
+
+    try {
+        const { info } = await pdf.getMetadata();
+        const pages: string[] = [];
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const text = content.items
+                .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+                .join('')
+                .replace(/[ \t]+/g, ' ')
+                .trim();
+            pages.push(text);
+            page.cleanup();
+        }
+
+        return {
+            pageCount: pdf.numPages,
+            title: cleanInfo((info as PdfInfo).Title),
+            author: cleanInfo((info as PdfInfo).Author),
+            pages,
+        };
+    } finally {
+        await pdf.destroy();
+    }
+}
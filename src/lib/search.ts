@@ -0,0 +1,24 @@
+// Library Search
+// Full-text search across the text the server extracted from uploaded PDFs.
+// PDFs kept only in this browser are not indexed.
+
+import { api } from './api/client';
+
+export interface PageMatch {
+    pageNumber: number;
+    snippet: string;
+}
+
+export interface SearchResult {
+    documentId: string;
+    title: string;
+    pages: PageMatch[];
+}
+
+/**
+ * Search every uploaded PDF, best matching documents first
+ */
+export async function searchLibrary(query: string): Promise<SearchResult[]> {
+    const { results } = await api.search(query);
+    return results;
+}
@@ -0,0 +1,59 @@
+// Storage Change Notifications
+// Every write through a storage adapter is published here so open views can
+// refresh without reloading. A BroadcastChannel relays the same changes to
+// other tabs of the app.
+
+export interface StorageChange {
+    collection: string;
+    type: 'put' | 'delete' | 'clear';
+    id?: string;
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+const CHANNEL_NAME = 'coreader_changes';
+
+const listeners = new Set<StorageChangeListener>();
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+
+    if (!channel) {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (event: MessageEvent<StorageChange>) => notify(event.data);
+    }
+    return channel;
+}
+
+function notify(change: StorageChange): void {
+    listeners.forEach(listener => listener(change));
+}
+
+/**
+ * Tell this tab and every other open tab that a collection changed
+ */
+export function publishChange(change: StorageChange): void {
+    notify(change);
+    getChannel()?.postMessage(change);
+}
+
+/**
+ * Listen for changes to the given collections. Returns an unsubscribe function.
+ */
+export function subscribeToChanges(
+    collections: string[],
+    listener: StorageChangeListener
+): () => void {
+    // Open the channel so changes from other tabs arrive
+    getChannel();
+
+    const filtered: StorageChangeListener = change => {
+        if (collections.includes(change.collection)) listener(change);
+    };
+
+    listeners.add(filtered);
+    return () => {
+        listeners.delete(filtered);
+    };
+}
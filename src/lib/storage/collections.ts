@@ -0,0 +1,100 @@
+// Storage Collections
+// One entry per record type persisted by the lib stores
+
+import {
+    Document,
+    Highlight,
+    Note,
+    VocabularyEntry,
+    AIOutput,
+    StoredArticle,
+    SyncMutation,
+    SyncConflict,
+} from '../types';
+import { CollectionConfig, StorageRecord } from './types';
+
+export const documentsCollection: CollectionConfig<Document> = {
+    name: 'documents',
+    storageKey: 'coreader_documents',
+    indexes: [],
+    dateFields: ['createdAt', 'updatedAt', 'deletedAt', 'lastOpenedAt'],
+};
+
+export const highlightsCollection: CollectionConfig<Highlight> = {
+    name: 'highlights',
+    storageKey: 'coreader_highlights',
+    indexes: ['documentId'],
+    dateFields: ['createdAt', 'updatedAt', 'deletedAt'],
+};
+
+export const notesCollection: CollectionConfig<Note> = {
+    name: 'notes',
+    storageKey: 'coreader_notes',
+    indexes: ['highlightId'],
+    dateFields: ['createdAt', 'updatedAt', 'deletedAt'],
+};
+
+export const vocabularyCollection: CollectionConfig<VocabularyEntry> = {
+    name: 'vocabulary',
+    storageKey: 'coreader_vocabulary',
+    indexes: ['documentId'],
+    dateFields: ['createdAt', 'updatedAt', 'deletedAt'],
+};
+
+export const articlesCollection: CollectionConfig<StoredArticle> = {
+    name: 'articles',
+    storageKey: 'coreader_articles',
+    indexes: [],
+    dateFields: [],
+};
+
+export const aiOutputsCollection: CollectionConfig<AIOutput> = {
+    name: 'ai_outputs',
+    storageKey: 'coreader_ai_outputs',
+    indexes: ['highlightId'],
+    dateFields: ['createdAt'],
+};
+
+export const outboxCollection: CollectionConfig<SyncMutation> = {
+    name: 'sync_outbox',
+    storageKey: 'coreader_sync_outbox',
+    indexes: ['recordId'],
+    dateFields: [],
+};
+
+export const conflictsCollection: CollectionConfig<SyncConflict> = {
+    name: 'sync_conflicts',
+    storageKey: 'coreader_sync_conflicts',
+    indexes: [],
+    dateFields: [],
+};
+
+export const ALL_COLLECTIONS: CollectionConfig<StorageRecord>[] = [
+    documentsCollection,
+    highlightsCollection,
+    notesCollection,
+    vocabularyCollection,
+    articlesCollection,
+    aiOutputsCollection,
+    outboxCollection,
+    conflictsCollection,
+] as CollectionConfig<StorageRecord>[];
+
+/**
+ * Turn serialized date strings back into Date objects
+ */
+export function reviveRecord<T extends StorageRecord>(
+    collection: CollectionConfig<T>,
+    raw: T
+): T {
+    if (collection.dateFields.length === 0) return raw;
+
+    const record = { ...raw } as Record<string, unknown>;
+    for (const field of collection.dateFields) {
+        const value = record[field];
+        if (value !== undefined && value !== null) {
+            record[field] = new Date(value as string);
+        }
+    }
+    return record as T;
+}
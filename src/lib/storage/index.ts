@@ -0,0 +1,94 @@
+// Storage Adapter Factory
+// Picks the backend for every lib store from configuration:
+//   NEXT_PUBLIC_STORAGE_BACKEND = localStorage (default) | indexedDB | rest
+//   NEXT_PUBLIC_STORAGE_API_URL = base URL for the rest backend (required with rest)
+
+import { CollectionConfig, StorageAdapter, StorageBackend, StorageRecord } from './types';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createRestAdapter } from './restAdapter';
+import { publishChange } from './changes';
+
+export type { CollectionConfig, StorageAdapter, StorageBackend, StorageRecord } from './types';
+export { publishChange, subscribeToChanges } from './changes';
+export type { StorageChange, StorageChangeListener } from './changes';
+
+const adapters = new Map<string, StorageAdapter<StorageRecord>>();
+
+/**
+ * Get the configured storage backend
+ */
+export function getStorageBackend(): StorageBackend {
+    switch (process.env.NEXT_PUBLIC_STORAGE_BACKEND) {
+        case 'indexedDB':
+            return 'indexedDB';
+        case 'rest':
+            return 'rest';
+        default:
+            return 'localStorage';
+    }
+}
+
+/**
+ * Get the storage adapter for a collection (one instance per collection).
+ * Writes are published as change notifications.
+ */
+export function getStore<T extends StorageRecord>(collection: CollectionConfig<T>): StorageAdapter<T> {
+    let adapter = adapters.get(collection.name);
+
+    if (!adapter) {
+        adapter = withChangeNotifications(collection, createAdapter(collection)) as unknown as StorageAdapter<StorageRecord>;
+        adapters.set(collection.name, adapter);
+    }
+
+    return adapter as unknown as StorageAdapter<T>;
+}
+
+/**
+ * Base URL of the REST storage service. Co-Reader does not serve one itself,
+ * so the rest backend cannot start without it.
+ */
+function getRestUrl(): string {
+    const url = process.env.NEXT_PUBLIC_STORAGE_API_URL;
+    if (!url) {
+        throw new Error('NEXT_PUBLIC_STORAGE_API_URL must be set when NEXT_PUBLIC_STORAGE_BACKEND is rest');
+    }
+    return url.replace(/\/+$/, '');
+}
+
+function createAdapter<T extends StorageRecord>(collection: CollectionConfig<T>): StorageAdapter<T> {
+    switch (getStorageBackend()) {
+        case 'indexedDB':
+            return createIndexedDbAdapter(collection);
+        case 'rest':
+            return createRestAdapter(collection, getRestUrl());
+        default:
+            return createLocalStorageAdapter(collection);
+    }
+}
+
+function withChangeNotifications<T extends StorageRecord>(
+    collection: CollectionConfig<T>,
+    adapter: StorageAdapter<T>
+): StorageAdapter<T> {
+    return {
+        ...adapter,
+
+        async put(record) {
+            const saved = await adapter.put(record);
+            publishChange({ collection: collection.name, type: 'put', id: saved.id });
+            return saved;
+        },
+
+        async delete(id) {
+            const deleted = await adapter.delete(id);
+            if (deleted) publishChange({ collection: collection.name, type: 'delete', id });
+            return deleted;
+        },
+
+        async clear() {
+            await adapter.clear();
+            publishChange({ collection: collection.name, type: 'clear' });
+        },
+    };
+}
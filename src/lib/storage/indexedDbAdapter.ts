@@ -0,0 +1,81 @@
+// IndexedDB Adapter
+// One object store per collection, with an IndexedDB index per query field
+
+import { CollectionConfig, StorageAdapter, StorageRecord } from './types';
+import { reviveRecord } from './collections';
+import {
+    isIndexedDbAvailable,
+    openDatabase,
+    requestToPromise,
+    transactionDone,
+} from '../idb';
+
+export function createIndexedDbAdapter<T extends StorageRecord>(
+    collection: CollectionConfig<T>
+): StorageAdapter<T> {
+    async function run<R>(
+        mode: IDBTransactionMode,
+        fn: (store: IDBObjectStore) => Promise<R>
+    ): Promise<R> {
+        const db = await openDatabase();
+        const tx = db.transaction(collection.name, mode);
+        const done = transactionDone(tx);
+        const result = await fn(tx.objectStore(collection.name));
+        await done;
+        return result;
+    }
+
+    return {
+        async get(id) {
+            if (!isIndexedDbAvailable()) return null;
+
+            const record = await run('readonly', store =>
+                requestToPromise<T | undefined>(store.get(id))
+            );
+            return record ? reviveRecord(collection, record) : null;
+        },
+
+        async list() {
+            if (!isIndexedDbAvailable()) return [];
+
+            const records = await run('readonly', store =>
+                requestToPromise<T[]>(store.getAll())
+            );
+            return records.map(r => reviveRecord(collection, r));
+        },
+
+        async put(record) {
+            if (!isIndexedDbAvailable()) return record;
+
+            await run('readwrite', store => requestToPromise(store.put(record)));
+            return record;
+        },
+
+        async delete(id) {
+            if (!isIndexedDbAvailable()) return false;
+
+            return run('readwrite', async store => {
+                const count = await requestToPromise(store.count(id));
+                if (count === 0) return false;
+
+                await requestToPromise(store.delete(id));
+                return true;
+            });
+        },
+
+        async query(index, value) {
+            if (!isIndexedDbAvailable()) return [];
+
+            const records = await run('readonly', store =>
+                requestToPromise<T[]>(store.index(index).getAll(value))
+            );
+            return records.map(r => reviveRecord(collection, r));
+        },
+
+        async clear() {
+            if (!isIndexedDbAvailable()) return;
+
+            await run('readwrite', store => requestToPromise(store.clear()));
+        },
+    };
+}
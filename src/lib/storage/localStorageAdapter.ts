@@ -0,0 +1,77 @@
+// localStorage Adapter
+// Keeps each collection as a JSON array under its own coreader_* key
+
+import { CollectionConfig, StorageAdapter, StorageRecord } from './types';
+import { reviveRecord } from './collections';
+
+export function createLocalStorageAdapter<T extends StorageRecord>(
+    collection: CollectionConfig<T>
+): StorageAdapter<T> {
+    function readAll(): T[] {
+        if (typeof window === 'undefined') return [];
+
+        const stored = localStorage.getItem(collection.storageKey);
+        if (!stored) return [];
+
+        try {
+            const records: T[] = JSON.parse(stored);
+            return records.map(r => reviveRecord(collection, r));
+        } catch {
+            return [];
+        }
+    }
+
+    function writeAll(records: T[]): void {
+        if (typeof window === 'undefined') return;
+
+        try {
+            localStorage.setItem(collection.storageKey, JSON.stringify(records));
+        } catch (error) {
+            console.error(`Failed to save ${collection.name}:`, error);
+            throw new Error('Storage full. Please remove some documents.');
+        }
+    }
+
+    return {
+        async get(id) {
+            return readAll().find(r => r.id === id) || null;
+        },
+
+        async list() {
+            return readAll();
+        },
+
+        async put(record) {
+            const records = readAll();
+            const index = records.findIndex(r => r.id === record.id);
+
+            if (index === -1) {
+                records.push(record);
+            } else {
+                records[index] = record;
+            }
+
+            writeAll(records);
+            return record;
+        },
+
+        async delete(id) {
+            const records = readAll();
+            const filtered = records.filter(r => r.id !== id);
+
+            if (filtered.length === records.length) return false;
+
+            writeAll(filtered);
+            return true;
+        },
+
+        async query(index, value) {
+            return readAll().filter(r => r[index] === value);
+        },
+
+        async clear() {
+            if (typeof window === 'undefined') return;
+            localStorage.removeItem(collection.storageKey);
+        },
+    };
+}
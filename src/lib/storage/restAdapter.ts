@@ -0,0 +1,74 @@
+// REST Adapter
+// Talks JSON to `${baseUrl}/${collection.name}`:
+//   GET    ?id=...        single record (404 when missing)
+//   GET    ?<index>=...   records matching an index
+//   GET                   all records
+//   PUT    { record }     create or replace
+//   DELETE ?id=...        delete one record (404 when missing)
+//   DELETE ?all=true      delete every record
+
+import { CollectionConfig, StorageAdapter, StorageRecord } from './types';
+import { reviveRecord } from './collections';
+
+export function createRestAdapter<T extends StorageRecord>(
+    collection: CollectionConfig<T>,
+    baseUrl: string
+): StorageAdapter<T> {
+    const resourceUrl = `${baseUrl}/${collection.name}`;
+
+    async function request(query: string, init?: RequestInit): Promise<Response> {
+        const response = await fetch(query ? `${resourceUrl}?${query}` : resourceUrl, init);
+
+        if (!response.ok && response.status !== 404) {
+            const error = await response.json().catch(() => ({}));
+            throw new Error(error.error || `Failed to access ${collection.name}`);
+        }
+
+        return response;
+    }
+
+    async function fetchList(query: string): Promise<T[]> {
+        const response = await request(query);
+        if (response.status === 404) return [];
+
+        const records: T[] = await response.json();
+        return records.map(r => reviveRecord(collection, r));
+    }
+
+    return {
+        async get(id) {
+            const response = await request(`id=${encodeURIComponent(id)}`);
+            if (response.status === 404) return null;
+
+            return reviveRecord(collection, await response.json());
+        },
+
+        async list() {
+            return fetchList('');
+        },
+
+        async put(record) {
+            await request('', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(record),
+            });
+            return record;
+        },
+
+        async delete(id) {
+            const response = await request(`id=${encodeURIComponent(id)}`, {
+                method: 'DELETE',
+            });
+            return response.status !== 404;
+        },
+
+        async query(index, value) {
+            return fetchList(`${encodeURIComponent(index)}=${encodeURIComponent(value)}`);
+        },
+
+        async clear() {
+            await request('all=true', { method: 'DELETE' });
+        },
+    };
+}
@@ -0,0 +1,23 @@
+// Storage Adapter Type Definitions
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'rest';
+
+export interface StorageRecord {
+    id: string;
+}
+
+export interface CollectionConfig<T extends StorageRecord> {
+    name: string; // object store / REST resource name
+    storageKey: string; // localStorage key
+    indexes: (keyof T & string)[];
+    dateFields: (keyof T & string)[];
+}
+
+export interface StorageAdapter<T extends StorageRecord> {
+    get(id: string): Promise<T | null>;
+    list(): Promise<T[]>;
+    put(record: T): Promise<T>;
+    delete(id: string): Promise<boolean>;
+    query(index: keyof T & string, value: string): Promise<T[]>;
+    clear(): Promise<void>;
+}
@@ -0,0 +1,182 @@
+// Storage Manager
+// Attributes local storage to individual documents and frees space on request
+
+import { Document } from './types';
+import { getStore } from './storage';
+import {
+    articlesCollection,
+    highlightsCollection,
+    notesCollection,
+    aiOutputsCollection,
+    vocabularyCollection,
+} from './storage/collections';
+import { getAllDocuments, getDocumentById } from './documents';
+import { deleteArticle } from './articles';
+import { cloudDocs } from './cloudDocuments';
+import { uploadPdfToCloud } from './cloudStorage';
+import { syncNow } from './sync';
+import { api, ApiError } from './api/client';
+import { getPdfBlob, getPdfBlobSizes, deletePdfBlob, getStorageEstimate } from './pdfStore';
+
+// Warn once usage passes these fractions of the browser quota
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export interface QuotaStatus {
+    usage: number;
+    quota: number;
+    ratio: number;
+    level: QuotaLevel;
+}
+
+export interface StorageBreakdown {
+    file: number; // local PDF blob
+    article: number; // cached article body
+    highlights: number;
+    notes: number;
+    aiOutputs: number;
+    vocabulary: number;
+}
+
+export interface DocumentStorageUsage {
+    document: Document;
+    pdfLocation: 'local' | 'cloud' | null;
+    hasCachedArticle: boolean;
+    bytes: StorageBreakdown;
+    total: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Approximate stored size of a record (its serialized JSON)
+ */
+function measure(value: unknown): number {
+    return encoder.encode(JSON.stringify(value)).length;
+}
+
+function sumBy<T>(items: T[], key: (item: T) => string, size: (item: T) => number): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const item of items) {
+        const id = key(item);
+        totals.set(id, (totals.get(id) || 0) + size(item));
+    }
+    return totals;
+}
+
+// ============================================
+// Usage Reporting
+// ============================================
+
+/**
+ * Get browser storage usage and how close it is to the quota
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus> {
+    const { usage, quota } = await getStorageEstimate();
+    const ratio = quota > 0 ? usage / quota : 0;
+
+    let level: QuotaLevel = 'ok';
+    if (ratio >= QUOTA_CRITICAL_RATIO) level = 'critical';
+    else if (ratio >= QUOTA_WARNING_RATIO) level = 'warning';
+
+    return { usage, quota, ratio, level };
+}
+
+/**
+ * Get the storage attributed to each document, largest first
+ */
+export async function getDocumentStorageUsage(): Promise<DocumentStorageUsage[]> {
+    const [documents, articles, highlights, notes, aiOutputs, vocabulary, pdfSizes] = await Promise.all([
+        getAllDocuments(),
+        getStore(articlesCollection).list(),
+        getStore(highlightsCollection).list(),
+        getStore(notesCollection).list(),
+        getStore(aiOutputsCollection).list(),
+        getStore(vocabularyCollection).list(),
+        getPdfBlobSizes(),
+    ]);
+
+    // Notes and AI outputs hang off highlights, so resolve them to a document
+    const highlightDocument = new Map(highlights.map(h => [h.id, h.documentId]));
+    const documentOf = (highlightId: string) => highlightDocument.get(highlightId) || '';
+
+    const articleBytes = new Map(articles.map(article => [article.id, measure(article)]));
+    const highlightBytes = sumBy(highlights, h => h.documentId, measure);
+    const noteBytes = sumBy(notes, n => documentOf(n.highlightId), measure);
+    const aiOutputBytes = sumBy(aiOutputs, o => documentOf(o.highlightId), measure);
+    const vocabularyBytes = sumBy(vocabulary, v => v.documentId, measure);
+
+    const usage = documents.map((document): DocumentStorageUsage => {
+        const isLocalPdf = document.sourceType === 'pdf' && document.sourcePath.startsWith('local:');
+        const isCloudPdf = document.sourceType === 'pdf' && !!document.sourcePath && !isLocalPdf;
+
+        const bytes: StorageBreakdown = {
+            file: isLocalPdf ? pdfSizes.get(document.sourcePath.replace('local:', '')) || 0 : 0,
+            article: articleBytes.get(document.id) || 0,
+            highlights: highlightBytes.get(document.id) || 0,
+            notes: noteBytes.get(document.id) || 0,
+            aiOutputs: aiOutputBytes.get(document.id) || 0,
+            vocabulary: vocabularyBytes.get(document.id) || 0,
+        };
+
+        return {
+            document,
+            pdfLocation: isLocalPdf ? 'local' : isCloudPdf ? 'cloud' : null,
+            hasCachedArticle: articleBytes.has(document.id),
+            bytes,
+            total: Object.values(bytes).reduce((sum, value) => sum + value, 0),
+        };
+    });
+
+    return usage.sort((a, b) => b.total - a.total);
+}
+
+// ============================================
+// Freeing Space
+// ============================================
+
+/**
+ * Upload a locally stored PDF to cloud storage and drop the local copy
+ */
+export async function offloadPdfToCloud(documentId: string): Promise<string> {
+    const document = await getDocumentById(documentId);
+    if (!document || document.sourceType !== 'pdf') {
+        throw new Error('Document is not a PDF');
+    }
+    if (!document.sourcePath.startsWith('local:')) {
+        throw new Error('PDF is already stored in the cloud');
+    }
+
+    const localId = document.sourcePath.replace('local:', '');
+    const blob = await getPdfBlob(localId);
+    if (!blob) throw new Error('PDF data not found');
+
+    // Documents imported offline only reach the server when their create syncs
+    await syncNow();
+    try {
+        await api.documents.get(documentId);
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 404) {
+            throw new Error('This document has not synced to the server yet, so its PDF cannot be uploaded');
+        }
+        throw error;
+    }
+
+    const file = new File([blob], `${document.title}.pdf`, { type: 'application/pdf' });
+    const url = await uploadPdfToCloud(file, documentId);
+
+    await cloudDocs.update(documentId, { sourcePath: url });
+    await deletePdfBlob(localId);
+
+    return url;
+}
+
+/**
+ * Drop a cached article body but keep its highlights, notes and vocabulary.
+ * The reader fetches the article again the next time it is opened.
+ */
+export async function dropCachedArticle(documentId: string): Promise<void> {
+    await deleteArticle(documentId);
+}
@@ -0,0 +1,367 @@
+// Sync Engine
+// Pulls server changes since the last cursor, merges them into the local
+// stores field by field (last writer wins, conflicts logged), then replays
+// the outbox to /api/sync
+
+import { Document, Highlight, SyncCollection, SyncMutation, VocabularyEntry } from './types';
+import { rowToDocument } from './cloudDocuments';
+import { rowToHighlight } from './cloudHighlights';
+import { rowToEntry } from './cloudVocabulary';
+import { SyncPullResponse } from './api/schemas';
+import { api } from './api/client';
+import { getDocumentById, saveDocument, deleteDocument } from './documents';
+import {
+    getHighlightById,
+    saveHighlight,
+    deleteHighlight,
+    getNoteByHighlight,
+    saveNote,
+    deleteNotesByHighlight,
+} from './highlights';
+import { getVocabularyById, saveVocabularyEntry, deleteVocabularyEntry } from './vocabulary';
+import {
+    SYNC_FIELDS,
+    getPendingMutations,
+    updateMutation,
+    removeMutation,
+    markRejected,
+    getRejectedMutations,
+    logConflict,
+} from './outbox';
+
+const LAST_SYNC_KEY = 'coreader_last_sync';
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Pulled rows carry deleted_at, set on tombstones
+type PulledDocument = SyncPullResponse['documents'][number];
+type PulledHighlight = SyncPullResponse['highlights'][number];
+type PulledVocabulary = SyncPullResponse['vocabulary'][number];
+
+export interface SyncSummary {
+    pulled: number;
+    pushed: number;
+    conflicts: number;
+    rejected: number; // refused changes waiting for the user
+}
+
+let inFlight: Promise<SyncSummary> | null = null;
+
+// ============================================
+// Sync Entry Points
+// ============================================
+
+/**
+ * Run one pull/merge/push cycle (concurrent callers share the same run)
+ */
+export function syncNow(): Promise<SyncSummary> {
+    if (!inFlight) {
+        inFlight = runSync().finally(() => {
+            inFlight = null;
+        });
+    }
+    return inFlight;
+}
+
+/**
+ * Sync now, whenever the browser comes back online, and on an interval.
+ * Returns a cleanup function.
+ */
+export function startSyncLoop(onSynced?: (summary: SyncSummary) => void): () => void {
+    const run = () => {
+        syncNow().then(onSynced, error => {
+            console.warn('Sync failed:', error instanceof Error ? error.message : error);
+        });
+    };
+
+    run();
+    window.addEventListener('online', run);
+    const timer = window.setInterval(() => {
+        if (navigator.onLine) run();
+    }, SYNC_INTERVAL_MS);
+
+    return () => {
+        window.removeEventListener('online', run);
+        window.clearInterval(timer);
+    };
+}
+
+/**
+ * Forget the pull cursor so the next sync pulls everything again
+ */
+export function resetSyncCursor(): void {
+    localStorage.removeItem(LAST_SYNC_KEY);
+}
+
+async function runSync(): Promise<SyncSummary> {
+    const since = localStorage.getItem(LAST_SYNC_KEY);
+    const data = await api.sync.pull(since || undefined);
+    let conflicts = 0;
+
+    // Documents first so highlights and vocabulary land on known documents
+    for (const row of data.documents) conflicts += await mergeDocument(row);
+    for (const row of data.highlights) conflicts += await mergeHighlight(row);
+    for (const row of data.vocabulary) conflicts += await mergeVocabulary(row);
+
+    localStorage.setItem(LAST_SYNC_KEY, data.serverTime);
+
+    const pushed = await pushOutbox();
+
+    return {
+        pulled: data.documents.length + data.highlights.length + data.vocabulary.length,
+        pushed,
+        conflicts,
+        rejected: (await getRejectedMutations()).length,
+    };
+}
+
+/**
+ * Send the outbox in order and drop mutations the server has answered for.
+ * 'error' is transient, so that mutation and everything after it stay queued.
+ * Rejected mutations are held for the user instead of dropped.
+ */
+async function pushOutbox(): Promise<number> {
+    const mutations = await getPendingMutations();
+    if (mutations.length === 0) return 0;
+
+    const { results } = await api.sync.push({ mutations });
+    const byId = new Map(mutations.map(m => [m.id, m]));
+    let pushed = 0;
+
+    for (const result of results) {
+        if (result.status === 'error') {
+            console.warn('Sync push stopped:', result.error);
+            break;
+        }
+
+        const mutation = byId.get(result.id);
+        if (result.status === 'rejected' && mutation) {
+            await markRejected(mutation, result.error || 'Rejected by the server');
+            continue;
+        }
+
+        await removeMutation(result.id);
+        if (result.status === 'applied') {
+            pushed++;
+        } else {
+            console.warn(`Sync mutation ${result.id} was ${result.status}`);
+        }
+    }
+
+    return pushed;
+}
+
+// ============================================
+// Merging
+// ============================================
+
+interface MergeInput<T> {
+    collection: SyncCollection;
+    recordId: string;
+    local: T | null;
+    remote: T | null; // null when the server record is a tombstone
+    remoteUpdatedAt: string;
+    save: (record: T) => Promise<unknown>;
+    remove: () => Promise<unknown>;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldOf(record: object | null, field: string): unknown {
+    return record ? (record as Record<string, unknown>)[field] : undefined;
+}
+
+/**
+ * Merge one server record into the local store. Without queued local
+ * changes the server copy wins outright; otherwise each synced field is
+ * resolved last-writer-wins and the surviving mutations are rebased so
+ * the push is not rejected as stale. Returns the number of conflicts logged.
+ */
+async function mergeRecord<T extends object>(input: MergeInput<T>): Promise<number> {
+    const { collection, recordId, local, remote, remoteUpdatedAt } = input;
+
+    const pending = (await getPendingMutations()).filter(
+        m => m.collection === collection && m.recordId === recordId
+    );
+
+    if (pending.length === 0) {
+        if (remote) await input.save(remote);
+        else if (local) await input.remove();
+        return 0;
+    }
+
+    const remoteTime = new Date(remoteUpdatedAt).getTime();
+    const latest = pending[pending.length - 1];
+    const localWins = new Date(latest.timestamp).getTime() >= remoteTime;
+
+    // Delete on one side, edit (or delete) on the other
+    if (!remote || latest.op === 'delete') {
+        if (!remote && latest.op === 'delete') {
+            await dropMutations(pending);
+            return 0;
+        }
+
+        await logConflict({
+            collection,
+            recordId,
+            field: '_deleted',
+            localValue: latest.op === 'delete' ? null : local,
+            remoteValue: remote,
+            winner: localWins ? 'local' : 'remote',
+        });
+
+        if (localWins) {
+            await rebaseMutations(pending, new Set(), remote, remoteUpdatedAt);
+        } else {
+            await dropMutations(pending);
+            if (remote) await input.save(remote);
+            else await input.remove();
+        }
+        return 1;
+    }
+
+    // Both sides edited: resolve each field
+    const merged = { ...remote } as Record<string, unknown>;
+    const lostFields = new Set<string>();
+    let conflicts = 0;
+
+    for (const field of SYNC_FIELDS[collection]) {
+        const touching = pending.filter(m => field in m.fields);
+        if (touching.length === 0) continue;
+
+        const last = touching[touching.length - 1];
+        const localValue = local ? fieldOf(local, field) : last.fields[field];
+        const remoteValue = fieldOf(remote, field);
+        if (sameValue(localValue, remoteValue)) continue;
+
+        // The server still holds what we edited from, so only we changed it
+        const base = touching[0].base;
+        if (base && field in base && sameValue(base[field], remoteValue)) {
+            merged[field] = localValue;
+            continue;
+        }
+
+        const fieldLocalWins = new Date(last.timestamp).getTime() >= remoteTime;
+        await logConflict({
+            collection,
+            recordId,
+            field,
+            localValue,
+            remoteValue,
+            winner: fieldLocalWins ? 'local' : 'remote',
+        });
+        conflicts++;
+
+        if (fieldLocalWins) merged[field] = localValue;
+        else lostFields.add(field);
+    }
+
+    await input.save(merged as T);
+    await rebaseMutations(pending, lostFields, remote, remoteUpdatedAt);
+    return conflicts;
+}
+
+async function dropMutations(mutations: SyncMutation[]): Promise<void> {
+    for (const mutation of mutations) {
+        await removeMutation(mutation.id);
+    }
+}
+
+/**
+ * Strip fields the server won and move the surviving mutations past the
+ * server's clock so they apply on push
+ */
+async function rebaseMutations(
+    mutations: SyncMutation[],
+    lostFields: Set<string>,
+    remote: object | null,
+    remoteUpdatedAt: string
+): Promise<void> {
+    for (const mutation of mutations) {
+        const fields = Object.fromEntries(
+            Object.entries(mutation.fields).filter(([field]) => !lostFields.has(field))
+        );
+
+        if (mutation.op === 'upsert' && Object.keys(fields).length === 0) {
+            await removeMutation(mutation.id);
+            continue;
+        }
+
+        const base = remote
+            ? Object.fromEntries(Object.keys(fields).map(field => [field, fieldOf(remote, field)]))
+            : mutation.base;
+
+        await updateMutation({
+            ...mutation,
+            fields,
+            base,
+            timestamp: mutation.timestamp > remoteUpdatedAt ? mutation.timestamp : remoteUpdatedAt,
+        });
+    }
+}
+
+async function mergeDocument(row: PulledDocument): Promise<number> {
+    const local = await getDocumentById(row.id);
+    return mergeRecord<Document>({
+        collection: 'documents',
+        recordId: row.id,
+        local,
+        remote: row.deleted_at ? null : keepLocalPdf(rowToDocument(row), local),
+        remoteUpdatedAt: row.updated_at || row.created_at,
+        save: saveDocument,
+        remove: () => deleteDocument(row.id),
+    });
+}
+
+/**
+ * local: paths are never synced, so a PDF kept only on this device keeps its
+ * path until the server has a file for it
+ */
+function keepLocalPdf(remote: Document, local: Document | null): Document {
+    if (remote.sourcePath || !local?.sourcePath.startsWith('local:')) return remote;
+    return { ...remote, sourcePath: local.sourcePath };
+}
+
+async function mergeHighlight(row: PulledHighlight): Promise<number> {
+    let conflicts = await mergeRecord<Highlight>({
+        collection: 'highlights',
+        recordId: row.id,
+        local: await getHighlightById(row.id),
+        remote: row.deleted_at ? null : rowToHighlight(row),
+        remoteUpdatedAt: row.updated_at || row.created_at,
+        save: saveHighlight,
+        remove: () => deleteHighlight(row.id),
+    });
+
+    // The note rides on the highlight row with its own clock
+    if (!row.deleted_at && (await getHighlightById(row.id))) {
+        const note = await getNoteByHighlight(row.id);
+        conflicts += await mergeRecord<{ content: string | null }>({
+            collection: 'notes',
+            recordId: row.id,
+            local: note ? { content: note.content } : null,
+            remote: { content: row.note },
+            remoteUpdatedAt: row.note_updated_at || row.updated_at || row.created_at,
+            save: async ({ content }) => {
+                if (content) await saveNote(row.id, content);
+                else await deleteNotesByHighlight(row.id);
+            },
+            remove: () => deleteNotesByHighlight(row.id),
+        });
+    }
+
+    return conflicts;
+}
+
+async function mergeVocabulary(row: PulledVocabulary): Promise<number> {
+    return mergeRecord<VocabularyEntry>({
+        collection: 'vocabulary',
+        recordId: row.id,
+        local: await getVocabularyById(row.id),
+        remote: row.deleted_at ? null : rowToEntry(row),
+        remoteUpdatedAt: row.updated_at || row.created_at,
+        save: saveVocabularyEntry,
+        remove: () => deleteVocabularyEntry(row.id),
+    });
+}
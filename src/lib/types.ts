@@ -11,7 +11,32 @@ export interface Document {
   title: string;
   sourceType: SourceType;
   sourcePath: string; // file path or URL
+  contentHash?: string; // SHA-256 of the PDF bytes, used to spot re-imports
+  authors?: string[];
+  publishedDate?: string; // YYYY-MM-DD
+  pageCount?: number; // PDFs, read from the file on upload
+  wordCount?: number;
+  tags?: string[];
+  description?: string; // the reader's own summary
   createdAt: Date;
+  updatedAt?: Date;
+  lastOpenedAt?: Date;
+  deletedAt?: Date; // tombstone, set on records pulled from the cloud
+}
+
+// ============================================
+// Article Types
+// ============================================
+
+export interface StoredArticle {
+  id: string; // matches the document ID
+  url: string;
+  title: string;
+  content: string;
+  author?: string;
+  publishedDate?: string;
+  pageCount?: number; // source pages joined into `content`, marked by <hr data-page>
+  fetchedAt: string;
 }
 
 // ============================================
@@ -45,6 +70,8 @@ export interface Highlight {
   text: string;
   anchor: Anchor;
   createdAt: Date;
+  updatedAt?: Date;
+  deletedAt?: Date;
 }
 
 // ============================================
@@ -56,6 +83,8 @@ export interface Note {
   highlightId: string;
   content: string;
   createdAt: Date;
+  updatedAt?: Date;
+  deletedAt?: Date;
 }
 
 // ============================================
@@ -70,6 +99,8 @@ export interface VocabularyEntry {
   userNote?: string;
   definition?: string;
   createdAt: Date;
+  updatedAt?: Date;
+  deletedAt?: Date;
 }
 
 // ============================================
@@ -86,6 +117,35 @@ export interface AIOutput {
   createdAt: Date;
 }
 
+// ============================================
+// Sync Types
+// ============================================
+
+export type SyncCollection = 'documents' | 'highlights' | 'notes' | 'vocabulary';
+
+export interface SyncMutation {
+  id: string;
+  sequence: number; // replay order
+  collection: SyncCollection;
+  recordId: string; // highlight ID for notes
+  op: 'upsert' | 'delete';
+  fields: Record<string, unknown>;
+  base?: Record<string, unknown>; // values before the edit, for conflict detection
+  timestamp: string; // ISO time the change was made locally
+  rejected?: string; // why the server refused it; held until retried or discarded
+}
+
+export interface SyncConflict {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  field: string; // '_deleted' for delete/edit conflicts
+  localValue: unknown;
+  remoteValue: unknown;
+  winner: 'local' | 'remote';
+  resolvedAt: string;
+}
+
 // ============================================
 // UI State Types
 // ============================================
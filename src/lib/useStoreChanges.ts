@@ -0,0 +1,36 @@
+// React binding for storage change notifications
+
+import { useEffect, useRef } from 'react';
+import { subscribeToChanges } from './storage';
+
+// Bulk writes (sync, imports) publish many changes; refresh once per burst
+const REFRESH_DELAY_MS = 50;
+
+/**
+ * Call `onChange` whenever one of the collections changes in this or another tab
+ */
+export function useStoreChanges(collections: string[], onChange: () => void): void {
+    const callback = useRef(onChange);
+    const key = collections.join(',');
+
+    useEffect(() => {
+        callback.current = onChange;
+    });
+
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const unsubscribe = subscribeToChanges(key.split(','), () => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => {
+                timer = null;
+                callback.current();
+            }, REFRESH_DELAY_MS);
+        });
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            unsubscribe();
+        };
+    }, [key]);
+}
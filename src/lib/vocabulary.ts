@@ -3,60 +3,50 @@
 
 import { VocabularyEntry } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './storage';
+import { vocabularyCollection } from './storage/collections';
 
-const VOCABULARY_KEY = 'coreader_vocabulary';
+const vocabularyStore = getStore(vocabularyCollection);
 
 /**
  * Get all vocabulary entries
  */
-export function getAllVocabulary(): VocabularyEntry[] {
-    if (typeof window === 'undefined') return [];
-
-    const stored = localStorage.getItem(VOCABULARY_KEY);
-    if (!stored) return [];
-
-    try {
-        const entries = JSON.parse(stored);
-        return entries.map((e: VocabularyEntry) => ({
-            ...e,
-            createdAt: new Date(e.createdAt),
-        }));
-    } catch {
-        return [];
-    }
+export async function getAllVocabulary(): Promise<VocabularyEntry[]> {
+    return vocabularyStore.list();
 }
 
 /**
  * Get vocabulary entries for a specific document
  */
-export function getVocabularyByDocument(documentId: string): VocabularyEntry[] {
-    return getAllVocabulary().filter(v => v.documentId === documentId);
+export async function getVocabularyByDocument(documentId: string): Promise<VocabularyEntry[]> {
+    return vocabularyStore.query('documentId', documentId);
 }
 
 /**
  * Get a single vocabulary entry by ID
  */
-export function getVocabularyById(id: string): VocabularyEntry | null {
-    return getAllVocabulary().find(v => v.id === id) || null;
+export async function getVocabularyById(id: string): Promise<VocabularyEntry | null> {
+    return vocabularyStore.get(id);
 }
 
 /**
  * Check if a word already exists in vocabulary
  */
-export function wordExists(word: string): boolean {
+export async function wordExists(word: string): Promise<boolean> {
     const normalized = word.toLowerCase().trim();
-    return getAllVocabulary().some(v => v.word.toLowerCase() === normalized);
+    const entries = await getAllVocabulary();
+    return entries.some(v => v.word.toLowerCase() === normalized);
 }
 
 /**
  * Create a new vocabulary entry
  */
-export function createVocabularyEntry(
+export async function createVocabularyEntry(
     word: string,
     contextSentence: string,
     documentId: string,
     userNote?: string
-): VocabularyEntry {
+): Promise<VocabularyEntry> {
     const entry: VocabularyEntry = {
         id: uuidv4(),
         word: word.trim(),
@@ -64,71 +54,60 @@ export function createVocabularyEntry(
         documentId,
         userNote,
         createdAt: new Date(),
+        updatedAt: new Date(),
     };
 
-    const entries = getAllVocabulary();
-    entries.push(entry);
-    saveVocabulary(entries);
+    return vocabularyStore.put(entry);
+}
 
-    return entry;
+/**
+ * Save a vocabulary entry as-is (insert or replace)
+ */
+export async function saveVocabularyEntry(entry: VocabularyEntry): Promise<VocabularyEntry> {
+    return vocabularyStore.put(entry);
 }
 
 /**
  * Update vocabulary entry with definition or note
  */
-export function updateVocabularyEntry(
+export async function updateVocabularyEntry(
     id: string,
     updates: Partial<Pick<VocabularyEntry, 'userNote' | 'definition'>>
-): VocabularyEntry | null {
-    const entries = getAllVocabulary();
-    const index = entries.findIndex(e => e.id === id);
-
-    if (index === -1) return null;
+): Promise<VocabularyEntry | null> {
+    const entry = await vocabularyStore.get(id);
+    if (!entry) return null;
 
-    entries[index] = { ...entries[index], ...updates };
-    saveVocabulary(entries);
-
-    return entries[index];
+    return vocabularyStore.put({ ...entry, ...updates, updatedAt: new Date() });
 }
 
 /**
  * Delete vocabulary entry
  */
-export function deleteVocabularyEntry(id: string): boolean {
-    const entries = getAllVocabulary();
-    const filtered = entries.filter(e => e.id !== id);
-
-    if (filtered.length === entries.length) return false;
-
-    saveVocabulary(filtered);
-    return true;
+export async function deleteVocabularyEntry(id: string): Promise<boolean> {
+    return vocabularyStore.delete(id);
 }
 
 /**
  * Delete all vocabulary entries for a document
  */
-export function deleteVocabularyByDocument(documentId: string): number {
-    const entries = getAllVocabulary();
-    const filtered = entries.filter(e => e.documentId !== documentId);
-    const deleted = entries.length - filtered.length;
-
-    if (deleted > 0) {
-        saveVocabulary(filtered);
+export async function deleteVocabularyByDocument(documentId: string): Promise<number> {
+    const entries = await vocabularyStore.query('documentId', documentId);
+    for (const entry of entries) {
+        await vocabularyStore.delete(entry.id);
     }
-
-    return deleted;
+    return entries.length;
 }
 
 /**
  * Get vocabulary statistics
  */
-export function getVocabularyStats(): {
+export async function getVocabularyStats(): Promise<{
     total: number;
     withDefinitions: number;
     withNotes: number;
     documentsCount: number;
-} {
-    const entries = getAllVocabulary();
+}> {
+    const entries = await getAllVocabulary();
     const documentIds = new Set(entries.map(e => e.documentId));
 
     return {
@@ -142,11 +121,12 @@ export function getVocabularyStats(): {
 /**
  * Search vocabulary entries
  */
-export function searchVocabulary(query: string): VocabularyEntry[] {
+export async function searchVocabulary(query: string): Promise<VocabularyEntry[]> {
     const normalized = query.toLowerCase().trim();
     if (!normalized) return [];
 
-    return getAllVocabulary().filter(entry =>
+    const entries = await getAllVocabulary();
+    return entries.filter(entry =>
         entry.word.toLowerCase().includes(normalized) ||
         entry.contextSentence.toLowerCase().includes(normalized) ||
         entry.userNote?.toLowerCase().includes(normalized) ||
@@ -157,8 +137,14 @@ export function searchVocabulary(query: string): VocabularyEntry[] {
 /**
  * Export vocabulary as CSV
  */
-export function exportVocabularyAsCsv(): string {
-    const entries = getAllVocabulary();
+export async function exportVocabularyAsCsv(): Promise<string> {
+    return formatVocabularyCsv(await getAllVocabulary());
+}
+
+/**
+ * Format vocabulary entries as CSV
+ */
+export function formatVocabularyCsv(entries: VocabularyEntry[]): string {
     const headers = ['Word', 'Context', 'Definition', 'Note', 'Date'];
     const rows = entries.map(e => [
         escapeCsv(e.word),
@@ -177,13 +163,3 @@ function escapeCsv(value: string): string {
     }
     return value;
 }
-
-function saveVocabulary(entries: VocabularyEntry[]): void {
-    if (typeof window === 'undefined') return;
-
-    try {
-        localStorage.setItem(VOCABULARY_KEY, JSON.stringify(entries));
-    } catch (e) {
-        console.error('Failed to save vocabulary:', e);
-    }
-}